@@ -1,7 +1,7 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { app } from 'electron';
-import type { ServiceInfo } from '../types/service';
+import type { ResourceLimits, ServiceInfo, ServiceScope } from '../types/service';
 
 export interface ServiceBackup {
   id: string;
@@ -9,6 +9,9 @@ export interface ServiceBackup {
   services: BackupServiceInfo[];
   platform: string;
   totalServices: number;
+  scope?: ServiceScope;
+  host?: string;
+  machine?: string;
 }
 
 export interface BackupServiceInfo {
@@ -17,6 +20,7 @@ export interface BackupServiceInfo {
   status: string;
   startupType: string;
   enabled: boolean;
+  limits?: Partial<ResourceLimits>;
 }
 
 const BACKUP_DIR = path.join(app.getPath('userData'), 'backups');
@@ -32,7 +36,19 @@ function getBackupFilePath(id: string): string {
   return path.join(BACKUP_DIR, `backup-${id}.json`);
 }
 
-export function createBackup(services: ServiceInfo[]): ServiceBackup {
+/**
+ * `limits` holds each service's non-default resource limits when the platform
+ * has them; services missing from the map are recorded with none set. `host`
+ * is the SSH destination the services were read from, if not this machine,
+ * and `machine` the local container they were read from.
+ */
+export function createBackup(
+  services: ServiceInfo[],
+  scope: ServiceScope = 'system',
+  limits?: Map<string, Partial<ResourceLimits>>,
+  host?: string,
+  machine?: string
+): ServiceBackup {
   ensureBackupDirectory();
 
   const timestamp = Date.now();
@@ -45,14 +61,19 @@ export function createBackup(services: ServiceInfo[]): ServiceBackup {
     startupType: service.startupType,
     enabled: service.startupType.toLowerCase().includes('enabled') || 
              service.startupType.toLowerCase().includes('automatic'),
+    ...(limits ? { limits: limits.get(service.id) ?? {} } : {}),
   }));
 
   const backup: ServiceBackup = {
     id,
     timestamp,
     services: backupServices,
-    platform: process.platform,
+    // Remote hosts are always Linux machines running systemd.
+    platform: host ? 'linux' : process.platform,
     totalServices: services.length,
+    scope,
+    ...(host ? { host } : {}),
+    ...(machine ? { machine } : {}),
   };
 
   fs.writeFileSync(getBackupFilePath(id), JSON.stringify(backup, null, 2), 'utf-8');
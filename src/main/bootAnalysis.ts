@@ -0,0 +1,150 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { BlameEntry, BootAnalysis, BootTimes, CriticalChainEntry, ServiceScope } from '../types/service';
+import { scopeArgs } from './services/linux';
+
+type ExecError = NodeJS.ErrnoException & { stderr?: string };
+
+const execFileAsync = promisify(execFile);
+
+const EXEC_OPTIONS = {
+  encoding: 'utf8' as const,
+  env: { ...process.env, LANG: 'C', LC_ALL: 'C' },
+  maxBuffer: 10 * 1024 * 1024,
+};
+
+const TIMESPAN_UNITS_MS: Record<string, number> = {
+  y: 31557600000,
+  month: 2629800000,
+  w: 604800000,
+  d: 86400000,
+  h: 3600000,
+  min: 60000,
+  s: 1000,
+  ms: 1,
+  us: 0.001,
+  'µs': 0.001,
+  'μs': 0.001,
+};
+
+const TIMESPAN_PART = /(\d+(?:\.\d+)?)(y|month|w|d|h|min|ms|us|µs|μs|s)/g;
+
+/** Parses systemd's human timespans, e.g. `1min 2.345s` or `850ms`, into milliseconds. */
+function parseTimespan(text: string): number | null {
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of text.trim().matchAll(TIMESPAN_PART)) {
+    total += Number(amount) * TIMESPAN_UNITS_MS[unit];
+    matched = true;
+  }
+  return matched ? Math.round(total * 1000) / 1000 : null;
+}
+
+async function runAnalyze(scope: ServiceScope, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('systemd-analyze', [...scopeArgs(scope), ...args, '--no-pager'], EXEC_OPTIONS);
+    return stdout;
+  } catch (error) {
+    const stderr = (error as ExecError).stderr ?? '';
+    if (stderr.includes('not yet finished')) {
+      throw new Error('Boot has not finished yet; systemd-analyze reports timings once it has');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parses `systemd-analyze time`, e.g.
+ * `Startup finished in 1.2s (kernel) + 3.4s (initrd) + 9.8s (userspace) = 14.4s`
+ * followed by `graphical.target reached after 9.7s in userspace.`
+ */
+function parseBootTimes(output: string): BootTimes {
+  const times: BootTimes = {
+    firmwareMs: null,
+    loaderMs: null,
+    kernelMs: null,
+    initrdMs: null,
+    userspaceMs: null,
+    totalMs: 0,
+    reachedTarget: null,
+    reachedAfterMs: null,
+  };
+
+  // The `= total` part is left out when only userspace was timed, e.g. for a user manager or in a container.
+  const finished = /finished in (.+?)(?: = (.+?))?\.?\s*$/m.exec(output);
+  if (!finished) {
+    throw new Error('Unexpected systemd-analyze time output');
+  }
+
+  for (const phase of finished[1].split(' + ')) {
+    const match = /^(.+?)(?: \((\w+)\))?$/.exec(phase.trim());
+    if (!match) continue;
+    const duration = parseTimespan(match[1]);
+    switch (match[2]) {
+      case 'firmware': times.firmwareMs = duration; break;
+      case 'loader': times.loaderMs = duration; break;
+      case 'kernel': times.kernelMs = duration; break;
+      case 'initrd': times.initrdMs = duration; break;
+      default: times.userspaceMs = duration; break;
+    }
+  }
+  times.totalMs = (finished[2] ? parseTimespan(finished[2]) : null) ?? times.userspaceMs ?? 0;
+
+  const reached = /^(\S+) reached after (.+?) in userspace/m.exec(output);
+  if (reached) {
+    times.reachedTarget = reached[1];
+    times.reachedAfterMs = parseTimespan(reached[2]);
+  }
+
+  return times;
+}
+
+/** Parses `systemd-analyze blame`: one `<timespan> <unit>` per line, slowest first. */
+function parseBlame(output: string): BlameEntry[] {
+  const entries: BlameEntry[] = [];
+  for (const line of output.split('\n')) {
+    const match = /^\s*(.+?)\s+(\S+)\s*$/.exec(line);
+    if (!match) continue;
+    const durationMs = parseTimespan(match[1]);
+    if (durationMs !== null) {
+      entries.push({ unit: match[2], durationMs });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Parses `systemd-analyze critical-chain`. Each unit line is indented two
+ * columns per level behind a tree glyph (`└─`, or `` `- `` without UTF-8) and
+ * carries `@<activated>` and, for units that took time, `+<duration>`.
+ */
+function parseCriticalChain(output: string): CriticalChainEntry[] {
+  const entries: CriticalChainEntry[] = [];
+  for (const line of output.split('\n')) {
+    const match = /^(\s*)([└├`|][─-])?(\S+\.[a-z]+)(?:\s+@([^+]+?))?(?:\s+\+(.+?))?\s*$/.exec(line);
+    if (!match) continue;
+    entries.push({
+      unit: match[3],
+      // The target heads the chain without a glyph; the first unit under it sits at column 0.
+      depth: match[2] ? Math.floor(match[1].length / 2) + 1 : 0,
+      activatedAtMs: match[4] ? parseTimespan(match[4]) : null,
+      durationMs: match[5] ? parseTimespan(match[5]) : null,
+    });
+  }
+  return entries;
+}
+
+/** Runs `systemd-analyze time`, `blame` and `critical-chain` for the manager of `scope`. */
+export async function getBootAnalysis(scope: ServiceScope = 'system'): Promise<BootAnalysis> {
+  const [time, blame, chain] = await Promise.all([
+    runAnalyze(scope, ['time']),
+    runAnalyze(scope, ['blame']),
+    runAnalyze(scope, ['critical-chain']),
+  ]);
+
+  return {
+    times: parseBootTimes(time),
+    blame: parseBlame(blame),
+    criticalChain: parseCriticalChain(chain),
+  };
+}
@@ -17,6 +17,25 @@ export const CONFIG = {
     OPERATION_TIMEOUT_MS: 30000,
     MAX_CONCURRENT_OPS: 5,
   },
+  ACTIONS: {
+    DEFAULT_WAIT_MS: 10000,
+    MAX_WAIT_MS: 120000,
+    // Without D-Bus signals (remote hosts, containers, the systemctl backend) the unit is polled,
+    // backing off from the first interval to the last; each remote poll is an ssh round trip.
+    POLL_INTERVAL_MS: 500,
+    MAX_POLL_INTERVAL_MS: 4000,
+    // How long a started unit has to stay up before the start counts as successful.
+    SETTLE_MS: 3000,
+    LOG_TAIL_LINES: 15,
+  },
+  CRASH_LOOP: {
+    SCAN_INTERVAL_MS: 60000,
+    WINDOW_MS: 10 * 60 * 1000,
+    // Automatic restarts within the window that flag a crash loop.
+    RESTART_THRESHOLD: 3,
+    // Changes between active and failed within the window that flag flapping (two round trips).
+    TRANSITION_THRESHOLD: 4,
+  },
   WINDOW: {
     DEFAULT_WIDTH: 1200,
     DEFAULT_HEIGHT: 780,
@@ -0,0 +1,247 @@
+import type { BrowserWindow } from 'electron';
+import type {
+  HealthCheckEvent,
+  ServiceInfo,
+  ServiceInstabilityKind,
+  ServiceScope,
+  ServiceStatus,
+  UnstableService,
+} from '../types/service';
+import { CONFIG } from './config';
+import { listServices, supportsUserScope, usesSystemd } from './services';
+
+// A jump this large between two reads is a counter we missed the start of, not a burst.
+const MAX_RESTART_DELTA = 50;
+
+interface Transition {
+  timestamp: number;
+  to: 'active' | 'failed';
+}
+
+interface UnitHistory {
+  serviceId: string;
+  serviceName: string;
+  scope: ServiceScope;
+  status: ServiceStatus;
+  /** Last settled state; transitional states in between are skipped. */
+  settled: ServiceStatus | null;
+  /** NRestarts at the last read; null for units that do not report it. */
+  restartCounter: number | null;
+  restartTimes: number[];
+  transitions: Transition[];
+  lastSeen: number;
+  flagged: { kind: ServiceInstabilityKind; since: number } | null;
+}
+
+/**
+ * Watches every unit, not just the ones enrolled for health checks, for
+ * crash loops (NRestarts climbing) and flapping (going back and forth between
+ * active and failed). It is fed by the service list, the live unit events and
+ * a scan of its own, and reports flagged units as health events.
+ */
+class CrashLoopDetector {
+  private units = new Map<string, UnitHistory>();
+  private mainWindow: BrowserWindow | null = null;
+  private intervalId: NodeJS.Timeout | null = null;
+  private scanning = false;
+
+  start(window: BrowserWindow): void {
+    this.mainWindow = window;
+    if (this.intervalId || !usesSystemd()) return;
+
+    this.intervalId = setInterval(() => {
+      void this.scan();
+    }, CONFIG.CRASH_LOOP.SCAN_INTERVAL_MS);
+    void this.scan();
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.mainWindow = null;
+  }
+
+  observe(services: ServiceInfo[], scope: ServiceScope = 'system', timestamp = Date.now()): void {
+    for (const service of services) {
+      const key = this.key(service.id, scope);
+      let history = this.units.get(key);
+      if (!history) {
+        // The first read is only a baseline; restarts before it are not ours to count.
+        history = {
+          serviceId: service.id,
+          serviceName: service.name,
+          scope,
+          status: service.status,
+          settled: null,
+          restartCounter: null,
+          restartTimes: [],
+          transitions: [],
+          lastSeen: timestamp,
+          flagged: null,
+        };
+        this.units.set(key, history);
+      }
+
+      this.recordRestarts(history, service.restarts, timestamp);
+      this.recordTransition(history, service.status, timestamp);
+      history.status = service.status;
+      history.serviceName = service.name;
+      history.lastSeen = timestamp;
+      this.evaluate(history, timestamp);
+    }
+
+    this.prune(timestamp);
+  }
+
+  getUnstable(): UnstableService[] {
+    const unstable: UnstableService[] = [];
+    for (const history of this.units.values()) {
+      if (!history.flagged) continue;
+      unstable.push({
+        serviceId: history.serviceId,
+        serviceName: history.serviceName,
+        scope: history.scope,
+        kind: history.flagged.kind,
+        restarts: history.restartTimes.length,
+        transitions: history.transitions.length,
+        since: history.flagged.since,
+        lastSeen: history.lastSeen,
+        status: history.status,
+        message: this.describe(history, history.flagged.kind),
+      });
+    }
+    return unstable.sort((a, b) => a.since - b.since);
+  }
+
+  cleanup(): void {
+    this.stop();
+    this.units.clear();
+  }
+
+  private key(serviceId: string, scope: ServiceScope): string {
+    return `${scope}:${serviceId}`;
+  }
+
+  private async scan(): Promise<void> {
+    if (this.scanning) return;
+    // The provider can fall back to SysV scripts after start(); they report no restarts to watch.
+    if (!usesSystemd()) {
+      if (this.intervalId) {
+        clearInterval(this.intervalId);
+        this.intervalId = null;
+      }
+      return;
+    }
+    this.scanning = true;
+
+    const scopes: ServiceScope[] = supportsUserScope() ? ['system', 'user'] : ['system'];
+    try {
+      for (const scope of scopes) {
+        try {
+          this.observe(await listServices({ scope }), scope);
+        } catch (error) {
+          console.warn(`[CRASHLOOP] Failed to scan ${scope} units:`, error);
+        }
+      }
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  private recordRestarts(history: UnitHistory, counter: number | undefined, timestamp: number): void {
+    if (counter === undefined) return;
+
+    const previous = history.restartCounter;
+    history.restartCounter = counter;
+    // A lower count means the unit was started by hand, which resets NRestarts.
+    if (previous === null || counter <= previous) return;
+
+    const delta = Math.min(counter - previous, MAX_RESTART_DELTA);
+    for (let i = 0; i < delta; i++) {
+      history.restartTimes.push(timestamp);
+    }
+  }
+
+  private recordTransition(history: UnitHistory, status: ServiceStatus, timestamp: number): void {
+    if (status !== 'active' && status !== 'failed' && status !== 'inactive') return;
+
+    if (status !== 'inactive' && history.settled && history.settled !== 'inactive' && history.settled !== status) {
+      history.transitions.push({ timestamp, to: status });
+    }
+    history.settled = status;
+  }
+
+  private evaluate(history: UnitHistory, now: number): void {
+    const windowStart = now - CONFIG.CRASH_LOOP.WINDOW_MS;
+    history.restartTimes = history.restartTimes.filter((time) => time >= windowStart);
+    history.transitions = history.transitions.filter((transition) => transition.timestamp >= windowStart);
+
+    let kind: ServiceInstabilityKind | null = null;
+    if (history.restartTimes.length >= CONFIG.CRASH_LOOP.RESTART_THRESHOLD) {
+      kind = 'crash-loop';
+    } else if (history.transitions.length >= CONFIG.CRASH_LOOP.TRANSITION_THRESHOLD) {
+      kind = 'flapping';
+    }
+
+    const previous = history.flagged;
+    if (kind && previous?.kind !== kind) {
+      history.flagged = { kind, since: previous?.since ?? now };
+      console.log(`[CRASHLOOP] ${this.describe(history, kind)}`);
+      this.emit(history, kind, previous ? 'unhealthy' : 'healthy', 'unhealthy', this.describe(history, kind), now);
+    } else if (!kind && previous) {
+      history.flagged = null;
+      this.emit(history, previous.kind, 'unhealthy', 'healthy', `${history.serviceName} is no longer restarting or failing repeatedly`, now);
+    }
+  }
+
+  private describe(history: UnitHistory, kind: ServiceInstabilityKind): string {
+    const minutes = Math.round(CONFIG.CRASH_LOOP.WINDOW_MS / 60000);
+    if (kind === 'crash-loop') {
+      const count = history.restartTimes.length;
+      return `${history.serviceName} was restarted automatically ${count} time${count === 1 ? '' : 's'} in the last ${minutes} minutes`;
+    }
+    const failures = history.transitions.filter((transition) => transition.to === 'failed').length;
+    return `${history.serviceName} went between active and failed ${history.transitions.length} times in the last ${minutes} minutes (${failures} failure${failures === 1 ? '' : 's'})`;
+  }
+
+  private emit(
+    history: UnitHistory,
+    kind: ServiceInstabilityKind,
+    previousStatus: HealthCheckEvent['status'],
+    status: HealthCheckEvent['status'],
+    message: string,
+    timestamp: number
+  ): void {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) return;
+
+    const failures = history.transitions.filter((transition) => transition.to === 'failed').length;
+    const event: HealthCheckEvent = {
+      serviceId: history.serviceId,
+      timestamp,
+      status,
+      previousStatus,
+      consecutiveFailures: history.restartTimes.length + failures,
+      message,
+      instability: kind,
+      scope: history.scope,
+    };
+
+    this.mainWindow.webContents.send('health:event', event);
+  }
+
+  private prune(now: number): void {
+    // Units that stop showing up (removed, or a transient that finished) are forgotten.
+    const staleAfter = Math.max(CONFIG.CRASH_LOOP.WINDOW_MS, CONFIG.CRASH_LOOP.SCAN_INTERVAL_MS * 3);
+    for (const [key, history] of this.units) {
+      if (now - history.lastSeen <= staleAfter) continue;
+      if (history.flagged) {
+        this.emit(history, history.flagged.kind, 'unhealthy', 'unknown', `${history.serviceName} is no longer loaded`, now);
+      }
+      this.units.delete(key);
+    }
+  }
+}
+
+export const crashLoopDetector = new CrashLoopDetector();
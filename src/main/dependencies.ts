@@ -0,0 +1,109 @@
+import type {
+  DependencyImpact,
+  DependencyKind,
+  ImpactedUnit,
+  ServiceAction,
+  ServiceScope,
+  ServiceStatus,
+  UnitDependencies,
+} from '../types/service';
+import { getUnitDependencies } from './services';
+
+/** Upper bound on units read while walking the reverse dependency tree. */
+const MAX_IMPACT_UNITS = 150;
+
+/**
+ * Reverse properties along which systemd propagates a stop, paired with the
+ * forward property the dependent declares. Requires=, Requisite=, BindsTo= and
+ * PartOf= dependents are all stopped when the unit they point at stops.
+ */
+const STOP_PROPAGATION: ReadonlyArray<[reverse: DependencyKind, forward: DependencyKind]> = [
+  ['BoundBy', 'BindsTo'],
+  ['RequiredBy', 'Requires'],
+  ['RequisiteOf', 'Requisite'],
+  ['ConsistsOf', 'PartOf'],
+];
+
+const STOPPING_ACTIONS: ReadonlySet<ServiceAction> = new Set(['stop', 'disable-now']);
+const DISABLING_ACTIONS: ReadonlySet<ServiceAction> = new Set(['disable', 'disable-now']);
+
+export const IMPACT_ACTIONS: ReadonlySet<ServiceAction> = new Set([...STOPPING_ACTIONS, ...DISABLING_ACTIONS]);
+
+const isRunning = (status: ServiceStatus) => status === 'active' || status === 'activating';
+
+/**
+ * Works out which other units a stop or disable of `serviceId` takes down or
+ * leaves without a dependency:
+ * - stop: every running unit that Requires/Requisite/BindsTo/PartOf it, and
+ *   then their dependents in turn; running units that only Want it (other than
+ *   targets) are listed as broken.
+ * - disable: units with Requisite= on it, which will fail to start at boot
+ *   once nothing pulls it in.
+ */
+export async function getDependencyImpact(
+  serviceId: string,
+  action: ServiceAction,
+  scope: ServiceScope = 'system'
+): Promise<DependencyImpact> {
+  const cache = new Map<string, Promise<UnitDependencies | null>>();
+  const load = (unitId: string): Promise<UnitDependencies | null> => {
+    let pending = cache.get(unitId);
+    if (!pending) {
+      // Units that cannot be loaded (bad names, vanished units) are skipped rather than failing the whole walk.
+      pending = getUnitDependencies(unitId, scope).catch(() => null);
+      cache.set(unitId, pending);
+    }
+    return pending;
+  };
+
+  const root = await getUnitDependencies(serviceId, scope);
+  cache.set(root.unitId, Promise.resolve(root));
+
+  const stopped: ImpactedUnit[] = [];
+  const broken: ImpactedUnit[] = [];
+  const seen = new Set<string>([root.unitId]);
+  let truncated = false;
+
+  if (STOPPING_ACTIONS.has(action)) {
+    const queue: UnitDependencies[] = [root];
+    while (queue.length > 0) {
+      const parent = queue.shift() as UnitDependencies;
+      for (const [reverse, forward] of STOP_PROPAGATION) {
+        for (const dependentId of parent.dependencies[reverse]) {
+          if (seen.has(dependentId)) continue;
+          if (cache.size >= MAX_IMPACT_UNITS) {
+            truncated = true;
+            continue;
+          }
+          seen.add(dependentId);
+
+          const dependent = await load(dependentId);
+          if (!dependent || !isRunning(dependent.status)) continue;
+
+          stopped.push({ id: dependentId, status: dependent.status, reason: `${forward}=${parent.unitId}` });
+          queue.push(dependent);
+        }
+      }
+    }
+
+    for (const wanterId of root.dependencies.WantedBy) {
+      if (seen.has(wanterId) || wanterId.endsWith('.target')) continue;
+      seen.add(wanterId);
+      const wanter = await load(wanterId);
+      if (wanter && isRunning(wanter.status)) {
+        broken.push({ id: wanterId, status: wanter.status, reason: `Wants=${root.unitId}` });
+      }
+    }
+  }
+
+  if (DISABLING_ACTIONS.has(action)) {
+    const stoppedIds = new Set(stopped.map((unit) => unit.id));
+    for (const dependentId of root.dependencies.RequisiteOf) {
+      if (stoppedIds.has(dependentId)) continue;
+      const dependent = await load(dependentId);
+      broken.push({ id: dependentId, status: dependent?.status ?? 'unknown', reason: `Requisite=${root.unitId}` });
+    }
+  }
+
+  return { unitId: root.unitId, action, stopped, broken, truncated };
+}
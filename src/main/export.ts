@@ -10,7 +10,7 @@ function escapeCSV(value: string | null | undefined): string {
 }
 
 function exportToCSV(services: ServiceInfo[]): string {
-  const headers = ['Name', 'Status', 'Startup Type', 'Description', 'Executable', 'PID', 'Provider'];
+  const headers = ['Name', 'Status', 'Startup Type', 'Description', 'Executable', 'PID', 'Provider', 'Exposure', 'Exposure Rating'];
   const rows = services.map(service => [
     escapeCSV(service.name),
     escapeCSV(service.statusLabel || service.status),
@@ -19,6 +19,8 @@ function exportToCSV(services: ServiceInfo[]): string {
     escapeCSV(service.executable),
     escapeCSV(service.pid?.toString()),
     escapeCSV(service.provider),
+    escapeCSV(service.security?.score.toFixed(1)),
+    escapeCSV(service.security?.predicate),
   ]);
 
   return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
@@ -38,6 +40,7 @@ function exportToJSON(services: ServiceInfo[]): string {
     unitFile: service.unitFile,
     loadState: service.loadState,
     domain: service.domain,
+    security: service.security ?? null,
   }));
 
   return JSON.stringify(exportData, null, 2);
@@ -46,8 +49,8 @@ function exportToJSON(services: ServiceInfo[]): string {
 function exportToMarkdown(services: ServiceInfo[]): string {
   let markdown = '# Service Manager Export\n\n';
   markdown += `Total Services: ${services.length}\n\n`;
-  markdown += '| Name | Status | Startup Type | Description | Provider |\n';
-  markdown += '|------|--------|--------------|-------------|----------|\n';
+  markdown += '| Name | Status | Startup Type | Description | Provider | Exposure |\n';
+  markdown += '|------|--------|--------------|-------------|----------|----------|\n';
 
   services.forEach(service => {
     const name = service.name.replace(/\|/g, '\\|');
@@ -55,8 +58,9 @@ function exportToMarkdown(services: ServiceInfo[]): string {
     const startupType = (service.startupType || '').replace(/\|/g, '\\|');
     const description = (service.description || '').replace(/\|/g, '\\|').substring(0, 100);
     const provider = service.provider.replace(/\|/g, '\\|');
+    const exposure = service.security ? `${service.security.score.toFixed(1)} ${service.security.predicate}` : '—';
 
-    markdown += `| ${name} | ${status} | ${startupType} | ${description} | ${provider} |\n`;
+    markdown += `| ${name} | ${status} | ${startupType} | ${description} | ${provider} | ${exposure} |\n`;
   });
 
   return markdown;
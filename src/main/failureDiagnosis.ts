@@ -0,0 +1,239 @@
+import { execFile } from 'node:child_process';
+import os from 'node:os';
+import { promisify } from 'node:util';
+import type { FailureDiagnosis, MainProcessExit, ServiceScope } from '../types/service';
+import { isValidServiceId } from '../utils/validation';
+import { normalizeServiceId, parseShowBlocks, scopeArgs } from './services/linux';
+
+const execFileAsync = promisify(execFile);
+
+const EXEC_OPTIONS = {
+  encoding: 'utf8' as const,
+  env: { ...process.env, LANG: 'C', LC_ALL: 'C' },
+  maxBuffer: 10 * 1024 * 1024,
+};
+
+const JOURNAL_LINES = 200;
+
+// si_code values systemd reports in ExecMainCode.
+const CLD_EXITED = 1;
+const CLD_KILLED = 2;
+const CLD_DUMPED = 3;
+
+/** Exit statuses with a meaning of their own: LSB's (1-7) and systemd's (200+), see systemd.exec(5). */
+const EXIT_STATUSES: Readonly<Record<number, [name: string, description: string]>> = {
+  1: ['FAILURE', 'generic failure'],
+  2: ['INVALIDARGUMENT', 'invalid or excess arguments'],
+  3: ['NOTIMPLEMENTED', 'unimplemented feature'],
+  4: ['NOPERMISSION', 'the user has insufficient privileges'],
+  5: ['NOTINSTALLED', 'the program is not installed'],
+  6: ['NOTCONFIGURED', 'the program is not configured'],
+  7: ['NOTRUNNING', 'the program is not running'],
+  200: ['CHDIR', 'could not change to the WorkingDirectory='],
+  201: ['NICE', 'could not set the Nice= level'],
+  202: ['FDS', 'could not close unwanted file descriptors'],
+  203: ['EXEC', 'the command could not be executed; check the ExecStart= path and permissions'],
+  204: ['MEMORY', 'out of memory while setting up the process'],
+  205: ['LIMITS', 'could not apply the resource limits (Limit*=)'],
+  206: ['OOM_ADJUST', 'could not adjust the OOM score'],
+  207: ['SIGNAL_MASK', 'could not set the signal mask'],
+  208: ['STDIN', 'could not set up standard input'],
+  209: ['STDOUT', 'could not set up standard output'],
+  210: ['CHROOT', 'could not change to the RootDirectory='],
+  211: ['IOPRIO', 'could not set the IO scheduling priority'],
+  212: ['TIMERSLACK', 'could not set the timer slack'],
+  213: ['SECUREBITS', 'could not set the secure bits'],
+  214: ['SETSCHEDULER', 'could not set the CPU scheduling policy'],
+  215: ['CPUAFFINITY', 'could not set the CPU affinity'],
+  216: ['GROUP', 'could not switch to the Group= (does it exist?)'],
+  217: ['USER', 'could not switch to the User= (does it exist?)'],
+  218: ['CAPABILITIES', 'could not drop capabilities'],
+  219: ['CGROUP', 'could not set up the control group'],
+  220: ['SETSID', 'could not create a new session'],
+  221: ['CONFIRM', 'execution was declined at the confirmation prompt'],
+  222: ['STDERR', 'could not set up standard error'],
+  224: ['PAM', 'PAM session setup failed'],
+  225: ['NETWORK', 'could not set up the private network'],
+  226: ['NAMESPACE', 'could not set up the mount namespace (check ReadWritePaths= and similar)'],
+  227: ['NO_NEW_PRIVILEGES', 'could not disable new privileges'],
+  228: ['SECCOMP', 'could not apply the system call filter'],
+  229: ['SELINUX_CONTEXT', 'could not set the SELinux context'],
+  230: ['PERSONALITY', 'could not set the execution domain'],
+  231: ['APPARMOR_PROFILE', 'could not apply the AppArmor profile'],
+  232: ['ADDRESS_FAMILIES', 'could not restrict the address families'],
+  233: ['RUNTIME_DIRECTORY', 'could not create the RuntimeDirectory='],
+  235: ['CHOWN', 'could not change the owner of the socket or standard output'],
+  236: ['SMACK_PROCESS_LABEL', 'could not set the SMACK label'],
+  237: ['KEYRING', 'could not set up the kernel keyring'],
+  238: ['STATE_DIRECTORY', 'could not create the StateDirectory='],
+  239: ['CACHE_DIRECTORY', 'could not create the CacheDirectory='],
+  240: ['LOGS_DIRECTORY', 'could not create the LogsDirectory='],
+  241: ['CONFIGURATION_DIRECTORY', 'could not create the ConfigurationDirectory='],
+  242: ['NUMA_POLICY', 'could not set the NUMA policy'],
+  243: ['CREDENTIALS', 'could not set up the credentials'],
+  245: ['BPF', 'could not apply a BPF program'],
+};
+
+/** Values of a failed unit's Result= property, see org.freedesktop.systemd1(5). */
+const RESULT_DESCRIPTIONS: Readonly<Record<string, string>> = {
+  'exit-code': 'The main process exited with a non-zero status',
+  signal: 'The main process was killed by a signal',
+  'core-dump': 'The main process dumped core',
+  timeout: 'A start, stop or runtime timeout was hit',
+  watchdog: 'The watchdog timed out (WatchdogSec=)',
+  'start-limit-hit': 'The unit was started too often in a short time and systemd stopped trying',
+  resources: 'systemd could not set up the unit (a missing directory, PID file or similar)',
+  'oom-kill': 'The kernel OOM killer ended a process of the unit',
+  protocol: 'The service broke the startup protocol of its Type= (e.g. no PID file or READY notification)',
+  'exec-condition': 'ExecCondition= did not pass',
+};
+
+// Aliases share a number (SIGIOT is SIGABRT); the first, conventional name wins.
+const SIGNAL_NAMES: ReadonlyMap<number, string> = new Map(
+  Object.entries(os.constants.signals).reverse().map(([name, number]) => [number, name])
+);
+
+function parseInteger(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+function decodeMainExit(code: number | null, status: number | null): MainProcessExit | null {
+  if (status === null) return null;
+  if (code === CLD_EXITED) {
+    const known = EXIT_STATUSES[status];
+    return { kind: 'exited', status, name: known?.[0] ?? null, description: known?.[1] ?? null };
+  }
+  if (code === CLD_KILLED || code === CLD_DUMPED) {
+    return {
+      kind: code === CLD_DUMPED ? 'dumped' : 'killed',
+      status,
+      name: SIGNAL_NAMES.get(status) ?? null,
+      description: null,
+    };
+  }
+  return null;
+}
+
+/** E.g. `the main process exited with status 203/EXEC: ...`; callers capitalize it where it starts a sentence. */
+function describeExit(exit: MainProcessExit): string {
+  if (exit.kind === 'exited') {
+    const name = exit.name ? `/${exit.name}` : '';
+    return `the main process exited with status ${exit.status}${name}${exit.description ? `: ${exit.description}` : ''}`;
+  }
+  const signal = exit.name ?? `signal ${exit.status}`;
+  return `the main process was killed by ${signal}${exit.kind === 'dumped' ? ' and dumped core' : ''}`;
+}
+
+function summarize(diagnosis: Omit<FailureDiagnosis, 'summary' | 'journal' | 'journalSource'>): string {
+  const { result, mainExit, nRestarts } = diagnosis;
+  let summary: string;
+  if (diagnosis.startLimitHit) {
+    const limit = diagnosis.startLimitBurst !== null && diagnosis.startLimitInterval
+      ? ` (${diagnosis.startLimitBurst} starts within ${diagnosis.startLimitInterval})`
+      : '';
+    summary = `Restarted too often and hit its start limit${limit}`;
+    if (mainExit && (mainExit.kind !== 'exited' || mainExit.status !== 0)) {
+      summary += `; on the last run ${describeExit(mainExit)}`;
+    }
+  } else if (mainExit && (result === 'exit-code' || result === 'signal' || result === 'core-dump')) {
+    const exit = describeExit(mainExit);
+    summary = exit.charAt(0).toUpperCase() + exit.slice(1);
+  } else {
+    summary = diagnosis.resultDescription ?? `Failed with result ${result}`;
+  }
+  if (nRestarts) {
+    summary += ` (restarted automatically ${nRestarts} time${nRestarts === 1 ? '' : 's'})`;
+  }
+  return summary;
+}
+
+/**
+ * Journal lines of one invocation. PID 1 tags its own messages about the
+ * unit with INVOCATION_ID (USER_INVOCATION_ID in the user manager), and
+ * journald tags the unit's output with _SYSTEMD_INVOCATION_ID.
+ */
+async function readInvocationJournal(invocationId: string, scope: ServiceScope): Promise<string[]> {
+  const managerField = scope === 'user' ? 'USER_INVOCATION_ID' : 'INVOCATION_ID';
+  const { stdout } = await execFileAsync(
+    'journalctl',
+    [
+      ...(scope === 'user' ? ['--user'] : []),
+      `${managerField}=${invocationId}`,
+      '+',
+      `_SYSTEMD_INVOCATION_ID=${invocationId}`,
+      '-n',
+      String(JOURNAL_LINES),
+      '--no-pager',
+      '--output=short-iso',
+    ],
+    { ...EXEC_OPTIONS, timeout: 10000 }
+  );
+  return stdout.split('\n').filter((line) => line.trim() && !line.startsWith('-- '));
+}
+
+async function readUnitJournal(unitId: string, scope: ServiceScope): Promise<string[]> {
+  const { stdout } = await execFileAsync(
+    'journalctl',
+    [scope === 'user' ? '--user-unit' : '-u', unitId, '-n', String(JOURNAL_LINES), '--no-pager', '--output=short-iso'],
+    { ...EXEC_OPTIONS, timeout: 10000 }
+  );
+  return stdout.split('\n').filter((line) => line.trim() && !line.startsWith('-- '));
+}
+
+/**
+ * Explains a unit's failure: its Result=, how the main process ended (exit
+ * statuses and signals decoded to names), automatic restarts, whether the
+ * start limit was hit, and the journal of the invocation that failed.
+ */
+export async function getFailureDiagnosis(serviceId: string, scope: ServiceScope = 'system'): Promise<FailureDiagnosis> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  const unit = normalizeServiceId(serviceId);
+  const { stdout } = await execFileAsync(
+    'systemctl',
+    [
+      ...scopeArgs(scope),
+      'show',
+      unit,
+      '--no-pager',
+      '--property=Id,ActiveState,SubState,Result,ExecMainCode,ExecMainStatus,NRestarts,StartLimitBurst,StartLimitIntervalUSec,InvocationID',
+    ],
+    EXEC_OPTIONS
+  );
+  const [parsed = {}] = parseShowBlocks(stdout);
+
+  const result = parsed.Result || 'success';
+  const invocationId = /^[0-9a-f]{32}$/.test(parsed.InvocationID ?? '') ? parsed.InvocationID : null;
+  const details = {
+    unitId: parsed.Id || unit,
+    activeState: parsed.ActiveState || 'unknown',
+    subState: parsed.SubState || 'unknown',
+    result,
+    resultDescription: RESULT_DESCRIPTIONS[result] ?? null,
+    mainExit: decodeMainExit(parseInteger(parsed.ExecMainCode), parseInteger(parsed.ExecMainStatus)),
+    nRestarts: parseInteger(parsed.NRestarts),
+    startLimitHit: result === 'start-limit-hit',
+    startLimitBurst: parseInteger(parsed.StartLimitBurst),
+    startLimitInterval: parsed.StartLimitIntervalUSec || null,
+    invocationId,
+  };
+
+  let journal: string[] = [];
+  let journalSource: FailureDiagnosis['journalSource'] = invocationId ? 'invocation' : 'unit';
+  try {
+    journal = invocationId ? await readInvocationJournal(invocationId, scope) : await readUnitJournal(details.unitId, scope);
+    // Journals written before the invocation id was recorded have nothing under it.
+    if (journal.length === 0 && invocationId) {
+      journal = await readUnitJournal(details.unitId, scope);
+      journalSource = 'unit';
+    }
+  } catch (error) {
+    console.warn(`[DIAGNOSIS] Failed to read the journal of ${details.unitId}:`, error);
+  }
+
+  return { ...details, summary: summarize(details), journal, journalSource };
+}
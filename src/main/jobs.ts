@@ -0,0 +1,223 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { ServiceAction, ServiceActionOutcome, ServiceScope, SystemdJob } from '../types/service';
+import { CONFIG } from './config';
+import { watchUnit } from './services';
+import { execWithElevation, normalizeServiceId, parseShowBlocks, scopeArgs } from './services/linux';
+import { execFileOnHost } from './services/remote';
+
+const execFileAsync = promisify(execFile);
+
+const EXEC_OPTIONS = {
+  encoding: 'utf8' as const,
+  env: { ...process.env, LANG: 'C', LC_ALL: 'C' },
+};
+
+// States a unit passes through while a job, or an automatic restart, is still working on it.
+const TRANSITIONAL_STATES: ReadonlySet<string> = new Set(['activating', 'deactivating', 'reloading', 'refreshing']);
+
+/**
+ * Actions that start a job, with the state the unit should end in. A unit
+ * that comes up and exits cleanly (a oneshot, say) also counts as started.
+ */
+const EXPECTED_STATES: Readonly<Partial<Record<ServiceAction, 'active' | 'inactive'>>> = {
+  start: 'active',
+  restart: 'active',
+  'try-restart': 'active',
+  reload: 'active',
+  'reload-or-restart': 'active',
+  'enable-now': 'active',
+  stop: 'inactive',
+  'disable-now': 'inactive',
+};
+
+interface UnitTarget {
+  scope: ServiceScope;
+  host?: string;
+  machine?: string;
+}
+
+interface UnitState {
+  activeState: string;
+  subState: string;
+  result: string;
+  /** Id of the job queued for the unit, 0 when there is none. */
+  job: number;
+}
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wakes the waiting loop when the watched unit changes. A change that arrives
+ * while nobody waits (the state is being read) makes the next wait return at once.
+ */
+function createChangeLatch(): { notify: () => void; wait: (timeoutMs: number) => Promise<void> } {
+  let changed = false;
+  let wake: (() => void) | null = null;
+
+  return {
+    notify: () => {
+      changed = true;
+      wake?.();
+    },
+    wait: (timeoutMs) =>
+      new Promise<void>((resolve) => {
+        if (changed) {
+          changed = false;
+          resolve();
+          return;
+        }
+        const done = (): void => {
+          clearTimeout(timer);
+          wake = null;
+          changed = false;
+          resolve();
+        };
+        const timer = setTimeout(done, Math.max(timeoutMs, 0));
+        wake = done;
+      }),
+  };
+}
+
+async function readUnitState(unit: string, { scope, host, machine }: UnitTarget): Promise<UnitState> {
+  const { stdout } = await execFileOnHost(
+    host,
+    'systemctl',
+    [...scopeArgs(scope, machine), 'show', unit, '--no-pager', '--property=ActiveState,SubState,Result,Job'],
+    { ...EXEC_OPTIONS, timeout: 10000 }
+  );
+  const [parsed = {}] = parseShowBlocks(stdout);
+  return {
+    activeState: parsed.ActiveState || 'unknown',
+    subState: parsed.SubState || 'unknown',
+    // Targets and devices have no Result=; there is nothing to fail.
+    result: parsed.Result || 'success',
+    job: Number.parseInt(parsed.Job || '0', 10) || 0,
+  };
+}
+
+async function readLogTail(unit: string, { scope, host, machine }: UnitTarget): Promise<string[] | undefined> {
+  try {
+    const { stdout } = await execFileOnHost(
+      host,
+      'journalctl',
+      [
+        ...(machine ? [`--machine=${machine}`] : []),
+        scope === 'user' ? '--user-unit' : '-u',
+        unit,
+        '-n',
+        String(CONFIG.ACTIONS.LOG_TAIL_LINES),
+        '--no-pager',
+        '--output=short-iso',
+      ],
+      { ...EXEC_OPTIONS, timeout: 10000 }
+    );
+    const lines = stdout.split('\n').filter((line) => line.trim() && !line.startsWith('-- '));
+    return lines.length > 0 ? lines : undefined;
+  } catch (error) {
+    console.warn(`[JOBS] Failed to read the journal of ${unit}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Follows a unit after `action` until its job is done and it has left the
+ * transitional states, or until `timeoutMs` runs out. A unit that reaches
+ * active is watched for a little longer, as a daemon that dies right after
+ * starting has already completed its start job. Actions that start no job
+ * (enable, mask, kill, ...) resolve with null.
+ *
+ * Local units are re-read when systemd signals a change to them; remote hosts
+ * and containers are polled with a backoff.
+ */
+export async function waitForUnit(
+  serviceId: string,
+  action: ServiceAction,
+  target: UnitTarget,
+  timeoutMs: number = CONFIG.ACTIONS.DEFAULT_WAIT_MS
+): Promise<ServiceActionOutcome | null> {
+  const expected = EXPECTED_STATES[action];
+  if (!expected || timeoutMs <= 0) {
+    return null;
+  }
+
+  const unit = normalizeServiceId(serviceId);
+  const startedAt = Date.now();
+  const deadline = startedAt + Math.min(timeoutMs, CONFIG.ACTIONS.MAX_WAIT_MS);
+  const changes = createChangeLatch();
+  // Subscribed before the first read so no change slips in between.
+  const unwatch = target.host || target.machine ? null : await watchUnit(unit, changes.notify, target.scope);
+
+  let state: UnitState;
+  let busy = true;
+  try {
+    state = await readUnitState(unit, target);
+    let idleSince: number | null = null;
+    let pollInterval: number = CONFIG.ACTIONS.POLL_INTERVAL_MS;
+
+    for (;;) {
+      let wakeAt = deadline;
+      busy = state.job !== 0 || TRANSITIONAL_STATES.has(state.activeState);
+      if (busy) {
+        idleSince = null;
+      } else {
+        idleSince ??= Date.now();
+        const watching = expected === 'active' && state.activeState === 'active';
+        if (!watching || Date.now() - idleSince >= CONFIG.ACTIONS.SETTLE_MS) break;
+        wakeAt = Math.min(deadline, idleSince + CONFIG.ACTIONS.SETTLE_MS);
+      }
+      if (Date.now() >= deadline) break;
+
+      if (unwatch) {
+        await changes.wait(wakeAt - Date.now());
+      } else {
+        await delay(Math.min(pollInterval, wakeAt - Date.now()));
+        pollInterval = Math.min(pollInterval * 2, CONFIG.ACTIONS.MAX_POLL_INTERVAL_MS);
+      }
+      state = await readUnitState(unit, target);
+    }
+  } finally {
+    unwatch?.();
+  }
+
+  const reachedExpected =
+    state.activeState === expected || (expected === 'active' && state.activeState === 'inactive' && state.result === 'success');
+  const succeeded = !busy && reachedExpected && state.result === 'success';
+
+  return {
+    activeState: state.activeState,
+    subState: state.subState,
+    result: state.result,
+    settled: !busy,
+    succeeded,
+    waitedMs: Date.now() - startedAt,
+    ...(succeeded ? {} : { logTail: await readLogTail(unit, target) }),
+  };
+}
+
+/** Lists the jobs the service manager has queued or is running, oldest first. */
+export async function listJobs(scope: ServiceScope = 'system'): Promise<SystemdJob[]> {
+  const { stdout } = await execFileAsync(
+    'systemctl',
+    [...scopeArgs(scope), 'list-jobs', '--no-legend', '--no-pager', '--full'],
+    EXEC_OPTIONS
+  );
+
+  const jobs: SystemdJob[] = [];
+  for (const line of stdout.split('\n')) {
+    // `1287 nginx.service start running`
+    const match = /^\s*(\d+)\s+(\S+)\s+(\S+)\s+(waiting|running)\s*$/.exec(line);
+    if (match) {
+      jobs.push({ id: Number(match[1]), unit: match[2], type: match[3], state: match[4] as SystemdJob['state'] });
+    }
+  }
+  return jobs.sort((a, b) => a.id - b.id);
+}
+
+/** Cancels a queued or running job; resolves with whether elevation was needed. */
+export async function cancelJob(jobId: number, scope: ServiceScope = 'system'): Promise<boolean> {
+  if (!Number.isInteger(jobId) || jobId <= 0) {
+    throw new Error(`Invalid job id: ${jobId}`);
+  }
+  return execWithElevation('systemctl', [...scopeArgs(scope), 'cancel', String(jobId)], scope);
+}
@@ -0,0 +1,326 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import { promisify } from 'node:util';
+import type { ListeningSocket, ServiceInfo, ServiceScope, SocketProtocol } from '../types/service';
+import { readCgroupPids, resolveCgroupDirectory } from './processTree';
+import { scopeArgs } from './services/linux';
+
+const execFileAsync = promisify(execFile);
+
+type SocketEntry = Omit<ListeningSocket, 'pids'>;
+
+/** Upper bound on processes whose descriptors are read for one unit. */
+const MAX_PIDS_PER_UNIT = 500;
+// The list refreshes every few seconds, but what services listen on rarely changes in between.
+const SOCKET_MAP_MAX_AGE_MS = 30_000;
+
+const TCP_LISTEN = '0A';
+// Bound UDP sockets that are not connected to a peer report TCP_CLOSE.
+const UDP_UNCONNECTED = '07';
+// __SO_ACCEPTCON: a stream or seqpacket unix socket that has called listen().
+const UNIX_ACCEPTCON = 0x10000;
+
+const INET_TABLES: ReadonlyArray<{ file: string; protocol: SocketProtocol; state: string }> = [
+  { file: '/proc/net/tcp', protocol: 'tcp', state: TCP_LISTEN },
+  { file: '/proc/net/tcp6', protocol: 'tcp', state: TCP_LISTEN },
+  { file: '/proc/net/udp', protocol: 'udp', state: UDP_UNCONNECTED },
+  { file: '/proc/net/udp6', protocol: 'udp', state: UDP_UNCONNECTED },
+];
+
+async function readLines(file: string): Promise<string[]> {
+  try {
+    const content = await fs.promises.readFile(file, 'utf8');
+    // The first line is a column header.
+    return content.split('\n').slice(1).filter(Boolean);
+  } catch {
+    // IPv6 disabled, or no such table in this network namespace.
+    return [];
+  }
+}
+
+/** The kernel prints each 32-bit word of an address in host (little-endian) byte order. */
+function wordBytes(hex: string): number[] {
+  const bytes: number[] = [];
+  for (let offset = 0; offset < hex.length; offset += 8) {
+    const word = hex.slice(offset, offset + 8);
+    for (let index = 6; index >= 0; index -= 2) {
+      bytes.push(Number.parseInt(word.slice(index, index + 2), 16));
+    }
+  }
+  return bytes;
+}
+
+function formatInetAddress(hex: string): string {
+  const bytes = wordBytes(hex);
+  if (bytes.length === 4) {
+    return bytes.join('.');
+  }
+
+  const groups = Array.from({ length: 8 }, (_, index) => (bytes[index * 2] << 8) | bytes[index * 2 + 1]);
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) {
+    return `::ffff:${bytes.slice(12).join('.')}`;
+  }
+
+  // Collapse the longest run of zero groups, as inet_ntop does.
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let start = 0; start < 8; start += 1) {
+    let length = 0;
+    while (start + length < 8 && groups[start + length] === 0) length += 1;
+    if (length > bestLength && length > 1) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+
+  const text = groups.map((group) => group.toString(16));
+  if (bestStart === -1) {
+    return text.join(':');
+  }
+  return `${text.slice(0, bestStart).join(':')}::${text.slice(bestStart + bestLength).join(':')}`;
+}
+
+/** Listening TCP, bound UDP and listening unix sockets, keyed by socket inode. */
+async function readSocketTable(): Promise<Map<string, SocketEntry>> {
+  const sockets = new Map<string, SocketEntry>();
+
+  for (const { file, protocol, state } of INET_TABLES) {
+    for (const line of await readLines(file)) {
+      // sl local_address rem_address st tx:rx tr:when retrnsmt uid timeout inode ...
+      const fields = line.trim().split(/\s+/);
+      const [localAddress, socketState, inode] = [fields[1], fields[3], fields[9]];
+      if (socketState !== state || !localAddress || !inode || inode === '0') continue;
+
+      const [addressHex, portHex] = localAddress.split(':');
+      const port = Number.parseInt(portHex, 16);
+      if (!port) continue;
+
+      sockets.set(inode, { protocol, address: formatInetAddress(addressHex), port });
+    }
+  }
+
+  for (const line of await readLines('/proc/net/unix')) {
+    // Num RefCount Protocol Flags Type St Inode Path
+    const fields = line.trim().split(/\s+/);
+    const [flags, inode, socketPath] = [fields[3], fields[6], fields[7]];
+    if (!socketPath || !inode || (Number.parseInt(flags, 16) & UNIX_ACCEPTCON) === 0) continue;
+
+    sockets.set(inode, { protocol: 'unix', address: socketPath, port: null });
+  }
+
+  return sockets;
+}
+
+/** Socket inodes among a process's open descriptors. Unreadable for other users' processes unless running as root. */
+async function readSocketInodes(pid: number): Promise<string[]> {
+  let descriptors: string[];
+  try {
+    descriptors = await fs.promises.readdir(`/proc/${pid}/fd`);
+  } catch {
+    return [];
+  }
+
+  const targets = await Promise.all(
+    descriptors.map((fd) => fs.promises.readlink(`/proc/${pid}/fd/${fd}`).catch(() => ''))
+  );
+  return targets
+    .map((target) => /^socket:\[(\d+)\]$/.exec(target)?.[1])
+    .filter((inode): inode is string => inode !== undefined);
+}
+
+/**
+ * Parses one `Listen=` value of a socket unit, e.g. `[::]:22 (Stream)` or
+ * `/run/foo.sock (Stream)`. FIFOs, netlink and other kinds yield null.
+ */
+function parseListen(value: string): SocketEntry | null {
+  const match = /^(.+) \((Stream|Datagram|SequentialPacket)\)$/.exec(value);
+  if (!match) return null;
+  const [, address, kind] = match;
+
+  if (address.startsWith('/') || address.startsWith('@')) {
+    // Only listening unix sockets are in the table, and datagram ones never listen.
+    return kind === 'Datagram' ? null : { protocol: 'unix', address, port: null };
+  }
+
+  const inet = /^\[?([^\]]*?)\]?:(\d+)$/.exec(address);
+  if (!inet || kind === 'SequentialPacket') return null;
+  return { protocol: kind === 'Stream' ? 'tcp' : 'udp', address: inet[1], port: Number(inet[2]) };
+}
+
+/**
+ * Socket units' listening addresses, keyed by the services they activate.
+ * systemd (PID 1, or the user manager) holds these sockets itself, so they
+ * appear in no service's cgroup until the service is started.
+ */
+async function readActivationSockets(scope: ServiceScope): Promise<Map<string, Array<{ socketUnit: string; listen: SocketEntry }>>> {
+  const activated = new Map<string, Array<{ socketUnit: string; listen: SocketEntry }>>();
+
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      'systemctl',
+      [...scopeArgs(scope), 'show', '--no-pager', '--property=Id,Listen,Triggers', '--', '*.socket'],
+      { encoding: 'utf8', env: { ...process.env, LANG: 'C', LC_ALL: 'C' } }
+    ));
+  } catch (error) {
+    console.warn('[SOCKETS] Failed to read socket units:', error);
+    return activated;
+  }
+
+  for (const block of stdout.split(/\n{2,}/)) {
+    // Listen= repeats once per address, so the block is not read as key/value pairs.
+    let socketUnit = '';
+    const triggers: string[] = [];
+    const listens: SocketEntry[] = [];
+    for (const line of block.split('\n')) {
+      const separatorIndex = line.indexOf('=');
+      if (separatorIndex === -1) continue;
+      const key = line.slice(0, separatorIndex);
+      const value = line.slice(separatorIndex + 1).trim();
+      if (key === 'Id') {
+        socketUnit = value;
+      } else if (key === 'Triggers') {
+        triggers.push(...value.split(/\s+/).filter(Boolean));
+      } else if (key === 'Listen') {
+        const listen = parseListen(value);
+        if (listen) listens.push(listen);
+      }
+    }
+
+    for (const serviceId of triggers) {
+      const entries = activated.get(serviceId) ?? [];
+      entries.push(...listens.map((listen) => ({ socketUnit, listen })));
+      activated.set(serviceId, entries);
+    }
+  }
+
+  return activated;
+}
+
+function sameEndpoint(a: SocketEntry, b: SocketEntry): boolean {
+  return a.protocol === b.protocol && a.address === b.address && a.port === b.port;
+}
+
+/**
+ * The listening sockets of every service that holds one or has one held for
+ * it by a socket unit. Socket inodes in /proc/net are matched against the
+ * descriptors of the processes in each unit's cgroup, and against the
+ * `Listen=` addresses of the socket units that activate it.
+ */
+async function readListeningSockets(services: ServiceInfo[], scope: ServiceScope): Promise<Map<string, ListeningSocket[]>> {
+  const [sockets, activation] = await Promise.all([readSocketTable(), readActivationSockets(scope)]);
+  if (sockets.size === 0) {
+    return new Map();
+  }
+
+  // Deepest cgroups first, so a pid in a unit nested below another is credited to the inner one.
+  const units = services
+    .filter((service) => service.controlGroup)
+    .sort((a, b) => (b.controlGroup as string).length - (a.controlGroup as string).length);
+  const unitPids = await Promise.all(
+    units.map(async (unit) => {
+      const directory = await resolveCgroupDirectory(unit.controlGroup as string);
+      return directory ? (await readCgroupPids(directory, MAX_PIDS_PER_UNIT)).pids.map(([pid]) => pid) : [];
+    })
+  );
+
+  const found = new Map<string, Map<string, ListeningSocket>>();
+  const claimed = new Set<number>();
+  for (const [index, unit] of units.entries()) {
+    const pids = unitPids[index].filter((pid) => !claimed.has(pid));
+    pids.forEach((pid) => claimed.add(pid));
+
+    const inodes = await Promise.all(pids.map(readSocketInodes));
+    for (const [pidIndex, pid] of pids.entries()) {
+      for (const inode of inodes[pidIndex]) {
+        const socket = sockets.get(inode);
+        if (!socket) continue;
+
+        const unitSockets = found.get(unit.id) ?? new Map<string, ListeningSocket>();
+        // Pre-forked workers share the listening socket; list it once with every holder.
+        const entry = unitSockets.get(inode) ?? { ...socket, pids: [] };
+        entry.pids.push(pid);
+        unitSockets.set(inode, entry);
+        found.set(unit.id, unitSockets);
+      }
+    }
+  }
+
+  for (const service of services) {
+    const entries = activation.get(service.id);
+    if (!entries) continue;
+
+    const unitSockets = found.get(service.id) ?? new Map<string, ListeningSocket>();
+    for (const [inode, socket] of sockets) {
+      const match = entries.find(({ listen }) => sameEndpoint(listen, socket));
+      if (!match) continue;
+      // A running service that inherited the socket already lists it with its own pids.
+      const entry = unitSockets.get(inode) ?? { ...socket, pids: [] };
+      entry.socketUnit = match.socketUnit;
+      unitSockets.set(inode, entry);
+    }
+    if (unitSockets.size > 0) {
+      found.set(service.id, unitSockets);
+    }
+  }
+
+  const listening = new Map<string, ListeningSocket[]>();
+  for (const [serviceId, unitSockets] of found) {
+    const sorted = [...unitSockets.values()].sort(
+      (a, b) => a.protocol.localeCompare(b.protocol) || (a.port ?? 0) - (b.port ?? 0) || a.address.localeCompare(b.address)
+    );
+    sorted.forEach((socket) => socket.pids.sort((a, b) => a - b));
+    listening.set(serviceId, sorted);
+  }
+  return listening;
+}
+
+/**
+ * Socket maps per scope. A map is reused while it is fresh and was built from
+ * at least the services asked about, so list refreshes do not walk /proc and
+ * spawn systemctl each time.
+ */
+class ListeningSocketCache {
+  private maps = new Map<ServiceScope, { data: Map<string, ListeningSocket[]>; serviceIds: Set<string>; timestamp: number }>();
+
+  async get(services: ServiceInfo[], scope: ServiceScope, maxAgeMs: number): Promise<Map<string, ListeningSocket[]>> {
+    const cached = this.maps.get(scope);
+    if (
+      cached &&
+      Date.now() - cached.timestamp < maxAgeMs &&
+      services.every((service) => cached.serviceIds.has(service.id))
+    ) {
+      return cached.data;
+    }
+
+    const data = await readListeningSockets(services, scope);
+    // A single-unit read (the details panel) must not replace the map the whole list was read into.
+    if (!cached || services.length >= cached.serviceIds.size) {
+      this.maps.set(scope, { data, serviceIds: new Set(services.map((service) => service.id)), timestamp: Date.now() });
+    }
+    return data;
+  }
+}
+
+const listeningSockets = new ListeningSocketCache();
+
+/**
+ * Adds `listening` to every service that holds a listening socket or has one
+ * held for it by a socket unit. Pass a `maxAgeMs` of 0 to read the sockets
+ * afresh, as the details panel does.
+ */
+export async function annotateListeningSockets(
+  services: ServiceInfo[],
+  scope: ServiceScope = 'system',
+  maxAgeMs: number = SOCKET_MAP_MAX_AGE_MS
+): Promise<ServiceInfo[]> {
+  const found = await listeningSockets.get(services, scope, maxAgeMs);
+  if (found.size === 0) {
+    return services;
+  }
+
+  return services.map((service) => {
+    const listening = found.get(service.id);
+    return listening ? { ...service, listening } : service;
+  });
+}
@@ -1,25 +1,83 @@
-import { exec } from 'node:child_process';
+import { exec, execFile } from 'node:child_process';
 import { promisify } from 'node:util';
-import type { ServiceLogs } from '../types/service';
+import type { ServiceLogs, ServiceProviderKind, ServiceScope } from '../types/service';
+import { execFileOnHost } from './services/remote';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+// OpenRC, runit, s6 and SysV init have no journal: daemons write to a file of their own or, through syslog, to a shared one.
+const SYSLOG_FILES = ['/var/log/messages', '/var/log/syslog'];
+// How far back the shared syslog file is searched for the service's lines.
+const SYSLOG_SCAN_LINES = 20000;
+
+/** Tails the first of `logPaths` that can be read, falling back to the service's lines in syslog. */
+async function readLogFiles(serviceName: string, logPaths: string[], lines: number): Promise<string> {
+  for (const logPath of logPaths) {
+    try {
+      const { stdout } = await execFileAsync('tail', ['-n', String(lines), logPath], { timeout: 5000 });
+      return stdout.trim();
+    } catch {
+      continue;
+    }
+  }
+
+  for (const logPath of SYSLOG_FILES) {
+    try {
+      const { stdout } = await execFileAsync('tail', ['-n', String(SYSLOG_SCAN_LINES), logPath], {
+        timeout: 5000,
+        maxBuffer: 16 * 1024 * 1024,
+      });
+      // syslog tags each line with the program, e.g. `sshd[2211]:` or `crond:`.
+      return stdout
+        .split('\n')
+        .filter((line) => line.includes(` ${serviceName}[`) || line.includes(` ${serviceName}:`))
+        .slice(-lines)
+        .join('\n');
+    } catch {
+      continue;
+    }
+  }
+
+  return 'No logs found for this service';
+}
 
 export async function getServiceLogs(
   serviceId: string,
   serviceName: string,
-  provider: 'systemd' | 'win32-service' | 'launchd',
-  lines: number = 100
+  provider: ServiceProviderKind,
+  lines: number = 100,
+  scope: ServiceScope = 'system',
+  host?: string,
+  machine?: string
 ): Promise<ServiceLogs> {
   const timestamp = Date.now();
   let logs = '';
 
   try {
     if (provider === 'systemd') {
-      const { stdout } = await execAsync(
-        `journalctl -u ${serviceId} -n ${lines} --no-pager`,
+      const unitFlag = scope === 'user' ? '--user-unit' : '-u';
+      // Passed as argv so escaped unit names (`home-a\x2db.mount`) reach journalctl intact.
+      const { stdout } = await execFileOnHost(
+        host,
+        'journalctl',
+        [...(machine ? [`--machine=${machine}`] : []), unitFlag, serviceId, '-n', String(lines), '--no-pager'],
         { timeout: 10000 }
       );
       logs = stdout.trim();
+    } else if (provider === 'openrc' || provider === 'sysv') {
+      logs = await readLogFiles(
+        serviceName,
+        [`/var/log/${serviceName}.log`, `/var/log/${serviceName}/${serviceName}.log`],
+        lines
+      );
+    } else if (provider === 'runit' || provider === 's6') {
+      // A service's `log` subservice (svlogd or s6-log) writes `current` in the directory it is given.
+      logs = await readLogFiles(
+        serviceName,
+        [`/var/log/${serviceName}/current`, `/var/log/${serviceName}.log`],
+        lines
+      );
     } else if (provider === 'win32-service') {
       const { stdout } = await execAsync(
         `powershell -Command "Get-EventLog -LogName System -Source '${serviceName}' -Newest ${lines} | Format-Table -AutoSize | Out-String -Width 4096"`,
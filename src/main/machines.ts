@@ -0,0 +1,44 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { MachineInfo } from '../types/service';
+
+const execFileAsync = promisify(execFile);
+
+const EXEC_OPTIONS = {
+  encoding: 'utf8' as const,
+  env: { ...process.env, LANG: 'C', LC_ALL: 'C' },
+  maxBuffer: 1024 * 1024,
+};
+
+/**
+ * Parses `machinectl list --no-legend`: one machine per line with the columns
+ * MACHINE CLASS SERVICE OS VERSION ADDRESSES, `-` standing in for empty ones.
+ */
+function parseMachineList(output: string): MachineInfo[] {
+  const machines: MachineInfo[] = [];
+  for (const line of output.split('\n')) {
+    const [name, machineClass, service, os, version] = line.trim().split(/\s+/);
+    if (!name || !machineClass) continue;
+    machines.push({
+      name,
+      class: machineClass,
+      service: service ?? '',
+      os: os && os !== '-' ? os : null,
+      version: version && version !== '-' ? version : null,
+    });
+  }
+  return machines;
+}
+
+/** Running machines registered with systemd-machined; empty when machinectl is not installed. */
+export async function listMachines(): Promise<MachineInfo[]> {
+  try {
+    const { stdout } = await execFileAsync('machinectl', ['list', '--no-legend', '--no-pager', '--full'], EXEC_OPTIONS);
+    return parseMachineList(stdout);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
@@ -5,26 +5,71 @@ import fs from 'node:fs';
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
 
-import { controlService, getServiceDetails, listServices } from './services';
+import {
+  controlService,
+  getServiceDetails,
+  getUnitDependencies,
+  listServices,
+  listTimers,
+  getServiceProvider,
+  supportsUserScope,
+  usesSystemd,
+  watchServices,
+} from './services';
+import { checkRemoteHost } from './services/remote';
 import type {
   IpcResponse,
   SerializedError,
   ServiceAction,
+  ServiceActionOptions,
   ServiceControlResult,
   ServiceInfo,
   ServiceListFilters,
+  ServiceScope,
   ServiceBackup,
+  TimerInfo,
+  BootAnalysis,
+  ResourceSample,
+  UnitProcessTree,
+  ProcessSignalResult,
+  SecurityReport,
+  KillSignal,
+  UnitDependencies,
+  DependencyImpact,
+  UnitFileSet,
+  OverrideSaveResult,
+  ResourceLimits,
+  ResourceLimitsResult,
+  ResourceLimitsUpdate,
+  NewServiceDefinition,
+  NewServiceOptions,
+  NewServicePreview,
+  NewServiceResult,
+  TransientUnitDefinition,
+  ServiceEnvironment,
+  EnvironmentSaveResult,
+  SystemdJob,
+  FailureDiagnosis,
   ServiceHealthStatus,
   HealthCheckConfig,
+  UnstableService,
   ServiceStatus,
   ServiceLogs,
   ExportFormat,
   ExportResult,
+  RemoteHostCheck,
+  MachineInfo,
+  ServiceProviderKind,
 } from '../types/service';
 import {
   isValidServiceId,
   isValidFilePath,
   isValidServiceAction,
+  isValidKillSignal,
+  isValidServiceScope,
+  isValidUnitTypeFilter,
+  isValidRemoteHost,
+  isValidMachineName,
   sanitizeErrorMessage,
   RateLimiter,
 } from '../utils/validation';
@@ -38,8 +83,22 @@ import { CONFIG } from './config';
 import { initializeAutoUpdater, performManualUpdateCheck, checkForUpdates, applyPendingUpdate, type UpdateInfo } from './updater';
 import { createBackup, listBackups, getBackup, deleteBackup } from './backups';
 import { healthCheckManager } from './healthCheck';
+import { crashLoopDetector } from './crashLoopDetector';
 import { getServiceLogs } from './logs';
 import { exportServices } from './export';
+import { getUnitFiles, saveEnvironment, saveOverride } from './unitFiles';
+import { annotateEnvironment, getServiceEnvironment, MASKED_VALUE } from './serviceEnvironment';
+import { IMPACT_ACTIONS, getDependencyImpact } from './dependencies';
+import { resourceHistory } from './resourceHistory';
+import { getUnitProcesses, signalUnitProcess } from './processTree';
+import { annotateListeningSockets } from './listeningSockets';
+import { annotateSecurityExposure, getSecurityReport } from './securityAnalysis';
+import { getBootAnalysis } from './bootAnalysis';
+import { listMachines } from './machines';
+import { getResourceLimits, listResourceLimits, revertResourceLimits, setResourceLimits } from './resourceLimits';
+import { createNewService, previewNewService, runTransientUnit } from './serviceCreator';
+import { cancelJob, listJobs, waitForUnit } from './jobs';
+import { getFailureDiagnosis } from './failureDiagnosis';
 
 const execAsync = promisify(exec);
 
@@ -51,6 +110,32 @@ app.commandLine.appendSwitch('renderer-process-limit', '1');
 interface ServicesControlPayload {
   serviceId: string;
   action: ServiceAction;
+  scope?: ServiceScope;
+  options?: ServiceActionOptions;
+  host?: string;
+  machine?: string;
+}
+
+interface OverrideSavePayload {
+  serviceId: string;
+  content: string;
+  scope?: ServiceScope;
+}
+
+interface EnvironmentSavePayload {
+  serviceId: string;
+  variables: Record<string, string>;
+  scope?: ServiceScope;
+}
+
+interface NewServicePayload {
+  definition: NewServiceDefinition;
+  options?: NewServiceOptions;
+}
+
+interface TransientUnitPayload {
+  definition: TransientUnitDefinition;
+  scope?: ServiceScope;
 }
 
 interface CacheEntry {
@@ -107,10 +192,13 @@ class OrderedCache<K, V> {
 
 const controlRateLimiter = new RateLimiter(CONFIG.RATE_LIMIT.CONTROL_COOLDOWN_MS);
 const serviceCircuitBreaker = new CircuitBreaker(5, 60000);
+// Each remote host trips on its own, so one unreachable machine does not block the others.
+const hostCircuitBreakers = new Map<string, CircuitBreaker>();
 const servicesCache = new OrderedCache<string, CacheEntry>(CONFIG.CACHE.MAX_SIZE);
 
 let mainWindow: BrowserWindow | null = null;
 let updateChecked = false;
+let stopServiceWatches: Array<() => void> = [];
 
 async function checkElevatedPrivileges(): Promise<boolean> {
   try {
@@ -209,6 +297,11 @@ function createMainWindow(): void {
   mainWindow.on('ready-to-show', () => {
     mainWindow?.show();
 
+    if (mainWindow) {
+      void startServiceWatch(mainWindow);
+      crashLoopDetector.start(mainWindow);
+    }
+
     if (!updateChecked && mainWindow) {
       updateChecked = true;
       initializeAutoUpdater(mainWindow);
@@ -220,6 +313,8 @@ function createMainWindow(): void {
 
   mainWindow.on('closed', () => {
     mainWindow = null;
+    stopServiceWatching();
+    crashLoopDetector.stop();
     servicesCache.clear();
     // Cleanup health check manager
     healthCheckManager.setMainWindow(null);
@@ -233,6 +328,35 @@ function createMainWindow(): void {
   healthCheckManager.setMainWindow(mainWindow);
 }
 
+async function startServiceWatch(window: BrowserWindow): Promise<void> {
+  stopServiceWatching();
+
+  const scopes: ServiceScope[] = supportsUserScope() ? ['system', 'user'] : ['system'];
+
+  for (const scope of scopes) {
+    try {
+      const stop = await watchServices((event) => {
+        // Any cached list is stale once a unit changes underneath it.
+        servicesCache.clear();
+        if (event.service) {
+          crashLoopDetector.observe([event.service], scope, event.timestamp);
+        }
+        if (!window.isDestroyed()) {
+          window.webContents.send('services:event', event);
+        }
+      }, scope);
+      stopServiceWatches.push(stop);
+    } catch (error) {
+      console.error(`[ERROR] Failed to watch ${scope} service changes:`, error);
+    }
+  }
+}
+
+function stopServiceWatching(): void {
+  stopServiceWatches.forEach((stop) => stop());
+  stopServiceWatches = [];
+}
+
 async function checkAndNotifyUpdates(window: BrowserWindow | null): Promise<void> {
   if (!window) return;
   
@@ -284,8 +408,10 @@ app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
   }
+  stopServiceWatching();
   servicesCache.clear();
   healthCheckManager.cleanup();
+  crashLoopDetector.cleanup();
   if (global.gc) {
     global.gc();
   }
@@ -293,6 +419,38 @@ app.on('window-all-closed', () => {
 
 const getCacheKey = (filters: ServiceListFilters): string => JSON.stringify(filters);
 
+const circuitBreakerFor = (host?: string): CircuitBreaker => {
+  if (!host) return serviceCircuitBreaker;
+
+  let breaker = hostCircuitBreakers.get(host);
+  if (!breaker) {
+    breaker = new CircuitBreaker(5, 60000);
+    hostCircuitBreakers.set(host, breaker);
+  }
+  return breaker;
+};
+
+/** The scope, plus the host or container when it is not this machine, as written in audit lines. */
+const describeTarget = (scope: ServiceScope, host?: string, machine?: string): string =>
+  host ? `${scope} on ${host}` : machine ? `${scope} in machine ${machine}` : scope;
+
+/** `--machine` reaches a local container's system manager only, so it excludes remote hosts and user scope. */
+const validateMachine = (machine: unknown, scope?: ServiceScope, host?: string): void => {
+  if (machine === undefined) return;
+  if (!usesSystemd()) {
+    throw new Error('Container machines require systemd');
+  }
+  if (!isValidMachineName(machine)) {
+    throw new Error('Invalid machine name');
+  }
+  if (host !== undefined) {
+    throw new Error('A machine cannot be combined with a remote host');
+  }
+  if (scope === 'user') {
+    throw new Error('Only the system manager of a machine can be managed');
+  }
+};
+
 const validateFilters = (filters: ServiceListFilters): void => {
   if (filters.search && filters.search.length > CONFIG.VALIDATION.MAX_SEARCH_LENGTH) {
     throw new Error(`Search query too long (max ${CONFIG.VALIDATION.MAX_SEARCH_LENGTH} characters)`);
@@ -301,6 +459,20 @@ const validateFilters = (filters: ServiceListFilters): void => {
   if (filters.status && typeof filters.status !== 'string') {
     throw new Error('Invalid status filter');
   }
+
+  if (filters.scope !== undefined && !isValidServiceScope(filters.scope)) {
+    throw new Error('Invalid scope filter');
+  }
+
+  if (filters.unitType !== undefined && !isValidUnitTypeFilter(filters.unitType)) {
+    throw new Error('Invalid unit type filter');
+  }
+
+  if (filters.host !== undefined && !isValidRemoteHost(filters.host)) {
+    throw new Error('Invalid remote host');
+  }
+
+  validateMachine(filters.machine, filters.scope, filters.host);
 };
 
 const getCachedServices = (cacheKey: string): ServiceInfo[] | null => {
@@ -335,15 +507,26 @@ ipcMain.handle('services:list', async (_event, payload?: ServiceListFilters): Pr
       return { ok: true, data: cached };
     }
 
-    const result = await serviceCircuitBreaker.execute(() =>
+    const services = await circuitBreakerFor(filters.host).execute(() =>
       withTimeout(
         () => withRetry(() => listServices(filters)),
         CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
         'Service list operation timed out'
       )
     );
+    // Sockets, exposure scores and resource history are read from this machine only.
+    const isLocal = !filters.host && !filters.machine;
+    const result = usesSystemd() && isLocal
+      ? await annotateSecurityExposure(await annotateListeningSockets(services, filters.scope), filters.scope)
+      : services;
 
     setCachedServices(cacheKey, result);
+    if (isLocal) {
+      resourceHistory.record(result, filters.scope);
+      if (usesSystemd()) {
+        crashLoopDetector.observe(result, filters.scope);
+      }
+    }
 
     return { ok: true, data: result };
   } catch (error) {
@@ -372,23 +555,75 @@ ipcMain.handle(
         throw new Error('Invalid service action');
       }
 
-      const rateLimitKey = `${payload.serviceId}:${payload.action}`;
+      if (payload.scope !== undefined && !isValidServiceScope(payload.scope)) {
+        throw new Error('Invalid service scope');
+      }
+
+      if (payload.host !== undefined && !isValidRemoteHost(payload.host)) {
+        throw new Error('Invalid remote host');
+      }
+
+      validateMachine(payload.machine, payload.scope, payload.host);
+
+      const options: ServiceActionOptions = {};
+      if (payload.options !== undefined) {
+        if (typeof payload.options !== 'object' || payload.options === null) {
+          throw new Error('Invalid action options');
+        }
+        if (payload.options.signal !== undefined) {
+          if (!isValidKillSignal(payload.options.signal)) {
+            throw new Error('Invalid signal');
+          }
+          options.signal = payload.options.signal;
+        }
+        if (payload.options.killWhom !== undefined) {
+          if (payload.options.killWhom !== 'main' && payload.options.killWhom !== 'all') {
+            throw new Error('Invalid kill target');
+          }
+          options.killWhom = payload.options.killWhom;
+        }
+        if (payload.options.waitTimeoutMs !== undefined) {
+          const { waitTimeoutMs } = payload.options;
+          if (!Number.isInteger(waitTimeoutMs) || waitTimeoutMs < 0 || waitTimeoutMs > CONFIG.ACTIONS.MAX_WAIT_MS) {
+            throw new Error('Invalid wait timeout');
+          }
+          options.waitTimeoutMs = waitTimeoutMs;
+        }
+      }
+
+      const scope = payload.scope ?? 'system';
+      const rateLimitKey = `${payload.host ?? payload.machine ?? ''}:${scope}:${payload.serviceId}:${payload.action}`;
       if (!controlRateLimiter.isAllowed(rateLimitKey)) {
         throw new Error('Rate limit exceeded. Please wait before retrying.');
       }
 
       servicesCache.clear();
 
-      const result = await serviceCircuitBreaker.execute(() =>
+      const result = await circuitBreakerFor(payload.host).execute(() =>
         withTimeout(
-          () => controlService(payload.serviceId, payload.action),
+          () => controlService(payload.serviceId, payload.action, scope, options, payload.host, payload.machine),
           CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
           'Service control operation timed out'
         )
       );
 
       if (CONFIG.SECURITY.AUDIT_ENABLED) {
-        console.log(`[AUDIT] Service control: ${payload.action} on ${payload.serviceId} at ${new Date().toISOString()}`);
+        const detail = payload.action === 'kill' ? ` ${options.signal ?? 'SIGTERM'} -> ${options.killWhom ?? 'all'}` : '';
+        console.log(
+          `[AUDIT] Service control: ${payload.action}${detail} on ${payload.serviceId} (${describeTarget(scope, payload.host, payload.machine)}) at ${new Date().toISOString()}`
+        );
+      }
+
+      // Only systemd units have jobs to follow; remote hosts and containers are always systemd.
+      if (usesSystemd() || payload.host || payload.machine) {
+        const target = { scope, host: payload.host, machine: payload.machine };
+        const outcome = await waitForUnit(payload.serviceId, payload.action, target, options.waitTimeoutMs).catch((error) => {
+          console.warn(`[JOBS] Could not follow ${payload.action} of ${payload.serviceId}:`, error);
+          return null;
+        });
+        if (outcome) {
+          return { ok: true, data: { ...result, outcome } };
+        }
       }
 
       return { ok: true, data: result };
@@ -399,7 +634,7 @@ ipcMain.handle(
   }
 );
 
-ipcMain.handle('services:details', async (_event, serviceId?: string): Promise<IpcResponse<ServiceInfo | null>> => {
+ipcMain.handle('services:details', async (_event, serviceId?: string, scope?: ServiceScope, host?: string, machine?: string): Promise<IpcResponse<ServiceInfo | null>> => {
   try {
     if (!serviceId || typeof serviceId !== 'string') {
       throw new Error('Service identifier is required');
@@ -409,12 +644,31 @@ ipcMain.handle('services:details', async (_event, serviceId?: string): Promise<I
       throw new Error('Invalid service identifier');
     }
 
-    const result = await withTimeout(
-      () => getServiceDetails(serviceId),
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    if (host !== undefined && !isValidRemoteHost(host)) {
+      throw new Error('Invalid remote host');
+    }
+
+    validateMachine(machine, scope, host);
+
+    const service = await withTimeout(
+      () => getServiceDetails(serviceId, scope, host, machine),
       CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
       'Service details operation timed out'
     );
 
+    let result = service;
+    if (service && !host && !machine) {
+      resourceHistory.record([service], scope);
+      if (usesSystemd()) {
+        [result] = await annotateSecurityExposure(await annotateListeningSockets([service], scope, 0), scope);
+        result = await annotateEnvironment(result, scope);
+      }
+    }
+
     return { ok: true, data: result };
   } catch (error) {
     console.error(`[ERROR] services:details failed for ${serviceId}:`, error);
@@ -422,183 +676,1024 @@ ipcMain.handle('services:details', async (_event, serviceId?: string): Promise<I
   }
 });
 
-ipcMain.on('app:openPath', (_event, targetPath: string | undefined) => {
-  if (!targetPath || typeof targetPath !== 'string') return;
+/** IPC Handler: Check that a remote host answers over SSH and runs systemd */
+ipcMain.handle('hosts:check', async (_event, host?: string): Promise<IpcResponse<RemoteHostCheck>> => {
+  try {
+    if (!isValidRemoteHost(host)) {
+      throw new Error('Invalid remote host');
+    }
 
-  if (!isValidFilePath(targetPath)) {
-    console.error('[SECURITY] Rejected invalid file path:', sanitizeErrorMessage(targetPath));
-    return;
+    const result = await withTimeout(
+      () => checkRemoteHost(host as string),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Remote host check timed out'
+    );
+
+    return { ok: true, data: result };
+  } catch (error) {
+    console.error(`[ERROR] hosts:check failed for ${host}:`, error);
+    return { ok: false, error: sanitizeError(error) };
   }
+});
 
-  const isWindows = process.platform === 'win32';
-  const isDarwin = process.platform === 'darwin';
-  const isLinux = process.platform === 'linux';
+/** IPC Handler: List the local containers registered with systemd-machined */
+ipcMain.handle('machines:list', async (): Promise<IpcResponse<MachineInfo[]>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Container machines require systemd');
+    }
 
-  const allowedPrefixes: string[] = [];
-  
-  if (isWindows) {
-    allowedPrefixes.push('C:\\Windows\\System32', 'C:\\Program Files');
-  } else if (isDarwin) {
-    allowedPrefixes.push('/Library/LaunchDaemons', '/Library/LaunchAgents', '/System/Library');
-  } else if (isLinux) {
-    allowedPrefixes.push('/etc/systemd', '/lib/systemd', '/usr/lib/systemd');
+    const machines = await withTimeout(
+      () => listMachines(),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Machine list operation timed out'
+    );
+
+    return { ok: true, data: machines };
+  } catch (error) {
+    console.error('[ERROR] machines:list failed:', error);
+    return { ok: false, error: sanitizeError(error) };
   }
+});
 
-  const isAllowed = allowedPrefixes.length === 0 || allowedPrefixes.some(prefix => 
-    targetPath.startsWith(prefix)
-  );
+/** IPC Handler: Sample a unit's resource usage and return its recent history */
+ipcMain.handle('services:resourceHistory', async (_event, serviceId?: string, scope?: ServiceScope): Promise<IpcResponse<ResourceSample[]>> => {
+  try {
+    if (!serviceId || typeof serviceId !== 'string' || !isValidServiceId(serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
 
-  if (!isAllowed) {
-    console.error('[SECURITY] Path not in allowed directories:', sanitizeErrorMessage(targetPath));
-    return;
-  }
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
 
-  shell.showItemInFolder(targetPath);
-  console.log(`[AUDIT] Opened file path at ${new Date().toISOString()}`);
-});
+    const service = await withTimeout(
+      () => getServiceDetails(serviceId, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Resource usage operation timed out'
+    );
 
-ipcMain.handle('app:showErrorDialog', async (_event, message?: unknown) => {
-  if (!mainWindow) return;
-  await dialog.showMessageBox(mainWindow, {
-    type: 'error',
-    title: 'Service Manager',
-    message: 'Service Manager',
-    detail: typeof message === 'string' ? message : 'An unexpected error occurred.',
-    buttons: ['OK'],
-  });
+    if (!service) {
+      return { ok: true, data: [] };
+    }
+
+    resourceHistory.record([service], scope);
+    return { ok: true, data: resourceHistory.get(service.id, scope) };
+  } catch (error) {
+    console.error(`[ERROR] services:resourceHistory failed for ${serviceId}:`, error);
+    return { ok: false, error: sanitizeError(error) };
+  }
 });
 
-ipcMain.handle('app:checkForUpdates', async (): Promise<IpcResponse<UpdateInfo>> => {
+/** IPC Handler: List the processes in a unit's cgroup */
+ipcMain.handle('processes:list', async (_event, serviceId?: string, scope?: ServiceScope): Promise<IpcResponse<UnitProcessTree>> => {
   try {
-    const updateInfo = await checkForUpdates();
-    return { ok: true, data: updateInfo };
+    if (!usesSystemd()) {
+      throw new Error('Process trees require systemd');
+    }
+
+    if (!serviceId || typeof serviceId !== 'string' || !isValidServiceId(serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const tree = await withTimeout(
+      () => getUnitProcesses(serviceId, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Process list operation timed out'
+    );
+
+    return { ok: true, data: tree };
   } catch (error) {
-    console.error('[ERROR] app:checkForUpdates failed:', error);
+    console.error(`[ERROR] processes:list failed for ${serviceId}:`, error);
     return { ok: false, error: sanitizeError(error) };
   }
 });
 
-ipcMain.handle('app:manualUpdateCheck', async (): Promise<IpcResponse<void>> => {
+/** IPC Handler: Run systemd-analyze security for one unit */
+ipcMain.handle('security:report', async (_event, serviceId?: string, scope?: ServiceScope): Promise<IpcResponse<SecurityReport>> => {
   try {
-    if (!mainWindow) {
-      throw new Error('Main window not available');
+    if (!usesSystemd()) {
+      throw new Error('Security analysis requires systemd');
     }
-    await performManualUpdateCheck(mainWindow);
-    return { ok: true };
+
+    if (!serviceId || typeof serviceId !== 'string' || !isValidServiceId(serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const report = await withTimeout(
+      () => getSecurityReport(serviceId, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Security analysis timed out'
+    );
+
+    return { ok: true, data: report };
   } catch (error) {
-    console.error('[ERROR] app:manualUpdateCheck failed:', error);
+    console.error(`[ERROR] security:report failed for ${serviceId}:`, error);
     return { ok: false, error: sanitizeError(error) };
   }
 });
 
-ipcMain.handle('app:applyPendingUpdate', async (): Promise<IpcResponse<boolean>> => {
+/** IPC Handler: Explain why a unit failed, with the journal of the failed invocation */
+ipcMain.handle('services:diagnose', async (_event, serviceId?: string, scope?: ServiceScope): Promise<IpcResponse<FailureDiagnosis>> => {
   try {
-    const applied = applyPendingUpdate();
-    return { ok: true, data: applied };
+    if (!usesSystemd()) {
+      throw new Error('Failure diagnosis requires systemd');
+    }
+
+    if (!serviceId || typeof serviceId !== 'string' || !isValidServiceId(serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const diagnosis = await withTimeout(
+      () => getFailureDiagnosis(serviceId, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Failure diagnosis timed out'
+    );
+
+    return { ok: true, data: diagnosis };
   } catch (error) {
-    console.error('[ERROR] app:applyPendingUpdate failed:', error);
+    console.error(`[ERROR] services:diagnose failed for ${serviceId}:`, error);
     return { ok: false, error: sanitizeError(error) };
   }
 });
 
-ipcMain.handle('app:getVersion', async (): Promise<string> => {
-  return app.getVersion();
-});
+type ProcessSignalPayload = {
+  serviceId: string;
+  pid: number;
+  signal: KillSignal;
+  scope?: ServiceScope;
+};
 
-ipcMain.handle('backup:create', async (): Promise<IpcResponse<ServiceBackup>> => {
+/** IPC Handler: Send a signal to a single process of a unit */
+ipcMain.handle('processes:signal', async (_event, payload?: ProcessSignalPayload): Promise<IpcResponse<ProcessSignalResult>> => {
   try {
-    const servicesResponse = await serviceCircuitBreaker.execute(() =>
-      withTimeout(
-        () => withRetry(() => listServices({})),
-        CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
-        'Service list operation timed out'
-      )
+    if (!usesSystemd()) {
+      throw new Error('Process trees require systemd');
+    }
+
+    if (!payload || typeof payload !== 'object') {
+      throw new Error('Invalid payload structure');
+    }
+
+    if (!payload.serviceId || !isValidServiceId(payload.serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (!Number.isInteger(payload.pid) || payload.pid <= 1) {
+      throw new Error('Invalid process id');
+    }
+
+    if (!isValidKillSignal(payload.signal)) {
+      throw new Error('Invalid signal');
+    }
+
+    if (payload.scope !== undefined && !isValidServiceScope(payload.scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const scope = payload.scope ?? 'system';
+    if (!controlRateLimiter.isAllowed(`${scope}:${payload.serviceId}:signal:${payload.pid}`)) {
+      throw new Error('Rate limit exceeded. Please wait before retrying.');
+    }
+
+    const result = await withTimeout(
+      () => signalUnitProcess(payload.serviceId, payload.pid, payload.signal, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Signalling the process timed out'
     );
 
-    const backup = createBackup(servicesResponse);
-    
     if (CONFIG.SECURITY.AUDIT_ENABLED) {
-      console.log(`[AUDIT] Backup created: ${backup.id} at ${new Date(backup.timestamp).toISOString()}`);
+      console.log(
+        `[AUDIT] Process signalled: ${payload.signal} to pid ${payload.pid} of ${payload.serviceId} (${scope}) at ${new Date().toISOString()}`
+      );
     }
 
-    return { ok: true, data: backup };
+    return { ok: true, data: result };
   } catch (error) {
-    console.error('[ERROR] backup:create failed:', error);
+    console.error(`[ERROR] processes:signal failed for ${payload?.serviceId}:`, error);
     return { ok: false, error: sanitizeError(error) };
   }
 });
 
-ipcMain.handle('backup:list', async (): Promise<IpcResponse<ServiceBackup[]>> => {
+ipcMain.handle('timers:list', async (_event, scope?: ServiceScope): Promise<IpcResponse<TimerInfo[]>> => {
   try {
-    const backups = listBackups();
-    return { ok: true, data: backups };
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const timers = await serviceCircuitBreaker.execute(() =>
+      withTimeout(
+        () => withRetry(() => listTimers(scope)),
+        CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+        'Timer list operation timed out'
+      )
+    );
+
+    return { ok: true, data: timers };
   } catch (error) {
-    console.error('[ERROR] backup:list failed:', error);
+    console.error('[ERROR] timers:list failed:', error);
     return { ok: false, error: sanitizeError(error) };
   }
 });
 
-ipcMain.handle('backup:get', async (_event, id?: string): Promise<IpcResponse<ServiceBackup | null>> => {
+/** IPC Handler: Boot timings, per-unit activation times and the critical chain */
+ipcMain.handle('boot:analyze', async (_event, scope?: ServiceScope): Promise<IpcResponse<BootAnalysis>> => {
   try {
-    if (!id || typeof id !== 'string') {
-      throw new Error('Backup ID is required');
+    if (!usesSystemd()) {
+      throw new Error('Boot analysis requires systemd');
+    }
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
     }
 
-    const backup = getBackup(id);
-    return { ok: true, data: backup };
+    const analysis = await withTimeout(
+      () => getBootAnalysis(scope ?? 'system'),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Boot analysis timed out'
+    );
+
+    return { ok: true, data: analysis };
   } catch (error) {
-    console.error('[ERROR] backup:get failed:', error);
+    console.error('[ERROR] boot:analyze failed:', error);
     return { ok: false, error: sanitizeError(error) };
   }
 });
 
-ipcMain.handle('backup:delete', async (_event, id?: string): Promise<IpcResponse<boolean>> => {
+/** IPC Handler: Jobs the service manager has queued or is running */
+ipcMain.handle('jobs:list', async (_event, scope?: ServiceScope): Promise<IpcResponse<SystemdJob[]>> => {
   try {
-    if (!id || typeof id !== 'string') {
-      throw new Error('Backup ID is required');
+    if (!usesSystemd()) {
+      throw new Error('Jobs require systemd');
     }
-
-    const result = deleteBackup(id);
-    
-    if (result && CONFIG.SECURITY.AUDIT_ENABLED) {
-      console.log(`[AUDIT] Backup deleted: ${id} at ${new Date().toISOString()}`);
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
     }
 
-    return { ok: true, data: result };
+    const jobs = await withTimeout(
+      () => listJobs(scope ?? 'system'),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Job list operation timed out'
+    );
+
+    return { ok: true, data: jobs };
   } catch (error) {
-    console.error('[ERROR] backup:delete failed:', error);
+    console.error('[ERROR] jobs:list failed:', error);
     return { ok: false, error: sanitizeError(error) };
   }
 });
 
-ipcMain.handle('backup:restore', async (_event, id?: string): Promise<IpcResponse<{ success: number; failed: number; errors: string[] }>> => {
+/** IPC Handler: Cancel a queued or running job */
+ipcMain.handle('jobs:cancel', async (_event, jobId?: number, scope?: ServiceScope): Promise<IpcResponse<boolean>> => {
   try {
-    if (!id || typeof id !== 'string') {
-      throw new Error('Backup ID is required');
+    if (!usesSystemd()) {
+      throw new Error('Jobs require systemd');
     }
-
-    const backup = getBackup(id);
-    if (!backup) {
-      throw new Error('Backup not found');
+    if (typeof jobId !== 'number' || !Number.isInteger(jobId) || jobId <= 0) {
+      throw new Error('Invalid job id');
+    }
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
     }
 
-    if (backup.platform !== process.platform) {
-      throw new Error(`Backup is from ${backup.platform}, cannot restore on ${process.platform}`);
+    const effectiveScope = scope ?? 'system';
+    if (!controlRateLimiter.isAllowed(`${effectiveScope}:job:${jobId}:cancel`)) {
+      throw new Error('Rate limit exceeded. Please wait before retrying.');
     }
 
-    let success = 0;
-    let failed = 0;
-    const errors: string[] = [];
+    servicesCache.clear();
 
-    const currentServices = await serviceCircuitBreaker.execute(() =>
-      withTimeout(
-        () => withRetry(() => listServices({})),
-        CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+    const elevated = await withTimeout(
+      () => cancelJob(jobId, effectiveScope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Cancelling the job timed out'
+    );
+
+    if (CONFIG.SECURITY.AUDIT_ENABLED) {
+      console.log(
+        `[AUDIT] Job cancelled: ${jobId} (${effectiveScope}${elevated ? ', elevated' : ''}) at ${new Date().toISOString()}`
+      );
+    }
+
+    return { ok: true, data: true };
+  } catch (error) {
+    console.error(`[ERROR] jobs:cancel failed for ${jobId}:`, error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+/** IPC Handler: Read a unit's forward and reverse dependencies */
+ipcMain.handle('dependencies:get', async (_event, serviceId?: string, scope?: ServiceScope): Promise<IpcResponse<UnitDependencies>> => {
+  try {
+    // SysV init scripts declare theirs in the LSB header.
+    if (!usesSystemd() && getServiceProvider() !== 'sysv') {
+      throw new Error('Unit dependencies require systemd or SysV init scripts');
+    }
+
+    if (!serviceId || typeof serviceId !== 'string' || !isValidServiceId(serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const dependencies = await withTimeout(
+      () => getUnitDependencies(serviceId, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Reading unit dependencies timed out'
+    );
+
+    return { ok: true, data: dependencies };
+  } catch (error) {
+    console.error(`[ERROR] dependencies:get failed for ${serviceId}:`, error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+type DependencyImpactPayload = {
+  serviceId?: string;
+  action?: ServiceAction;
+  scope?: ServiceScope;
+};
+
+/** IPC Handler: List the units a stop or disable would take down or break */
+ipcMain.handle('dependencies:impact', async (_event, payload: DependencyImpactPayload): Promise<IpcResponse<DependencyImpact>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Unit dependencies require systemd');
+    }
+
+    const { serviceId, action, scope } = payload || {};
+
+    if (!serviceId || typeof serviceId !== 'string' || !isValidServiceId(serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (!action || !isValidServiceAction(action) || !IMPACT_ACTIONS.has(action)) {
+      throw new Error('Impact is only computed for stop and disable');
+    }
+
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const impact = await withTimeout(
+      () => getDependencyImpact(serviceId, action, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Dependency impact check timed out'
+    );
+
+    return { ok: true, data: impact };
+  } catch (error) {
+    console.error('[ERROR] dependencies:impact failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+/** IPC Handler: Read a unit's vendor file, drop-ins and override.conf */
+ipcMain.handle('unitFiles:get', async (_event, serviceId?: string, scope?: ServiceScope): Promise<IpcResponse<UnitFileSet>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Unit file overrides require systemd');
+    }
+
+    if (!serviceId || typeof serviceId !== 'string' || !isValidServiceId(serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const files = await withTimeout(
+      () => getUnitFiles(serviceId, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Reading unit files timed out'
+    );
+
+    return { ok: true, data: files };
+  } catch (error) {
+    console.error(`[ERROR] unitFiles:get failed for ${serviceId}:`, error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+/** IPC Handler: Write or remove a unit's override.conf and reload the daemon */
+ipcMain.handle('unitFiles:saveOverride', async (_event, payload?: OverrideSavePayload): Promise<IpcResponse<OverrideSaveResult>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Unit file overrides require systemd');
+    }
+
+    if (!payload || typeof payload !== 'object' || typeof payload.content !== 'string') {
+      throw new Error('Invalid payload structure');
+    }
+
+    if (!payload.serviceId || !isValidServiceId(payload.serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (payload.scope !== undefined && !isValidServiceScope(payload.scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const scope = payload.scope ?? 'system';
+    if (!controlRateLimiter.isAllowed(`${scope}:${payload.serviceId}:override`)) {
+      throw new Error('Rate limit exceeded. Please wait before retrying.');
+    }
+
+    servicesCache.clear();
+
+    const result = await withTimeout(
+      () => saveOverride(payload.serviceId, payload.content, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Saving override timed out'
+    );
+
+    if (CONFIG.SECURITY.AUDIT_ENABLED) {
+      console.log(`[AUDIT] Override ${result.removed ? 'removed' : 'written'}: ${result.path} (${scope}) at ${new Date().toISOString()}`);
+    }
+
+    return { ok: true, data: result };
+  } catch (error) {
+    console.error(`[ERROR] unitFiles:saveOverride failed for ${payload?.serviceId}:`, error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+/** IPC Handler: Read a service's configured and live environment, masked unless revealed */
+ipcMain.handle('environment:get', async (_event, serviceId?: string, scope?: ServiceScope, reveal?: boolean): Promise<IpcResponse<ServiceEnvironment>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Service environments require systemd');
+    }
+
+    if (!serviceId || typeof serviceId !== 'string' || !isValidServiceId(serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const environment = await withTimeout(
+      () => getServiceEnvironment(serviceId, scope, reveal === true),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Reading the environment timed out'
+    );
+
+    if (reveal === true && CONFIG.SECURITY.AUDIT_ENABLED) {
+      console.log(`[AUDIT] Environment revealed: ${environment.unitId} (${scope ?? 'system'}) at ${new Date().toISOString()}`);
+    }
+
+    return { ok: true, data: environment };
+  } catch (error) {
+    console.error(`[ERROR] environment:get failed for ${serviceId}:`, error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+/** IPC Handler: Replace a service's Environment= assignments through a drop-in */
+ipcMain.handle('environment:save', async (_event, payload?: EnvironmentSavePayload): Promise<IpcResponse<EnvironmentSaveResult>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Service environments require systemd');
+    }
+
+    if (!payload || typeof payload !== 'object' || !payload.variables || typeof payload.variables !== 'object') {
+      throw new Error('Invalid payload structure');
+    }
+
+    if (!payload.serviceId || !isValidServiceId(payload.serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (payload.scope !== undefined && !isValidServiceScope(payload.scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const values = Object.values(payload.variables);
+    if (values.some((value) => typeof value !== 'string')) {
+      throw new Error('Invalid environment variables');
+    }
+    // A placeholder saved back would replace the real secret.
+    if (values.includes(MASKED_VALUE)) {
+      throw new Error('Reveal the masked values before saving the environment');
+    }
+
+    const scope = payload.scope ?? 'system';
+    if (!controlRateLimiter.isAllowed(`${scope}:${payload.serviceId}:environment`)) {
+      throw new Error('Rate limit exceeded. Please wait before retrying.');
+    }
+
+    servicesCache.clear();
+
+    const result = await withTimeout(
+      () => saveEnvironment(payload.serviceId, payload.variables, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Saving the environment timed out'
+    );
+
+    if (CONFIG.SECURITY.AUDIT_ENABLED) {
+      console.log(
+        `[AUDIT] Environment written: ${result.path} (${scope}, ${Object.keys(payload.variables).length} variables) at ${new Date().toISOString()}`
+      );
+    }
+
+    return { ok: true, data: result };
+  } catch (error) {
+    console.error(`[ERROR] environment:save failed for ${payload?.serviceId}:`, error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+/** IPC Handler: Read a unit's cgroup resource limits */
+ipcMain.handle('limits:get', async (_event, serviceId?: string, scope?: ServiceScope): Promise<IpcResponse<ResourceLimits>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Resource limits require systemd');
+    }
+
+    if (!serviceId || typeof serviceId !== 'string' || !isValidServiceId(serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const limits = await withTimeout(
+      () => getResourceLimits(serviceId, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Reading resource limits timed out'
+    );
+
+    return { ok: true, data: limits };
+  } catch (error) {
+    console.error(`[ERROR] limits:get failed for ${serviceId}:`, error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+type ResourceLimitsPayload = {
+  serviceId: string;
+  update: ResourceLimitsUpdate;
+  scope?: ServiceScope;
+};
+
+/** IPC Handler: Change a unit's resource limits with systemctl set-property */
+ipcMain.handle('limits:set', async (_event, payload?: ResourceLimitsPayload): Promise<IpcResponse<ResourceLimitsResult>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Resource limits require systemd');
+    }
+
+    if (!payload || typeof payload !== 'object' || !payload.update || typeof payload.update !== 'object') {
+      throw new Error('Invalid payload structure');
+    }
+
+    if (!payload.serviceId || !isValidServiceId(payload.serviceId)) {
+      throw new Error('Invalid service identifier');
+    }
+
+    if (typeof payload.update.limits !== 'object' || payload.update.limits === null) {
+      throw new Error('Invalid resource limits');
+    }
+
+    if (payload.scope !== undefined && !isValidServiceScope(payload.scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const scope = payload.scope ?? 'system';
+    if (!controlRateLimiter.isAllowed(`${scope}:${payload.serviceId}:limits`)) {
+      throw new Error('Rate limit exceeded. Please wait before retrying.');
+    }
+
+    const update: ResourceLimitsUpdate = { limits: payload.update.limits, runtime: payload.update.runtime === true };
+
+    servicesCache.clear();
+
+    const result = await withTimeout(
+      () => setResourceLimits(payload.serviceId, update, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Setting resource limits timed out'
+    );
+
+    if (CONFIG.SECURITY.AUDIT_ENABLED) {
+      const changes = Object.entries(update.limits).map(([name, value]) => `${name}=${value}`).join(' ');
+      console.log(
+        `[AUDIT] Resource limits set: ${result.unitId} (${scope}, ${update.runtime ? 'runtime' : 'persistent'}) ${changes} at ${new Date().toISOString()}`
+      );
+    }
+
+    return { ok: true, data: result };
+  } catch (error) {
+    console.error(`[ERROR] limits:set failed for ${payload?.serviceId}:`, error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+const validateNewServiceDefinition = (definition: unknown): NewServiceDefinition => {
+  if (!definition || typeof definition !== 'object') {
+    throw new Error('Invalid service definition');
+  }
+
+  const candidate = definition as NewServiceDefinition;
+  if (typeof candidate.name !== 'string' || !isValidServiceId(candidate.name)) {
+    throw new Error('Invalid service identifier');
+  }
+
+  if (typeof candidate.execStart !== 'string' || typeof candidate.wantedBy !== 'string') {
+    throw new Error('Missing required fields: execStart and wantedBy');
+  }
+
+  if (candidate.environment !== undefined) {
+    const values = typeof candidate.environment === 'object' && candidate.environment !== null
+      ? Object.values(candidate.environment)
+      : [null];
+    if (values.some((value) => typeof value !== 'string')) {
+      throw new Error('Invalid environment variables');
+    }
+  }
+
+  return candidate;
+};
+
+/** IPC Handler: Render and verify a unit file for the new-service wizard */
+ipcMain.handle('services:previewNew', async (_event, definition?: NewServiceDefinition): Promise<IpcResponse<NewServicePreview>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Creating services requires systemd');
+    }
+
+    const preview = await withTimeout(
+      () => previewNewService(validateNewServiceDefinition(definition)),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Unit verification timed out'
+    );
+
+    return { ok: true, data: preview };
+  } catch (error) {
+    console.error('[ERROR] services:previewNew failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+/** IPC Handler: Install a new unit file, reload, and optionally enable/start it */
+ipcMain.handle('services:create', async (_event, payload?: NewServicePayload): Promise<IpcResponse<NewServiceResult>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Creating services requires systemd');
+    }
+
+    if (!payload || typeof payload !== 'object') {
+      throw new Error('Invalid payload structure');
+    }
+
+    const definition = validateNewServiceDefinition(payload.definition);
+    const options: NewServiceOptions = {
+      enable: payload.options?.enable === true,
+      start: payload.options?.start === true,
+    };
+
+    if (!controlRateLimiter.isAllowed(`system:${definition.name}:create`)) {
+      throw new Error('Rate limit exceeded. Please wait before retrying.');
+    }
+
+    servicesCache.clear();
+
+    const result = await withTimeout(
+      () => createNewService(definition, options),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Service creation timed out'
+    );
+
+    if (CONFIG.SECURITY.AUDIT_ENABLED) {
+      console.log(
+        `[AUDIT] Service created: ${result.path} (enable=${result.enabled}, start=${result.started}) at ${new Date().toISOString()}`
+      );
+    }
+
+    return { ok: true, data: result };
+  } catch (error) {
+    console.error('[ERROR] services:create failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+const validateTransientUnitDefinition = (definition: unknown): TransientUnitDefinition => {
+  if (!definition || typeof definition !== 'object') {
+    throw new Error('Invalid unit definition');
+  }
+
+  const candidate = definition as TransientUnitDefinition;
+  if (candidate.name !== undefined && (typeof candidate.name !== 'string' || (candidate.name !== '' && !isValidServiceId(candidate.name)))) {
+    throw new Error('Invalid service identifier');
+  }
+
+  if (typeof candidate.command !== 'string') {
+    throw new Error('Missing required field: command');
+  }
+
+  for (const field of ['description', 'user', 'workingDirectory'] as const) {
+    if (candidate[field] !== undefined && typeof candidate[field] !== 'string') {
+      throw new Error(`Invalid ${field}`);
+    }
+  }
+
+  for (const [field, label] of [['environment', 'environment variables'], ['limits', 'resource limits'], ['timer', 'timer']] as const) {
+    const value = candidate[field];
+    if (value === undefined) continue;
+    const values = typeof value === 'object' && value !== null ? Object.values(value) : [null];
+    if (values.some((item) => item !== undefined && typeof item !== 'string')) {
+      throw new Error(`Invalid ${label}`);
+    }
+  }
+
+  return candidate;
+};
+
+/** IPC Handler: Start a command as a transient unit with systemd-run */
+ipcMain.handle('services:runTransient', async (_event, payload?: TransientUnitPayload): Promise<IpcResponse<ServiceControlResult>> => {
+  try {
+    if (!usesSystemd()) {
+      throw new Error('Transient units require systemd');
+    }
+
+    if (!payload || typeof payload !== 'object') {
+      throw new Error('Invalid payload structure');
+    }
+
+    if (payload.scope !== undefined && !isValidServiceScope(payload.scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    const definition = validateTransientUnitDefinition(payload.definition);
+    const scope = payload.scope ?? 'system';
+
+    if (!controlRateLimiter.isAllowed(`${scope}:${definition.name || 'transient'}:run`)) {
+      throw new Error('Rate limit exceeded. Please wait before retrying.');
+    }
+
+    servicesCache.clear();
+
+    const result = await withTimeout(
+      () => runTransientUnit(definition, scope),
+      CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+      'Starting the transient unit timed out'
+    );
+
+    if (CONFIG.SECURITY.AUDIT_ENABLED) {
+      // Only the executable is logged; arguments may carry credentials.
+      const schedule = [definition.timer?.onCalendar, definition.timer?.onActive].filter(Boolean).join(', ');
+      console.log(
+        `[AUDIT] Transient unit started: ${result.serviceId} (${scope}${schedule ? `, timer ${schedule}` : ''}) running ${definition.command.trim().split(/\s+/)[0]} at ${new Date().toISOString()}`
+      );
+    }
+
+    return { ok: true, data: result };
+  } catch (error) {
+    console.error('[ERROR] services:runTransient failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+ipcMain.on('app:openPath', (_event, targetPath: string | undefined) => {
+  if (!targetPath || typeof targetPath !== 'string') return;
+
+  if (!isValidFilePath(targetPath)) {
+    console.error('[SECURITY] Rejected invalid file path:', sanitizeErrorMessage(targetPath));
+    return;
+  }
+
+  const isWindows = process.platform === 'win32';
+  const isDarwin = process.platform === 'darwin';
+  const isLinux = process.platform === 'linux';
+
+  const allowedPrefixes: string[] = [];
+  
+  if (isWindows) {
+    allowedPrefixes.push('C:\\Windows\\System32', 'C:\\Program Files');
+  } else if (isDarwin) {
+    allowedPrefixes.push('/Library/LaunchDaemons', '/Library/LaunchAgents', '/System/Library');
+  } else if (isLinux) {
+    allowedPrefixes.push(
+      '/etc/systemd',
+      '/lib/systemd',
+      '/usr/lib/systemd',
+      '/etc/init.d',
+      '/etc/rc.d',
+      '/etc/sv',
+      '/etc/runit',
+      '/etc/service',
+      '/etc/s6'
+    );
+  }
+
+  const isAllowed = allowedPrefixes.length === 0 || allowedPrefixes.some(prefix => 
+    targetPath.startsWith(prefix)
+  );
+
+  if (!isAllowed) {
+    console.error('[SECURITY] Path not in allowed directories:', sanitizeErrorMessage(targetPath));
+    return;
+  }
+
+  shell.showItemInFolder(targetPath);
+  console.log(`[AUDIT] Opened file path at ${new Date().toISOString()}`);
+});
+
+ipcMain.handle('app:showErrorDialog', async (_event, message?: unknown) => {
+  if (!mainWindow) return;
+  await dialog.showMessageBox(mainWindow, {
+    type: 'error',
+    title: 'Service Manager',
+    message: 'Service Manager',
+    detail: typeof message === 'string' ? message : 'An unexpected error occurred.',
+    buttons: ['OK'],
+  });
+});
+
+ipcMain.handle('app:checkForUpdates', async (): Promise<IpcResponse<UpdateInfo>> => {
+  try {
+    const updateInfo = await checkForUpdates();
+    return { ok: true, data: updateInfo };
+  } catch (error) {
+    console.error('[ERROR] app:checkForUpdates failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+ipcMain.handle('app:manualUpdateCheck', async (): Promise<IpcResponse<void>> => {
+  try {
+    if (!mainWindow) {
+      throw new Error('Main window not available');
+    }
+    await performManualUpdateCheck(mainWindow);
+    return { ok: true };
+  } catch (error) {
+    console.error('[ERROR] app:manualUpdateCheck failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+ipcMain.handle('app:applyPendingUpdate', async (): Promise<IpcResponse<boolean>> => {
+  try {
+    const applied = applyPendingUpdate();
+    return { ok: true, data: applied };
+  } catch (error) {
+    console.error('[ERROR] app:applyPendingUpdate failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+ipcMain.handle('app:getVersion', async (): Promise<string> => {
+  return app.getVersion();
+});
+
+ipcMain.handle('services:getProvider', async (): Promise<ServiceProviderKind> => {
+  return getServiceProvider();
+});
+
+ipcMain.handle('backup:create', async (_event, scope?: ServiceScope, host?: string, machine?: string): Promise<IpcResponse<ServiceBackup>> => {
+  try {
+    if (scope !== undefined && !isValidServiceScope(scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    if (host !== undefined && !isValidRemoteHost(host)) {
+      throw new Error('Invalid remote host');
+    }
+
+    validateMachine(machine, scope, host);
+
+    const backupScope = scope ?? 'system';
+    const servicesResponse = await circuitBreakerFor(host).execute(() =>
+      withTimeout(
+        () => withRetry(() => listServices({ scope: backupScope, unitType: 'service', host, machine })),
+        CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+        'Service list operation timed out'
+      )
+    );
+
+    let limits: Map<string, Partial<ResourceLimits>> | undefined;
+    if (usesSystemd() && !host && !machine) {
+      try {
+        limits = await withTimeout(
+          () => listResourceLimits(backupScope),
+          CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
+          'Reading resource limits timed out'
+        );
+      } catch (error) {
+        // The backup is still useful without limits; restore skips them when absent.
+        console.warn('[WARN] backup:create could not read resource limits:', error);
+      }
+    }
+
+    const backup = createBackup(servicesResponse, backupScope, limits, host, machine);
+    
+    if (CONFIG.SECURITY.AUDIT_ENABLED) {
+      console.log(
+        `[AUDIT] Backup created: ${backup.id} (${describeTarget(backupScope, host, machine)}) at ${new Date(backup.timestamp).toISOString()}`
+      );
+    }
+
+    return { ok: true, data: backup };
+  } catch (error) {
+    console.error('[ERROR] backup:create failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+ipcMain.handle('backup:list', async (): Promise<IpcResponse<ServiceBackup[]>> => {
+  try {
+    const backups = listBackups();
+    return { ok: true, data: backups };
+  } catch (error) {
+    console.error('[ERROR] backup:list failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+ipcMain.handle('backup:get', async (_event, id?: string): Promise<IpcResponse<ServiceBackup | null>> => {
+  try {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Backup ID is required');
+    }
+
+    const backup = getBackup(id);
+    return { ok: true, data: backup };
+  } catch (error) {
+    console.error('[ERROR] backup:get failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+ipcMain.handle('backup:delete', async (_event, id?: string): Promise<IpcResponse<boolean>> => {
+  try {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Backup ID is required');
+    }
+
+    const result = deleteBackup(id);
+    
+    if (result && CONFIG.SECURITY.AUDIT_ENABLED) {
+      console.log(`[AUDIT] Backup deleted: ${id} at ${new Date().toISOString()}`);
+    }
+
+    return { ok: true, data: result };
+  } catch (error) {
+    console.error('[ERROR] backup:delete failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
+ipcMain.handle('backup:restore', async (_event, id?: string): Promise<IpcResponse<{ success: number; failed: number; errors: string[] }>> => {
+  try {
+    if (!id || typeof id !== 'string') {
+      throw new Error('Backup ID is required');
+    }
+
+    const backup = getBackup(id);
+    if (!backup) {
+      throw new Error('Backup not found');
+    }
+
+    if (!backup.host && backup.platform !== process.platform) {
+      throw new Error(`Backup is from ${backup.platform}, cannot restore on ${process.platform}`);
+    }
+
+    let success = 0;
+    let failed = 0;
+    const errors: string[] = [];
+    // Backups taken before scopes existed only ever covered system units.
+    const backupScope = backup.scope ?? 'system';
+    const backupHost = backup.host;
+    const backupMachine = backup.machine;
+
+    const currentServices = await circuitBreakerFor(backupHost).execute(() =>
+      withTimeout(
+        () => withRetry(() => listServices({ scope: backupScope, unitType: 'service', host: backupHost, machine: backupMachine })),
+        CONFIG.PERFORMANCE.OPERATION_TIMEOUT_MS,
         'Service list operation timed out'
       )
     );
 
     const currentServiceMap = new Map(currentServices.map(s => [s.id, s]));
+    const hasLimits = backup.services.some(s => s.limits !== undefined);
+    const currentLimits = hasLimits ? await listResourceLimits(backupScope) : new Map<string, Partial<ResourceLimits>>();
 
     for (const backupService of backup.services) {
       const currentService = currentServiceMap.get(backupService.id);
@@ -616,14 +1711,23 @@ ipcMain.handle('backup:restore', async (_event, id?: string): Promise<IpcRespons
 
         if (isCurrentlyRunning !== shouldBeRunning) {
           const action = shouldBeRunning ? 'start' : 'stop';
-          await controlService(backupService.id, action);
+          await controlService(backupService.id, action, backupScope, {}, backupHost, backupMachine);
         }
 
         const isCurrentlyEnabled = currentService.startupType.toLowerCase().includes('enabled') || 
                                    currentService.startupType.toLowerCase().includes('automatic');
         if (isCurrentlyEnabled !== backupService.enabled) {
           const action = backupService.enabled ? 'enable' : 'disable';
-          await controlService(backupService.id, action);
+          await controlService(backupService.id, action, backupScope, {}, backupHost, backupMachine);
+        }
+
+        if (backupService.limits) {
+          await revertResourceLimits(
+            backupService.id,
+            backupService.limits,
+            currentLimits.get(backupService.id) ?? {},
+            backupScope
+          );
         }
 
         success++;
@@ -637,7 +1741,9 @@ ipcMain.handle('backup:restore', async (_event, id?: string): Promise<IpcRespons
     servicesCache.clear();
 
     if (CONFIG.SECURITY.AUDIT_ENABLED) {
-      console.log(`[AUDIT] Backup restored: ${id} (${success} success, ${failed} failed) at ${new Date().toISOString()}`);
+      console.log(
+        `[AUDIT] Backup restored: ${id} to ${describeTarget(backupScope, backupHost, backupMachine)} (${success} success, ${failed} failed) at ${new Date().toISOString()}`
+      );
     }
 
     return { ok: true, data: { success, failed, errors } };
@@ -772,10 +1878,22 @@ ipcMain.handle('health:updateConfig', async (_event, payload?: Partial<HealthChe
   }
 });
 
+/**
+ * IPC Handler: List units flagged as crash-looping or flapping
+ */
+ipcMain.handle('health:unstable', async (): Promise<IpcResponse<UnstableService[]>> => {
+  try {
+    return { ok: true, data: crashLoopDetector.getUnstable() };
+  } catch (error) {
+    console.error('[ERROR] health:unstable failed:', error);
+    return { ok: false, error: sanitizeError(error) };
+  }
+});
+
 /**
  * IPC Handler: Get service logs
  */
-ipcMain.handle('logs:get', async (_event, payload?: { serviceId: string; lines?: number }): Promise<IpcResponse<ServiceLogs>> => {
+ipcMain.handle('logs:get', async (_event, payload?: { serviceId: string; lines?: number; scope?: ServiceScope; host?: string; machine?: string }): Promise<IpcResponse<ServiceLogs>> => {
   try {
     if (!payload || typeof payload !== 'object') {
       throw new Error('Invalid payload structure');
@@ -789,21 +1907,32 @@ ipcMain.handle('logs:get', async (_event, payload?: { serviceId: string; lines?:
       throw new Error('Invalid service identifier');
     }
 
+    if (payload.scope !== undefined && !isValidServiceScope(payload.scope)) {
+      throw new Error('Invalid service scope');
+    }
+
+    if (payload.host !== undefined && !isValidRemoteHost(payload.host)) {
+      throw new Error('Invalid remote host');
+    }
+
+    validateMachine(payload.machine, payload.scope, payload.host);
+
     const lines = payload.lines && typeof payload.lines === 'number' ? Math.min(payload.lines, 10000) : 100;
+    const scope = payload.scope ?? 'system';
     
-    const serviceDetails = await getServiceDetails(payload.serviceId);
+    const serviceDetails = await getServiceDetails(payload.serviceId, scope, payload.host, payload.machine);
     if (!serviceDetails) {
       throw new Error('Service not found');
     }
 
     const logs = await withTimeout(
-      () => getServiceLogs(payload.serviceId, serviceDetails.name, serviceDetails.provider, lines),
+      () => getServiceLogs(payload.serviceId, serviceDetails.name, serviceDetails.provider, lines, scope, payload.host, payload.machine),
       15000,
       'Log retrieval timed out'
     );
 
     if (CONFIG.SECURITY.AUDIT_ENABLED) {
-      console.log(`[AUDIT] Retrieved logs for ${payload.serviceId} at ${new Date().toISOString()}`);
+      console.log(`[AUDIT] Retrieved logs for ${payload.serviceId}${payload.host ? ` on ${payload.host}` : payload.machine ? ` in machine ${payload.machine}` : ''} at ${new Date().toISOString()}`);
     }
 
     return { ok: true, data: logs };
@@ -0,0 +1,251 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { KillSignal, ProcessSignalResult, ServiceScope, UnitProcess, UnitProcessTree } from '../types/service';
+import { isValidKillSignal } from '../utils/validation';
+import { getServiceDetails } from './services';
+
+const execFileAsync = promisify(execFile);
+
+/** Upper bound on processes read from one cgroup tree. */
+const MAX_PROCESSES = 500;
+
+// Unified (v2) first; hybrid setups mount it under unified/, legacy ones keep systemd's tree under systemd/.
+const CGROUP_ROOTS = ['/sys/fs/cgroup', '/sys/fs/cgroup/unified', '/sys/fs/cgroup/systemd'];
+
+/**
+ * Signals $1 with $3 only if /proc/$1/cgroup still places it in cgroup $2 or
+ * below; the check runs in the same elevated command as the kill.
+ */
+const VERIFIED_KILL_SCRIPT =
+  'while IFS= read -r line; do case "$line" in *":$2" | *":$2/"*) exec kill -s "$3" "$1" ;; esac; done < "/proc/$1/cgroup"; ' +
+  'echo "process $1 is no longer part of the unit" >&2; exit 1';
+
+// /proc/<pid>/stat reports start times in USER_HZ ticks, which the kernel ABI fixes at 100.
+const USER_HZ = 100;
+
+export async function resolveCgroupDirectory(controlGroup: string): Promise<string | null> {
+  for (const root of CGROUP_ROOTS) {
+    const directory = path.join(root, controlGroup);
+    try {
+      await fs.promises.access(path.join(directory, 'cgroup.procs'));
+      return directory;
+    } catch {
+      // Not mounted here; try the next layout.
+    }
+  }
+  return null;
+}
+
+/**
+ * Collects the pids of a cgroup and every cgroup below it, each paired with
+ * the child cgroup it sits in relative to `directory`.
+ */
+export async function readCgroupPids(directory: string, limit: number): Promise<{ pids: Array<[number, string]>; truncated: boolean }> {
+  const pids: Array<[number, string]> = [];
+  const pending = [''];
+  let truncated = false;
+
+  while (pending.length > 0) {
+    const relative = pending.shift() as string;
+    const current = path.join(directory, relative);
+
+    let content: string;
+    let entries: fs.Dirent[];
+    try {
+      [content, entries] = await Promise.all([
+        fs.promises.readFile(path.join(current, 'cgroup.procs'), 'utf8'),
+        fs.promises.readdir(current, { withFileTypes: true }),
+      ]);
+    } catch {
+      // The child cgroup went away while walking.
+      continue;
+    }
+
+    for (const line of content.split('\n')) {
+      const pid = Number.parseInt(line, 10);
+      if (!Number.isInteger(pid) || pid <= 0) continue;
+      if (pids.length >= limit) {
+        truncated = true;
+        break;
+      }
+      pids.push([pid, relative ? `/${relative}` : '']);
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        pending.push(relative ? `${relative}/${entry.name}` : entry.name);
+      }
+    }
+  }
+
+  return { pids, truncated };
+}
+
+async function readBootTime(): Promise<number | null> {
+  try {
+    const stat = await fs.promises.readFile('/proc/stat', 'utf8');
+    const match = stat.match(/^btime\s+(\d+)$/m);
+    return match ? Number(match[1]) * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readUserNames(): Promise<Map<number, string>> {
+  const users = new Map<number, string>();
+  try {
+    const passwd = await fs.promises.readFile('/etc/passwd', 'utf8');
+    for (const line of passwd.split('\n')) {
+      const [name, , uid] = line.split(':');
+      if (name && uid && /^\d+$/.test(uid)) {
+        users.set(Number(uid), name);
+      }
+    }
+  } catch {
+    // Fall back to numeric uids.
+  }
+  return users;
+}
+
+async function readProcess(
+  pid: number,
+  cgroup: string,
+  bootTime: number | null,
+  users: Map<number, string>
+): Promise<UnitProcess | null> {
+  const procDirectory = `/proc/${pid}`;
+  let stat: string;
+  let cmdline: string;
+  let status: string;
+  try {
+    [stat, cmdline, status] = await Promise.all([
+      fs.promises.readFile(`${procDirectory}/stat`, 'utf8'),
+      fs.promises.readFile(`${procDirectory}/cmdline`, 'utf8'),
+      fs.promises.readFile(`${procDirectory}/status`, 'utf8'),
+    ]);
+  } catch {
+    // Exited between listing the cgroup and reading it.
+    return null;
+  }
+
+  // The name is wrapped in parentheses and may itself contain spaces or parentheses.
+  const nameStart = stat.indexOf('(');
+  const nameEnd = stat.lastIndexOf(')');
+  if (nameStart === -1 || nameEnd === -1) return null;
+
+  const name = stat.slice(nameStart + 1, nameEnd);
+  // Fields after the name start at field 3 (state); starttime is field 22.
+  const fields = stat.slice(nameEnd + 2).split(' ');
+  const startTicks = Number(fields[19]);
+
+  const uidMatch = status.match(/^Uid:\s+(\d+)/m);
+  const uid = uidMatch ? Number(uidMatch[1]) : null;
+  const rssMatch = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+  const args = cmdline.split('\0').filter(Boolean);
+
+  return {
+    pid,
+    ppid: Number(fields[1]) || 0,
+    name,
+    command: args.length > 0 ? args.join(' ') : `[${name}]`,
+    user: uid === null ? '' : users.get(uid) ?? String(uid),
+    rssBytes: rssMatch ? Number(rssMatch[1]) * 1024 : null,
+    startedAt: bootTime !== null && Number.isFinite(startTicks) ? bootTime + (startTicks / USER_HZ) * 1000 : null,
+    state: fields[0] ?? '',
+    cgroup,
+  };
+}
+
+/**
+ * Lists every process in a unit's cgroup, including those in child cgroups
+ * (e.g. delegated worker pools), with details from `/proc`.
+ */
+export async function getUnitProcesses(serviceId: string, scope: ServiceScope = 'system'): Promise<UnitProcessTree> {
+  const service = await getServiceDetails(serviceId, scope);
+  if (!service) {
+    throw new Error(`Unit not found: ${serviceId}`);
+  }
+
+  const tree: UnitProcessTree = {
+    unitId: service.id,
+    controlGroup: service.controlGroup ?? null,
+    mainPid: service.pid,
+    processes: [],
+    truncated: false,
+  };
+  if (!service.controlGroup) {
+    return tree;
+  }
+
+  const directory = await resolveCgroupDirectory(service.controlGroup);
+  if (!directory) {
+    return tree;
+  }
+
+  const [{ pids, truncated }, bootTime, users] = await Promise.all([
+    readCgroupPids(directory, MAX_PROCESSES),
+    readBootTime(),
+    readUserNames(),
+  ]);
+  const processes = await Promise.all(pids.map(([pid, cgroup]) => readProcess(pid, cgroup, bootTime, users)));
+
+  tree.processes = processes.filter((entry): entry is UnitProcess => entry !== null);
+  tree.truncated = truncated;
+  return tree;
+}
+
+/** Whether /proc/<pid>/cgroup places the process in `controlGroup` or a cgroup below it. */
+async function isInControlGroup(pid: number, controlGroup: string): Promise<boolean> {
+  try {
+    const content = await fs.promises.readFile(`/proc/${pid}/cgroup`, 'utf8');
+    return content
+      .split('\n')
+      .some((line) => line.endsWith(`:${controlGroup}`) || line.includes(`:${controlGroup}/`));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sends a signal to one process of a unit, retried under pkexec for system
+ * units. The pid must still be in the unit's cgroup, so a recycled pid or one
+ * belonging to something else is refused; the cgroup is checked again right
+ * before signalling, by the elevated command itself when root is needed.
+ */
+export async function signalUnitProcess(
+  serviceId: string,
+  pid: number,
+  signal: KillSignal,
+  scope: ServiceScope = 'system'
+): Promise<ProcessSignalResult> {
+  if (!Number.isInteger(pid) || pid <= 1) {
+    throw new Error(`Invalid process id: ${pid}`);
+  }
+  if (!isValidKillSignal(signal)) {
+    throw new Error(`Unsupported signal: ${signal}`);
+  }
+
+  const tree = await getUnitProcesses(serviceId, scope);
+  const controlGroup = tree.controlGroup;
+  if (!controlGroup || !tree.processes.some((entry) => entry.pid === pid)) {
+    throw new Error(`Process ${pid} is not part of ${tree.unitId}`);
+  }
+
+  try {
+    if (!(await isInControlGroup(pid, controlGroup))) {
+      throw new Error(`Process ${pid} is no longer part of ${tree.unitId}`);
+    }
+    process.kill(pid, signal);
+    return { pid, signal, elevated: false };
+  } catch (error) {
+    // Processes owned by another user need root; a user unit's processes are always the user's own.
+    if (scope !== 'system' || (error as NodeJS.ErrnoException).code !== 'EPERM') {
+      throw error;
+    }
+  }
+
+  await execFileAsync('pkexec', ['sh', '-c', VERIFIED_KILL_SCRIPT, 'sh', String(pid), controlGroup, signal.replace(/^SIG/, '')]);
+  return { pid, signal, elevated: true };
+}
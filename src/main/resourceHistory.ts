@@ -0,0 +1,62 @@
+import type { ResourceSample, ServiceInfo, ServiceScope } from '../types/service';
+
+const MAX_SAMPLES = 60;
+// Samples closer together than this (a list refresh followed by a details read) add nothing.
+const MIN_SAMPLE_INTERVAL_MS = 2000;
+// Units that stop showing up (removed, filtered out) are forgotten after this long.
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+/**
+ * Short rolling history of each unit's resource counters, fed by the service
+ * list and details reads the app already makes.
+ */
+class ResourceHistory {
+  private samples = new Map<string, ResourceSample[]>();
+
+  record(services: ServiceInfo[], scope: ServiceScope = 'system', timestamp = Date.now()): void {
+    for (const service of services) {
+      if (!service.resources) continue;
+
+      const key = this.key(service.id, scope);
+      const history = this.samples.get(key) ?? [];
+      const previous = history[history.length - 1];
+      if (previous && timestamp - previous.timestamp < MIN_SAMPLE_INTERVAL_MS) continue;
+
+      history.push({ ...service.resources, timestamp, cpuPercent: this.cpuPercent(previous, service, timestamp) });
+      if (history.length > MAX_SAMPLES) {
+        history.splice(0, history.length - MAX_SAMPLES);
+      }
+      this.samples.set(key, history);
+    }
+
+    this.prune(timestamp);
+  }
+
+  get(serviceId: string, scope: ServiceScope = 'system'): ResourceSample[] {
+    return [...(this.samples.get(this.key(serviceId, scope)) ?? [])];
+  }
+
+  private key(serviceId: string, scope: ServiceScope): string {
+    return `${scope}:${serviceId}`;
+  }
+
+  private cpuPercent(previous: ResourceSample | undefined, service: ServiceInfo, timestamp: number): number | null {
+    const current = service.resources?.cpuUsageNSec ?? null;
+    if (!previous || previous.cpuUsageNSec === null || current === null) return null;
+    // The counter resets when the unit restarts.
+    if (current < previous.cpuUsageNSec) return null;
+    const elapsedNs = (timestamp - previous.timestamp) * 1e6;
+    return elapsedNs > 0 ? ((current - previous.cpuUsageNSec) / elapsedNs) * 100 : null;
+  }
+
+  private prune(now: number): void {
+    for (const [key, history] of this.samples) {
+      const last = history[history.length - 1];
+      if (!last || now - last.timestamp > STALE_AFTER_MS) {
+        this.samples.delete(key);
+      }
+    }
+  }
+}
+
+export const resourceHistory = new ResourceHistory();
@@ -0,0 +1,186 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type {
+  ResourceLimitName,
+  ResourceLimits,
+  ResourceLimitsResult,
+  ResourceLimitsUpdate,
+  ServiceScope,
+} from '../types/service';
+import { isValidServiceId } from '../utils/validation';
+import { execWithElevation, normalizeServiceId, parseShowBlocks, scopeArgs } from './services/linux';
+
+const execFileAsync = promisify(execFile);
+
+export const LIMIT_NAMES: ReadonlyArray<ResourceLimitName> = [
+  'MemoryMax',
+  'MemoryHigh',
+  'CPUQuota',
+  'CPUWeight',
+  'TasksMax',
+  'IOWeight',
+];
+
+// `systemctl show` has no CPUQuota property; the quota is reported as CPU time per second.
+const SHOW_PROPERTIES = 'MemoryMax,MemoryHigh,CPUQuotaPerSecUSec,CPUWeight,TasksMax,IOWeight';
+
+const MEMORY_PATTERN = /^(?:infinity|\d+(?:\.\d+)?[KMGT]?|\d+(?:\.\d+)?%)$/i;
+
+const LIMIT_PATTERNS: Readonly<Record<ResourceLimitName, RegExp>> = {
+  MemoryMax: MEMORY_PATTERN,
+  MemoryHigh: MEMORY_PATTERN,
+  CPUQuota: /^\d+(?:\.\d+)?%$/,
+  CPUWeight: /^(?:idle|\d+)$/,
+  TasksMax: /^(?:infinity|\d+|\d+(?:\.\d+)?%)$/,
+  IOWeight: /^\d+$/,
+};
+
+const WEIGHT_LIMITS: ReadonlySet<ResourceLimitName> = new Set(['CPUWeight', 'IOWeight']);
+
+const UNSET_VALUES = new Set(['', 'infinity', '[not set]', '18446744073709551615']);
+
+const TIMESPAN_UNITS_USEC: Record<string, number> = { us: 1, ms: 1000, s: 1e6, min: 60e6, h: 3600e6 };
+
+/** Converts CPUQuotaPerSecUSec (e.g. `500ms`, `1s 500ms`) to CPUQuota's percentage syntax. */
+function quotaPercent(value?: string): string {
+  if (!value || UNSET_VALUES.has(value)) return '';
+  let usec = 0;
+  for (const [, amount, unit] of value.matchAll(/(\d+(?:\.\d+)?)(us|ms|s|min|h)/g)) {
+    usec += Number(amount) * TIMESPAN_UNITS_USEC[unit];
+  }
+  return usec > 0 ? `${Number((usec / 1e4).toFixed(2))}%` : '';
+}
+
+function normaliseLimit(value?: string): string {
+  return !value || UNSET_VALUES.has(value) ? '' : value;
+}
+
+function toResourceLimits(parsed: Record<string, string>): ResourceLimits {
+  return {
+    MemoryMax: normaliseLimit(parsed.MemoryMax),
+    MemoryHigh: normaliseLimit(parsed.MemoryHigh),
+    CPUQuota: quotaPercent(parsed.CPUQuotaPerSecUSec),
+    CPUWeight: normaliseLimit(parsed.CPUWeight),
+    TasksMax: normaliseLimit(parsed.TasksMax),
+    IOWeight: normaliseLimit(parsed.IOWeight),
+  };
+}
+
+export async function getResourceLimits(serviceId: string, scope: ServiceScope = 'system'): Promise<ResourceLimits> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  const unit = normalizeServiceId(serviceId);
+  const { stdout } = await execFileAsync(
+    'systemctl',
+    [...scopeArgs(scope), 'show', unit, '--no-pager', `--property=${SHOW_PROPERTIES}`],
+    { encoding: 'utf8', env: { ...process.env, LANG: 'C', LC_ALL: 'C' } }
+  );
+
+  const [parsed = {}] = parseShowBlocks(stdout);
+  return toResourceLimits(parsed);
+}
+
+/**
+ * Reads the non-default limits of every service in one `systemctl show`, for
+ * backups. Services without any limit set are left out.
+ */
+export async function listResourceLimits(scope: ServiceScope = 'system'): Promise<Map<string, Partial<ResourceLimits>>> {
+  const { stdout } = await execFileAsync(
+    'systemctl',
+    [...scopeArgs(scope), 'show', '--type=service', '--all', '--no-pager', `--property=Id,${SHOW_PROPERTIES}`],
+    { encoding: 'utf8', env: { ...process.env, LANG: 'C', LC_ALL: 'C' }, maxBuffer: 10 * 1024 * 1024 }
+  );
+
+  const result = new Map<string, Partial<ResourceLimits>>();
+  for (const parsed of parseShowBlocks(stdout)) {
+    if (!parsed.Id) continue;
+    const limits = toResourceLimits(parsed);
+    const customised = Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== ''));
+    if (Object.keys(customised).length > 0) {
+      result.set(parsed.Id, customised);
+    }
+  }
+  return result;
+}
+
+export function validateLimit(name: ResourceLimitName, value: string): void {
+  if (value === '') return;
+  if (!LIMIT_PATTERNS[name].test(value)) {
+    throw new Error(`Invalid value for ${name}: ${value}`);
+  }
+  if (WEIGHT_LIMITS.has(name) && value !== 'idle') {
+    const weight = Number(value);
+    if (weight < 1 || weight > 10000) {
+      throw new Error(`${name} must be between 1 and 10000`);
+    }
+  }
+}
+
+/**
+ * Applies limits with `systemctl set-property`, retried under pkexec for
+ * system units like service control. Persistent changes land in
+ * system.control drop-ins; `runtime` ones are gone after a reboot.
+ */
+export async function setResourceLimits(
+  serviceId: string,
+  { limits, runtime }: ResourceLimitsUpdate,
+  scope: ServiceScope = 'system'
+): Promise<ResourceLimitsResult> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  const assignments: string[] = [];
+  for (const name of LIMIT_NAMES) {
+    const value = limits[name];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') {
+      throw new Error(`Invalid value for ${name}`);
+    }
+    validateLimit(name, value.trim());
+    assignments.push(`${name}=${value.trim()}`);
+  }
+
+  if (assignments.length === 0) {
+    throw new Error('No resource limits to change');
+  }
+
+  const unit = normalizeServiceId(serviceId);
+  const elevated = await execWithElevation(
+    'systemctl',
+    [...scopeArgs(scope), 'set-property', ...(runtime ? ['--runtime'] : []), unit, ...assignments],
+    scope
+  );
+
+  return { unitId: unit, runtime, elevated, limits: await getResourceLimits(unit, scope) };
+}
+
+/**
+ * Puts a unit's limits back to those recorded in a backup. Applied both
+ * persistently and with --runtime, so a later runtime change cannot shadow the
+ * restored value. Resolves false when nothing differed.
+ */
+export async function revertResourceLimits(
+  serviceId: string,
+  saved: Partial<ResourceLimits>,
+  current: Partial<ResourceLimits>,
+  scope: ServiceScope = 'system'
+): Promise<boolean> {
+  const changes: Partial<ResourceLimits> = {};
+  for (const name of LIMIT_NAMES) {
+    const target = saved[name] ?? '';
+    if (target !== (current[name] ?? '')) {
+      changes[name] = target;
+    }
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return false;
+  }
+
+  await setResourceLimits(serviceId, { limits: changes, runtime: false }, scope);
+  await setResourceLimits(serviceId, { limits: changes, runtime: true }, scope);
+  return true;
+}
@@ -0,0 +1,167 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import type { SecurityCheck, SecurityExposure, SecurityReport, ServiceInfo, ServiceScope } from '../types/service';
+import { isValidServiceId } from '../utils/validation';
+import { normalizeServiceId, scopeArgs } from './services/linux';
+
+const execFileAsync = promisify(execFile);
+
+const EXEC_OPTIONS = {
+  encoding: 'utf8' as const,
+  env: { ...process.env, LANG: 'C', LC_ALL: 'C' },
+  maxBuffer: 10 * 1024 * 1024,
+};
+
+// The overview analyses every loaded service, which takes a few seconds on a busy system.
+const OVERVIEW_TIMEOUT_MS = 120_000;
+const OVERVIEW_MAX_AGE_MS = 10 * 60 * 1000;
+// How long a list read waits for a fresh overview before going ahead without scores.
+const OVERVIEW_WAIT_MS = 5000;
+
+// The text report ends with e.g. `→ Overall exposure level for foo.service: 9.2 UNSAFE 😨`.
+const OVERALL_PATTERN = /Overall exposure level for \S+: (\d+(?:\.\d+)?) ([A-Z]+)/;
+
+function parseScore(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const score = Number(value);
+  return Number.isFinite(score) ? score : null;
+}
+
+function parseJsonArray(stdout: string): Array<Record<string, unknown>> {
+  const parsed: unknown = JSON.parse(stdout);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Unexpected systemd-analyze security output');
+  }
+  return parsed.filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object');
+}
+
+/** Runs the all-services overview (`systemd-analyze security` without units). */
+async function readOverview(scope: ServiceScope): Promise<Map<string, SecurityExposure>> {
+  const { stdout } = await execFileAsync(
+    'systemd-analyze',
+    [...scopeArgs(scope), 'security', '--json=short', '--no-pager'],
+    { ...EXEC_OPTIONS, timeout: OVERVIEW_TIMEOUT_MS }
+  );
+
+  const scores = new Map<string, SecurityExposure>();
+  for (const entry of parseJsonArray(stdout)) {
+    const score = parseScore(entry.exposure);
+    if (typeof entry.unit === 'string' && score !== null) {
+      scores.set(entry.unit, { score, predicate: String(entry.predicate ?? '') });
+    }
+  }
+  return scores;
+}
+
+/**
+ * Exposure scores from the overview, per scope. Reads are served from the
+ * last overview while a stale one is refreshed, so the service list is never
+ * held up for long by a slow analysis.
+ */
+class SecurityExposureCache {
+  private scores = new Map<ServiceScope, { data: Map<string, SecurityExposure>; timestamp: number }>();
+  private pending = new Map<ServiceScope, Promise<Map<string, SecurityExposure>>>();
+
+  async get(scope: ServiceScope, waitMs = OVERVIEW_WAIT_MS): Promise<Map<string, SecurityExposure>> {
+    const cached = this.scores.get(scope);
+    if (cached && Date.now() - cached.timestamp < OVERVIEW_MAX_AGE_MS) {
+      return cached.data;
+    }
+
+    const refresh = this.refresh(scope);
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), waitMs);
+    });
+
+    try {
+      return (await Promise.race([refresh, timeout])) ?? cached?.data ?? new Map();
+    } catch (error) {
+      console.warn(`[SECURITY] ${scope} overview failed:`, (error as Error).message);
+      return cached?.data ?? new Map();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /** Records a single unit's score from a fresh per-unit analysis. */
+  update(unitId: string, scope: ServiceScope, exposure: SecurityExposure): void {
+    this.scores.get(scope)?.data.set(unitId, exposure);
+  }
+
+  private refresh(scope: ServiceScope): Promise<Map<string, SecurityExposure>> {
+    const inFlight = this.pending.get(scope);
+    if (inFlight) return inFlight;
+
+    const request = readOverview(scope)
+      .catch((error: unknown) => {
+        // Remember the failure (e.g. systemd-analyze missing or too old for --json) until the next refresh is due.
+        this.scores.set(scope, { data: this.scores.get(scope)?.data ?? new Map(), timestamp: Date.now() });
+        throw error;
+      })
+      .then((data) => {
+        this.scores.set(scope, { data, timestamp: Date.now() });
+        return data;
+      })
+      .finally(() => this.pending.delete(scope));
+
+    // A caller that stopped waiting must not see an unhandled rejection.
+    request.catch(() => undefined);
+    this.pending.set(scope, request);
+    return request;
+  }
+}
+
+const securityExposure = new SecurityExposureCache();
+
+/** Adds `security` to every service the last overview scored. */
+export async function annotateSecurityExposure(services: ServiceInfo[], scope: ServiceScope = 'system'): Promise<ServiceInfo[]> {
+  if (!services.some((service) => (service.unitType ?? 'service') === 'service')) {
+    return services;
+  }
+
+  const scores = await securityExposure.get(scope);
+  if (scores.size === 0) {
+    return services;
+  }
+
+  return services.map((service) => {
+    const security = scores.get(service.id);
+    return security ? { ...service, security } : service;
+  });
+}
+
+/** Full `systemd-analyze security` report for one unit: its score and every check. */
+export async function getSecurityReport(serviceId: string, scope: ServiceScope = 'system'): Promise<SecurityReport> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  const unit = normalizeServiceId(serviceId);
+  const baseArgs = [...scopeArgs(scope), 'security', '--no-pager'];
+  // The JSON form only carries the checks; the overall score is on the last line of the text form.
+  const [{ stdout: json }, { stdout: text }] = await Promise.all([
+    execFileAsync('systemd-analyze', [...baseArgs, '--json=short', unit], EXEC_OPTIONS),
+    execFileAsync('systemd-analyze', [...baseArgs, unit], EXEC_OPTIONS),
+  ]);
+
+  const checks: SecurityCheck[] = [];
+  for (const entry of parseJsonArray(json)) {
+    // Checks that do not apply to the unit have no verdict.
+    if (typeof entry.set !== 'boolean' || typeof entry.name !== 'string') continue;
+    checks.push({
+      name: entry.name,
+      description: String(entry.description ?? ''),
+      passed: entry.set,
+      exposure: entry.set ? null : parseScore(entry.exposure),
+    });
+  }
+
+  const overall = OVERALL_PATTERN.exec(text);
+  const exposure = overall ? { score: Number(overall[1]), predicate: overall[2] } : null;
+  if (exposure) {
+    securityExposure.update(unit, scope, exposure);
+  }
+
+  return { unitId: unit, exposure, checks };
+}
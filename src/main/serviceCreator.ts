@@ -0,0 +1,370 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type {
+  NewServiceDefinition,
+  NewServiceOptions,
+  NewServicePreview,
+  NewServiceResult,
+  RestartPolicy,
+  ServiceControlResult,
+  ServiceScope,
+  TransientUnitDefinition,
+} from '../types/service';
+import { isValidServiceId } from '../utils/validation';
+import { LIMIT_NAMES, validateLimit } from './resourceLimits';
+import { controlService, getServiceDetails } from './services';
+import { daemonReload, execWithElevation, normalizeServiceId, scopeArgs, unitTypeOf } from './services/linux';
+
+const execFileAsync = promisify(execFile);
+
+const UNIT_DIRECTORY = '/etc/systemd/system';
+
+/**
+ * Copies the unit next to its target, then hard-links it into place: link(2)
+ * fails with EEXIST rather than replacing a unit created since the check.
+ * Run as one command so it needs a single elevation.
+ */
+const INSTALL_SCRIPT = 'install -m 0644 "$1" "$2" && ln -T "$2" "$3"; status=$?; rm -f "$2"; exit $status';
+
+const RESTART_POLICIES: ReadonlySet<RestartPolicy> = new Set([
+  'no',
+  'on-success',
+  'on-failure',
+  'on-abnormal',
+  'on-abort',
+  'always',
+]);
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const USER_PATTERN = /^(?:[a-z_][a-z0-9_-]*\$?|\d+)$/i;
+const TARGET_PATTERN = /^[A-Za-z0-9_@.-]+\.target$/;
+// `OnActiveSec=` spans such as `90`, `15min` or `1h 30min`.
+const TIMESPAN_PATTERN = /^\d+(?:\.\d+)?\s*[a-z]*(?:\s+\d+(?:\.\d+)?\s*[a-z]*)*$/i;
+// `OnCalendar=` expressions such as `daily` or `Mon..Fri *-*-* 03:00:00 UTC`.
+const CALENDAR_PATTERN = /^[A-Za-z0-9_ :*.,~/+-]+$/;
+
+function resolveUnitId(name: string): string {
+  if (!isValidServiceId(name)) {
+    throw new Error(`Invalid service name: ${name}`);
+  }
+  const unitId = normalizeServiceId(name);
+  if (unitTypeOf(unitId) !== 'service') {
+    throw new Error('Only .service units can be created');
+  }
+  return unitId;
+}
+
+function assertSingleLine(label: string, value: string): void {
+  if (/[\r\n\0]/.test(value)) {
+    throw new Error(`${label} must be a single line`);
+  }
+}
+
+/** Doubles `%` so systemd does not read the text as specifiers (`%i`, `%h`, ...). */
+function escapeSpecifiers(value: string): string {
+  return value.replace(/%/g, '%%');
+}
+
+/**
+ * Quotes an Environment= assignment so spaces, quotes and backslashes survive
+ * unit file parsing, and doubles `%` so values are not read as specifiers.
+ */
+function quoteAssignment(name: string, value: string): string {
+  const escaped = escapeSpecifiers(`${name}=${value}`.replace(/\\/g, '\\\\').replace(/"/g, '\\"'));
+  return `"${escaped}"`;
+}
+
+/** Renders one quoted `Environment=` line per variable; shared with the environment drop-in editor. */
+export function buildEnvironmentLines(environment: Record<string, string>): string[] {
+  return Object.entries(environment).map(([name, value]) => {
+    if (!ENV_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid environment variable name: ${name}`);
+    }
+    assertSingleLine(`Environment value for ${name}`, value);
+    return `Environment=${quoteAssignment(name, value)}`;
+  });
+}
+
+/**
+ * Renders the unit file for a wizard definition. Throws on any field that
+ * would produce a malformed or multi-directive line.
+ */
+export function buildUnitFile(definition: NewServiceDefinition): string {
+  const execStart = definition.execStart?.trim() ?? '';
+  if (!execStart) {
+    throw new Error('ExecStart is required');
+  }
+  if (!execStart.startsWith('/')) {
+    throw new Error('ExecStart must begin with an absolute path');
+  }
+
+  const description = definition.description?.trim() ?? '';
+  assertSingleLine('Description', description);
+  assertSingleLine('ExecStart', execStart);
+
+  if (!RESTART_POLICIES.has(definition.restart)) {
+    throw new Error(`Invalid restart policy: ${definition.restart}`);
+  }
+
+  if (!TARGET_PATTERN.test(definition.wantedBy)) {
+    throw new Error(`Invalid WantedBy target: ${definition.wantedBy}`);
+  }
+
+  const user = definition.user?.trim();
+  if (user && !USER_PATTERN.test(user)) {
+    throw new Error(`Invalid user name: ${user}`);
+  }
+
+  const workingDirectory = definition.workingDirectory?.trim();
+  if (workingDirectory) {
+    assertSingleLine('WorkingDirectory', workingDirectory);
+    if (!workingDirectory.startsWith('/') && workingDirectory !== '~') {
+      throw new Error('WorkingDirectory must be an absolute path');
+    }
+  }
+
+  // Descriptions and commands are taken literally: `date +%Y` must not become a specifier.
+  const lines = ['[Unit]'];
+  if (description) lines.push(`Description=${escapeSpecifiers(description)}`);
+  lines.push('', '[Service]', `ExecStart=${escapeSpecifiers(execStart)}`);
+  if (user) lines.push(`User=${user}`);
+  if (workingDirectory) lines.push(`WorkingDirectory=${workingDirectory}`);
+
+  lines.push(...buildEnvironmentLines(definition.environment ?? {}));
+
+  lines.push(`Restart=${definition.restart}`, '', '[Install]', `WantedBy=${definition.wantedBy}`, '');
+  return lines.join('\n');
+}
+
+/** Runs `systemd-analyze verify` against a copy of the unit named as it will be installed. */
+async function verifyUnitFile(unitId: string, content: string): Promise<Pick<NewServicePreview, 'valid' | 'output'>> {
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'service-manager-'));
+  const unitPath = path.join(tempDir, unitId);
+  try {
+    await fs.promises.writeFile(unitPath, content, { mode: 0o644 });
+    const { stdout, stderr } = await execFileAsync('systemd-analyze', ['verify', unitPath], {
+      encoding: 'utf8',
+      timeout: 15000,
+      env: { ...process.env, LANG: 'C', LC_ALL: 'C' },
+    });
+    return { valid: true, output: `${stdout}${stderr}`.trim() };
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException & { stdout?: string; stderr?: string };
+    if (err.code === 'ENOENT') {
+      return { valid: null, output: 'systemd-analyze is not installed; the unit was not verified.' };
+    }
+    return { valid: false, output: `${err.stdout ?? ''}${err.stderr ?? ''}`.trim() || err.message };
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+export async function previewNewService(definition: NewServiceDefinition): Promise<NewServicePreview> {
+  const unitId = resolveUnitId(definition.name);
+  const content = buildUnitFile(definition);
+  return { unitId, content, ...(await verifyUnitFile(unitId, content)) };
+}
+
+function unitExistsError(unitId: string): Error {
+  const exists = new Error(`${unitId} already exists in ${UNIT_DIRECTORY}`);
+  (exists as NodeJS.ErrnoException).code = 'EEXIST';
+  return exists;
+}
+
+/**
+ * Verifies, installs and loads a new system unit, then optionally enables and
+ * starts it. Refuses to overwrite an existing unit file.
+ */
+export async function createNewService(
+  definition: NewServiceDefinition,
+  { enable = false, start = false }: NewServiceOptions = {}
+): Promise<NewServiceResult> {
+  const preview = await previewNewService(definition);
+  const unitPath = path.join(UNIT_DIRECTORY, preview.unitId);
+
+  if (fs.existsSync(unitPath)) {
+    throw unitExistsError(preview.unitId);
+  }
+
+  if (preview.valid === false) {
+    throw new Error(`Unit file failed verification: ${preview.output}`);
+  }
+
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'service-manager-'));
+  const tempFile = path.join(tempDir, preview.unitId);
+  let elevated: boolean;
+  try {
+    await fs.promises.writeFile(tempFile, preview.content, { mode: 0o644 });
+    // Hidden and without a unit suffix, so systemd never loads the staged copy.
+    const stagedPath = path.join(UNIT_DIRECTORY, `.${preview.unitId}.${path.basename(tempDir)}.tmp`);
+    elevated = await execWithElevation('sh', ['-c', INSTALL_SCRIPT, 'sh', tempFile, stagedPath, unitPath], 'system');
+  } catch (error) {
+    const stderr = (error as { stderr?: string | Buffer }).stderr?.toString() ?? '';
+    throw stderr.includes('File exists') ? unitExistsError(preview.unitId) : error;
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+
+  elevated = (await daemonReload('system')) || elevated;
+
+  if (enable) {
+    elevated = Boolean((await controlService(preview.unitId, 'enable', 'system')).elevated) || elevated;
+  }
+  if (start) {
+    elevated = Boolean((await controlService(preview.unitId, 'start', 'system')).elevated) || elevated;
+  }
+
+  return {
+    unitId: preview.unitId,
+    path: unitPath,
+    elevated,
+    enabled: enable,
+    started: start,
+    service: await getServiceDetails(preview.unitId, 'system'),
+  };
+}
+
+/**
+ * Splits a command line into arguments the way a shell would for plain
+ * words: single quotes are literal, double quotes and backslashes escape.
+ * Nothing is expanded.
+ */
+function splitCommandLine(commandLine: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let index = 0; index < commandLine.length; index += 1) {
+    const char = commandLine[index];
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else current += char;
+    } else if (char === '\\' && index + 1 < commandLine.length) {
+      current += commandLine[++index];
+      inWord = true;
+    } else if (quote === '"') {
+      if (char === '"') quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) args.push(current);
+      current = '';
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error('Command has an unterminated quote');
+  }
+  if (inWord) args.push(current);
+  return args;
+}
+
+/** Turns a "Run as service" definition into `systemd-run` arguments. Throws on any invalid field. */
+function buildTransientUnitArgs(definition: TransientUnitDefinition, unitId: string, scope: ServiceScope): string[] {
+  const command = splitCommandLine(definition.command ?? '');
+  if (command.length === 0) {
+    throw new Error('A command is required');
+  }
+  command.forEach((arg) => assertSingleLine('Command', arg));
+
+  const args = [...scopeArgs(scope), '--no-ask-password', `--unit=${unitId}`];
+
+  const description = definition.description?.trim();
+  if (description) {
+    assertSingleLine('Description', description);
+    args.push(`--description=${description}`);
+  }
+
+  const user = definition.user?.trim();
+  if (user) {
+    if (scope === 'user') {
+      throw new Error('User units always run as the session user');
+    }
+    if (!USER_PATTERN.test(user)) {
+      throw new Error(`Invalid user name: ${user}`);
+    }
+    args.push(`--uid=${user}`);
+  }
+
+  const workingDirectory = definition.workingDirectory?.trim();
+  if (workingDirectory) {
+    assertSingleLine('WorkingDirectory', workingDirectory);
+    if (!workingDirectory.startsWith('/') && workingDirectory !== '~') {
+      throw new Error('WorkingDirectory must be an absolute path');
+    }
+    args.push(`--working-directory=${workingDirectory}`);
+  }
+
+  for (const [name, value] of Object.entries(definition.environment ?? {})) {
+    if (!ENV_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid environment variable name: ${name}`);
+    }
+    assertSingleLine(`Environment value for ${name}`, value);
+    args.push(`--setenv=${name}=${value}`);
+  }
+
+  for (const name of LIMIT_NAMES) {
+    const value = definition.limits?.[name]?.trim();
+    if (!value) continue;
+    validateLimit(name, value);
+    args.push(`--property=${name}=${value}`);
+  }
+
+  const onCalendar = definition.timer?.onCalendar?.trim();
+  if (onCalendar) {
+    if (!CALENDAR_PATTERN.test(onCalendar)) {
+      throw new Error(`Invalid calendar expression: ${onCalendar}`);
+    }
+    args.push(`--on-calendar=${onCalendar}`);
+  }
+
+  const onActive = definition.timer?.onActive?.trim();
+  if (onActive) {
+    if (!TIMESPAN_PATTERN.test(onActive)) {
+      throw new Error(`Invalid time span: ${onActive}`);
+    }
+    args.push(`--on-active=${onActive}`);
+  }
+
+  // `--` keeps a command starting with a dash from being read as another option.
+  return [...args, '--', ...command];
+}
+
+/**
+ * Starts a command as a transient service with `systemd-run`, from a
+ * transient timer when one is given. The unit only lives until it stops (or,
+ * having failed, until reset-failed), so nothing is written to disk.
+ */
+export async function runTransientUnit(
+  definition: TransientUnitDefinition,
+  scope: ServiceScope = 'system'
+): Promise<ServiceControlResult> {
+  // systemd-run only prints the name it picked, which is lost when pkexec runs it, so one is always passed.
+  const unitId = resolveUnitId(definition.name?.trim() || `run-${Date.now()}`);
+  const args = buildTransientUnitArgs(definition, unitId, scope);
+
+  let elevated: boolean;
+  try {
+    elevated = await execWithElevation('systemd-run', args, scope);
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException & { stderr?: string | Buffer };
+    if (err.code === 'ENOENT') {
+      throw new Error('systemd-run is not installed');
+    }
+    // e.g. `Failed to start transient service unit: Unit migrate.service was already loaded or has a fragment file.`
+    const message = `${err.stderr ?? ''}`.trim().split('\n').pop();
+    throw message ? new Error(message) : error;
+  }
+
+  return { action: 'start', serviceId: unitId, ...(elevated ? { elevated } : {}) };
+}
@@ -0,0 +1,223 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import { promisify } from 'node:util';
+import type {
+  EnvironmentDiffState,
+  EnvironmentEntry,
+  EnvironmentFileInfo,
+  ServiceEnvironment,
+  ServiceInfo,
+  ServiceScope,
+} from '../types/service';
+import { isValidServiceId } from '../utils/validation';
+import { normalizeServiceId, scopeArgs } from './services/linux';
+
+const execFileAsync = promisify(execFile);
+
+export const MASKED_VALUE = '••••••••';
+
+// Names such as DB_PASSWORD, GITHUB_TOKEN, AWS_SECRET_ACCESS_KEY or SESSION_COOKIE.
+const SECRET_NAME_PATTERN = /pass(?:word|wd|phrase)?|secret|token|api_?key|private_?key|access_?key|credential|auth|cookie|session|signature|salt/i;
+// Connection strings with a password, e.g. postgres://app:hunter2@db/app.
+const SECRET_VALUE_PATTERN = /:\/\/[^/\s:@]+:[^/\s@]+@/;
+
+const C_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+
+const ENV_ASSIGNMENT_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s;
+
+function looksSecret(name: string, ...values: Array<string | null>): boolean {
+  return SECRET_NAME_PATTERN.test(name) || values.some((value) => value !== null && SECRET_VALUE_PATTERN.test(value));
+}
+
+/**
+ * Splits a `systemctl show` Environment= value into assignments. Values with
+ * spaces or special characters are double-quoted, with C-style escapes.
+ */
+function splitAssignments(value: string): string[] {
+  const words: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quoted = false;
+
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index];
+    if (char === '\\' && index + 1 < value.length) {
+      const next = value[++index];
+      if (next === 'x' && /^[0-9a-f]{2}$/i.test(value.slice(index + 1, index + 3))) {
+        current += String.fromCharCode(Number.parseInt(value.slice(index + 1, index + 3), 16));
+        index += 2;
+      } else {
+        current += C_ESCAPES[next] ?? next;
+      }
+      inWord = true;
+    } else if (char === '"') {
+      quoted = !quoted;
+      inWord = true;
+    } else if (!quoted && /\s/.test(char)) {
+      if (inWord) words.push(current);
+      current = '';
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+
+  if (inWord) words.push(current);
+  return words;
+}
+
+function toVariables(assignments: Iterable<string>): Map<string, string> {
+  const variables = new Map<string, string>();
+  for (const assignment of assignments) {
+    const match = ENV_ASSIGNMENT_PATTERN.exec(assignment);
+    if (match) {
+      variables.set(match[1], match[2]);
+    }
+  }
+  return variables;
+}
+
+/** Reads an EnvironmentFile: `KEY=value` lines, `#` and `;` comments, values optionally quoted. */
+async function readEnvironmentFile(filePath: string): Promise<Map<string, string> | null> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+
+  const variables = new Map<string, string>();
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+    const match = ENV_ASSIGNMENT_PATTERN.exec(line);
+    if (!match) continue;
+    const quoted = /^(["'])(.*)\1$/s.exec(match[2].trim());
+    variables.set(match[1], quoted ? quoted[2] : match[2].trim());
+  }
+  return variables;
+}
+
+async function readLiveEnvironment(pid: number): Promise<{ variables: Map<string, string> | null; error: string | null }> {
+  try {
+    const content = await fs.promises.readFile(`/proc/${pid}/environ`, 'utf8');
+    return { variables: toVariables(content.split('\0').filter(Boolean)), error: null };
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'EACCES' || code === 'EPERM') {
+      return { variables: null, error: "Permission denied; only root can read another user's process environment" };
+    }
+    if (code === 'ENOENT') {
+      return { variables: null, error: 'The main process has exited' };
+    }
+    throw error;
+  }
+}
+
+function compare(configured: string | null, live: string | null, liveKnown: boolean): EnvironmentDiffState {
+  if (!liveKnown) return 'configured-only';
+  if (configured === null) return 'live-only';
+  if (live === null) return 'configured-only';
+  return configured === live ? 'same' : 'changed';
+}
+
+/**
+ * Reads a unit's `Environment=` and `EnvironmentFile=` settings and, while it
+ * runs, its main process's environment from /proc/<pid>/environ, and lines
+ * them up by name. Values of secret-looking variables are masked unless
+ * `reveal` is set.
+ */
+export async function getServiceEnvironment(
+  serviceId: string,
+  scope: ServiceScope = 'system',
+  reveal = false
+): Promise<ServiceEnvironment> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  const unitId = normalizeServiceId(serviceId);
+  const { stdout } = await execFileAsync(
+    'systemctl',
+    [...scopeArgs(scope), 'show', unitId, '--no-pager', '--property=Environment,EnvironmentFiles,MainPID'],
+    { encoding: 'utf8', env: { ...process.env, LANG: 'C', LC_ALL: 'C' } }
+  );
+
+  let assignments = new Map<string, string>();
+  const files: EnvironmentFileInfo[] = [];
+  let pid: number | null = null;
+  for (const line of stdout.split('\n')) {
+    const separatorIndex = line.indexOf('=');
+    if (separatorIndex === -1) continue;
+    const key = line.slice(0, separatorIndex);
+    const value = line.slice(separatorIndex + 1).trim();
+    if (key === 'Environment') {
+      assignments = toVariables(splitAssignments(value));
+    } else if (key === 'EnvironmentFiles' && value) {
+      // One line per file, e.g. `EnvironmentFiles=/etc/default/ssh (ignore_errors=yes)`.
+      const match = /^(.*?)\s+\(ignore_errors=(yes|no)\)$/.exec(value);
+      files.push({ path: match ? match[1] : value, optional: match?.[2] === 'yes', readable: false });
+    } else if (key === 'MainPID') {
+      const mainPid = Number.parseInt(value, 10);
+      pid = Number.isInteger(mainPid) && mainPid > 0 ? mainPid : null;
+    }
+  }
+
+  // Files are applied after Environment=, in order, each overriding what came before.
+  const configured = new Map<string, { value: string; source: string }>();
+  for (const [name, value] of assignments) {
+    configured.set(name, { value, source: 'Environment=' });
+  }
+  for (const file of files) {
+    const variables = await readEnvironmentFile(file.path);
+    file.readable = variables !== null;
+    for (const [name, value] of variables ?? []) {
+      configured.set(name, { value, source: file.path });
+    }
+  }
+
+  const { variables: live, error: liveError } = pid
+    ? await readLiveEnvironment(pid)
+    : { variables: null, error: 'The service is not running' };
+
+  const names = new Set([...configured.keys(), ...(live?.keys() ?? [])]);
+  const entries: EnvironmentEntry[] = [...names].sort().map((name) => {
+    const configuredValue = configured.get(name)?.value ?? null;
+    const liveValue = live?.get(name) ?? null;
+    const masked = !reveal && looksSecret(name, configuredValue, liveValue);
+    const hide = (value: string | null) => (masked && value !== null ? MASKED_VALUE : value);
+    return {
+      name,
+      configured: hide(configuredValue),
+      source: configured.get(name)?.source ?? null,
+      live: hide(liveValue),
+      state: compare(configuredValue, liveValue, live !== null),
+      masked,
+    };
+  });
+
+  return {
+    unitId,
+    entries,
+    files,
+    assignments: Object.fromEntries(
+      [...assignments].map(([name, value]) => [name, !reveal && looksSecret(name, value) ? MASKED_VALUE : value])
+    ),
+    pid,
+    liveUnavailable: live ? null : liveError,
+  };
+}
+
+/** Adds the masked environment to a local service's details; left out when it cannot be read. */
+export async function annotateEnvironment(service: ServiceInfo, scope: ServiceScope = 'system'): Promise<ServiceInfo> {
+  if ((service.unitType ?? 'service') !== 'service') {
+    return service;
+  }
+  try {
+    return { ...service, environment: await getServiceEnvironment(service.id, scope) };
+  } catch (error) {
+    console.warn(`[ENV] Failed to read the environment of ${service.id}:`, error);
+    return service;
+  }
+}
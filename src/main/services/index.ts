@@ -1,55 +1,343 @@
+import fs from 'node:fs';
 import os from 'node:os';
 
 import type {
   ServiceAction,
+  ServiceActionOptions,
   ServiceControlResult,
+  ServiceEvent,
   ServiceInfo,
   ServiceListFilters,
+  ServiceProviderKind,
+  ServiceScope,
+  TimerInfo,
+  UnitDependencies,
 } from '../../types/service';
 import * as linuxProvider from './linux';
 import * as macProvider from './macos';
+import * as openrcProvider from './openrc';
+import * as runitProvider from './runit';
+import * as s6Provider from './s6';
+import * as sysvProvider from './sysv';
+import * as systemdDbusProvider from './systemdDbus';
 import * as windowsProvider from './windows';
 
 type ServiceProvider = {
   listServices(filters?: ServiceListFilters): Promise<ServiceInfo[]>;
-  controlService?(serviceId: string, action: ServiceAction): Promise<ServiceControlResult>;
-  getServiceDetails?(serviceId: string): Promise<ServiceInfo | null>;
+  controlService?(
+    serviceId: string,
+    action: ServiceAction,
+    scope?: ServiceScope,
+    options?: ServiceActionOptions
+  ): Promise<ServiceControlResult>;
+  getServiceDetails?(serviceId: string, scope?: ServiceScope): Promise<ServiceInfo | null>;
+  listTimers?(scope?: ServiceScope): Promise<TimerInfo[]>;
+  getUnitDependencies?(serviceId: string, scope?: ServiceScope): Promise<UnitDependencies>;
+  watchServices?(listener: ServiceEventListener, scope?: ServiceScope): Promise<() => void>;
 };
 
+type ServiceEventListener = (event: ServiceEvent) => void;
+
+function errorCode(error: unknown): string | number | undefined {
+  return error && typeof error === 'object' ? (error as NodeJS.ErrnoException).code : undefined;
+}
+
+/**
+ * Prefers the D-Bus provider on Linux. When a bus cannot be reached the
+ * systemctl parser takes over for that scope for the rest of the session;
+ * polkit denials on the bus are retried through systemctl so the pkexec path
+ * still applies.
+ */
+function createLinuxProvider(): Required<ServiceProvider> {
+  if (process.env.SERVICE_MANAGER_SYSTEMD_BACKEND === 'systemctl') {
+    return linuxProvider;
+  }
+
+  const unavailableScopes = new Set<ServiceScope>();
+
+  async function run<T>(
+    scope: ServiceScope,
+    viaBus: () => Promise<T>,
+    viaSystemctl: () => Promise<T>
+  ): Promise<T> {
+    if (unavailableScopes.has(scope)) {
+      return viaSystemctl();
+    }
+    try {
+      return await viaBus();
+    } catch (error) {
+      if (errorCode(error) === 'DBUS_UNAVAILABLE') {
+        console.warn(`[SERVICES] ${scope} bus unavailable, falling back to systemctl:`, (error as Error).message);
+        unavailableScopes.add(scope);
+        systemdDbusProvider.disconnect(scope);
+        return viaSystemctl();
+      }
+      throw error;
+    }
+  }
+
+  return {
+    listServices: (filters = {}) =>
+      run(
+        filters.scope ?? 'system',
+        () => systemdDbusProvider.listServices(filters),
+        () => linuxProvider.listServices(filters)
+      ),
+    controlService: (serviceId, action, scope = 'system', options = {}) =>
+      run(
+        scope,
+        async () => {
+          try {
+            return await systemdDbusProvider.controlService(serviceId, action, scope, options);
+          } catch (error) {
+            if (errorCode(error) === 'EACCES') {
+              return linuxProvider.controlService(serviceId, action, scope, options);
+            }
+            throw error;
+          }
+        },
+        () => linuxProvider.controlService(serviceId, action, scope, options)
+      ),
+    getServiceDetails: (serviceId, scope = 'system') =>
+      run(
+        scope,
+        () => systemdDbusProvider.getServiceDetails(serviceId, scope),
+        () => linuxProvider.getServiceDetails(serviceId, scope)
+      ),
+    listTimers: (scope = 'system') =>
+      run(
+        scope,
+        () => systemdDbusProvider.listTimers(scope),
+        () => linuxProvider.listTimers(scope)
+      ),
+    getUnitDependencies: (serviceId, scope = 'system') =>
+      run(
+        scope,
+        () => systemdDbusProvider.getUnitDependencies(serviceId, scope),
+        () => linuxProvider.getUnitDependencies(serviceId, scope)
+      ),
+    watchServices: (listener, scope = 'system') =>
+      run(
+        scope,
+        () => systemdDbusProvider.watchServices(listener, scope),
+        () => linuxProvider.watchServices(listener, scope)
+      ),
+  };
+}
+
+const LINUX_INIT_SYSTEMS: ReadonlyArray<ServiceProviderKind> = ['systemd', 'openrc', 'runit', 's6', 'sysv'];
+
+/**
+ * Picks the Linux init system: systemd creates /run/systemd/system when it
+ * boots the machine (see sd_booted(3)), OpenRC keeps its state in /run/openrc,
+ * runit in /run/runit, and s6-overlay and s6-rc in /run/s6 and /run/s6-rc.
+ * Without any of them, systemd is assumed; see withSysvFallback for what
+ * happens when it is not there. SERVICE_MANAGER_INIT overrides the detection, e.g.
+ * for a container whose runsvdir was started without runit as PID 1.
+ */
+function detectLinuxInitSystem(): ServiceProviderKind {
+  const forced = process.env.SERVICE_MANAGER_INIT as ServiceProviderKind | undefined;
+  if (forced && LINUX_INIT_SYSTEMS.includes(forced)) {
+    return forced;
+  }
+  if (fs.existsSync('/run/systemd/system')) {
+    return 'systemd';
+  }
+  if (fs.existsSync('/run/openrc')) {
+    return 'openrc';
+  }
+  if (fs.existsSync('/run/runit')) {
+    return 'runit';
+  }
+  if (fs.existsSync('/run/s6') || fs.existsSync('/run/s6-rc')) {
+    return 's6';
+  }
+  return 'systemd';
+}
+
+let providerKind: ServiceProviderKind =
+  process.platform === 'win32' ? 'win32-service' : process.platform === 'darwin' ? 'launchd' : detectLinuxInitSystem();
+
+/**
+ * Legacy machines booted with SysV init have none of the markers above. The
+ * first call that finds systemd missing (NO_SYSTEMD) switches the session to
+ * the /etc/init.d provider and is retried there; without /etc/init.d the
+ * error reaches the user as before. Init scripts have no timers and no change
+ * feed, so those calls come back empty once the switch is made.
+ */
+function withSysvFallback(systemd: Required<ServiceProvider>): ServiceProvider {
+  async function run<T>(viaSystemd: () => Promise<T>, viaSysv: () => Promise<T>): Promise<T> {
+    if (providerKind === 'sysv') {
+      return viaSysv();
+    }
+    try {
+      return await viaSystemd();
+    } catch (error) {
+      if (errorCode(error) === 'NO_SYSTEMD' && fs.existsSync('/etc/init.d')) {
+        console.warn('[SERVICES] systemd is not running, falling back to SysV init scripts');
+        providerKind = 'sysv';
+        return viaSysv();
+      }
+      throw error;
+    }
+  }
+
+  return {
+    listServices: (filters = {}) =>
+      run(
+        () => systemd.listServices(filters),
+        () => sysvProvider.listServices(filters)
+      ),
+    controlService: (serviceId, action, scope = 'system', options = {}) =>
+      run(
+        () => systemd.controlService(serviceId, action, scope, options),
+        () => sysvProvider.controlService(serviceId, action)
+      ),
+    getServiceDetails: (serviceId, scope = 'system') =>
+      run(
+        () => systemd.getServiceDetails(serviceId, scope),
+        () => sysvProvider.getServiceDetails(serviceId)
+      ),
+    listTimers: (scope = 'system') =>
+      run(
+        () => systemd.listTimers(scope),
+        async () => []
+      ),
+    getUnitDependencies: (serviceId, scope = 'system') =>
+      run(
+        () => systemd.getUnitDependencies(serviceId, scope),
+        () => sysvProvider.getUnitDependencies(serviceId)
+      ),
+    watchServices: (listener, scope = 'system') =>
+      run(
+        () => systemd.watchServices(listener, scope),
+        async () => () => undefined
+      ),
+  };
+}
+
 function loadProvider(): ServiceProvider {
-  switch (process.platform) {
-    case 'win32':
+  switch (providerKind) {
+    case 'win32-service':
       return windowsProvider;
-    case 'darwin':
+    case 'launchd':
       return macProvider;
-    case 'linux':
+    case 'openrc':
+      return openrcProvider;
+    case 'runit':
+      return runitProvider;
+    case 's6':
+      return s6Provider;
+    case 'sysv':
+      return sysvProvider;
+    case 'systemd':
     default:
-      return linuxProvider;
+      return withSysvFallback(createLinuxProvider());
   }
 }
 
 const provider: ServiceProvider = loadProvider();
 
+/** The service manager this machine's services come from. */
+export function getServiceProvider(): ServiceProviderKind {
+  return providerKind;
+}
+
+/** Whether the local services are systemd units, which the unit-level tools (timers, boot, limits, ...) need. */
+export function usesSystemd(): boolean {
+  return providerKind === 'systemd';
+}
+
+/** Only the systemd providers distinguish between system and user units. */
+export function supportsUserScope(): boolean {
+  return usesSystemd();
+}
+
+/**
+ * Calls that name a host (here and in controlService and getServiceDetails)
+ * go to the systemctl parser over ssh whatever the local platform: remote
+ * hosts are always systemd machines. Calls that name a local container
+ * machine go to the same parser with `--machine`.
+ */
 export async function listServices(filters: ServiceListFilters = {}): Promise<ServiceInfo[]> {
+  if (filters.host || filters.machine) {
+    return linuxProvider.listServices(filters);
+  }
   return provider.listServices(filters);
 }
 
 export async function controlService(
   serviceId: string,
-  action: ServiceAction
+  action: ServiceAction,
+  scope: ServiceScope = 'system',
+  options: ServiceActionOptions = {},
+  host?: string,
+  machine?: string
 ): Promise<ServiceControlResult> {
+  if (host || machine) {
+    return linuxProvider.controlService(serviceId, action, scope, options, host, machine);
+  }
   if (!provider.controlService) {
     throw new Error(`Service control is not available on ${os.type()}`);
   }
-  return provider.controlService(serviceId, action);
+  return provider.controlService(serviceId, action, scope, options);
 }
 
-export async function getServiceDetails(serviceId: string): Promise<ServiceInfo | null> {
+export async function getServiceDetails(
+  serviceId: string,
+  scope: ServiceScope = 'system',
+  host?: string,
+  machine?: string
+): Promise<ServiceInfo | null> {
+  if (host || machine) {
+    return linuxProvider.getServiceDetails(serviceId, scope, host, machine);
+  }
   if (provider.getServiceDetails) {
-    return provider.getServiceDetails(serviceId);
+    return provider.getServiceDetails(serviceId, scope);
   }
 
-  const services = await provider.listServices({ serviceId });
+  const services = await provider.listServices({ serviceId, scope });
   return services.find((item) => item.id === serviceId || item.name === serviceId) ?? null;
 }
 
+export async function listTimers(scope: ServiceScope = 'system'): Promise<TimerInfo[]> {
+  if (!provider.listTimers) {
+    throw new Error(`Timers are not available on ${os.type()}`);
+  }
+  return provider.listTimers(scope);
+}
+
+export async function getUnitDependencies(serviceId: string, scope: ServiceScope = 'system'): Promise<UnitDependencies> {
+  if (!provider.getUnitDependencies) {
+    throw new Error(`Unit dependencies are not available on ${os.type()}`);
+  }
+  return provider.getUnitDependencies(serviceId, scope);
+}
+
+/**
+ * Starts pushing per-unit change events to `listener`. Resolves with an
+ * unsubscribe function; providers without a change feed resolve with a no-op.
+ */
+export async function watchServices(listener: ServiceEventListener, scope: ServiceScope = 'system'): Promise<() => void> {
+  if (!provider.watchServices) {
+    return () => undefined;
+  }
+  return provider.watchServices(listener, scope);
+}
+
+/**
+ * Calls `listener` whenever a local systemd unit changes or one of its jobs
+ * finishes. Resolves with null when there is no change feed (no systemd, the
+ * systemctl backend, or an unreachable bus), in which case callers poll.
+ */
+export async function watchUnit(unitId: string, listener: () => void, scope: ServiceScope = 'system'): Promise<(() => void) | null> {
+  if (!usesSystemd() || process.env.SERVICE_MANAGER_SYSTEMD_BACKEND === 'systemctl') {
+    return null;
+  }
+  try {
+    return await systemdDbusProvider.watchUnit(unitId, listener, scope);
+  } catch (error) {
+    console.warn(`[SERVICES] Cannot watch ${unitId} over D-Bus, polling instead:`, (error as Error).message);
+    return null;
+  }
+}
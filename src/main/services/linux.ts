@@ -1,13 +1,23 @@
-import { execFile, type ExecFileOptions } from 'node:child_process';
+import { execFile, spawn, type ExecFileOptions } from 'node:child_process';
+import readline from 'node:readline';
 import { promisify } from 'node:util';
 
 import type {
   ServiceAction,
+  ServiceActionOptions,
   ServiceControlResult,
+  ServiceEvent,
   ServiceInfo,
   ServiceListFilters,
+  ServiceResourceUsage,
+  ServiceScope,
+  TimerInfo,
+  UnitDependencies,
+  DependencyKind,
+  UnitType,
 } from '../../types/service';
-import { isValidServiceId } from '../../utils/validation';
+import { isValidKillSignal, isValidServiceId } from '../../utils/validation';
+import { execFileOnHost } from './remote';
 
 type ExecError = NodeJS.ErrnoException & {
   stdout?: string | Buffer;
@@ -16,6 +26,9 @@ type ExecError = NodeJS.ErrnoException & {
 
 interface ParseOptions {
   single?: boolean;
+  scope?: ServiceScope;
+  host?: string;
+  machine?: string;
 }
 
 type ExecFileAsync = (
@@ -36,28 +49,161 @@ const EXEC_OPTIONS = {
   },
 };
 
-const SUPPORTED_ACTIONS: ReadonlySet<ServiceAction> = new Set(['start', 'stop', 'restart', 'enable', 'disable']);
+const SUPPORTED_ACTIONS: ReadonlySet<ServiceAction> = new Set([
+  'start',
+  'stop',
+  'restart',
+  'enable',
+  'disable',
+  'reload',
+  'reload-or-restart',
+  'try-restart',
+  'mask',
+  'unmask',
+  'reset-failed',
+  'kill',
+  'enable-now',
+  'disable-now',
+]);
+
+const WATCH_DEBOUNCE_MS = 500;
+
+export const UNIT_TYPES: ReadonlyArray<UnitType> = ['service', 'timer', 'socket', 'path', 'mount', 'target'];
+
+const LIST_PROPERTIES =
+  'Id,Description,ExecStart,UnitFileState,ActiveState,SubState,FragmentPath,MainPID,CanStart,CanStop,CanReload,' +
+  'CPUUsageNSec,MemoryCurrent,TasksCurrent,IOReadBytes,IOWriteBytes,ControlGroup,NRestarts';
+
+// systemd reports unset uint64 counters as UINT64_MAX over D-Bus.
+const UNSET_COUNTER = '18446744073709551615';
+
+/**
+ * Extra properties read for the details view, per unit type. They end up in
+ * ServiceInfo.unitProperties under the same names.
+ */
+export const TYPE_DETAIL_PROPERTIES: Readonly<Record<UnitType, ReadonlyArray<string>>> = {
+  service: ['Type', 'Restart', 'User'],
+  timer: ['Triggers', 'TimersCalendar', 'TimersMonotonic', 'NextElapseUSecRealtime', 'LastTriggerUSec', 'Persistent'],
+  socket: ['Listen', 'Accept', 'NConnections', 'Triggers'],
+  path: ['Paths', 'Triggers'],
+  mount: ['What', 'Where', 'Type', 'Options'],
+  target: ['Wants', 'Requires'],
+};
 
-export async function listServices({ search, status }: ServiceListFilters = {}): Promise<ServiceInfo[]> {
+export const DEPENDENCY_KINDS: ReadonlyArray<DependencyKind> = [
+  'Requires',
+  'Requisite',
+  'Wants',
+  'BindsTo',
+  'PartOf',
+  'RequiredBy',
+  'RequisiteOf',
+  'WantedBy',
+  'BoundBy',
+  'ConsistsOf',
+  'After',
+  'Before',
+];
+
+// Every unit type systemd knows; dependency lists may name any of them.
+const SYSTEMD_UNIT_SUFFIX = /\.(service|socket|device|mount|automount|swap|target|path|timer|slice|scope)$/;
+
+// Unit file states that `systemctl enable/disable` cannot change.
+const FIXED_UNIT_FILE_STATES: ReadonlySet<string> = new Set(['static', 'masked', 'masked-runtime', 'generated', 'transient']);
+
+export async function listServices({
+  search,
+  status,
+  scope = 'system',
+  unitType,
+  host,
+  machine,
+}: ServiceListFilters = {}): Promise<ServiceInfo[]> {
+  const types = unitType && unitType !== 'all' ? unitType : UNIT_TYPES.join(',');
   const showArgs = [
+    ...scopeArgs(scope, machine),
     'show',
-    '--type=service',
+    `--type=${types}`,
     '--all',
     '--no-pager',
-    '--property=Id,Description,ExecStart,UnitFileState,ActiveState,SubState,FragmentPath,MainPID',
+    `--property=${LIST_PROPERTIES}`,
   ];
 
   let stdout: string;
   try {
-    ({ stdout } = await execFileAsync('systemctl', showArgs, EXEC_OPTIONS));
+    ({ stdout } = await execFileOnHost(host, 'systemctl', showArgs, EXEC_OPTIONS));
   } catch (error) {
     handleSystemctlError(error);
     throw error;
   }
-  const services = parseSystemctlShow(stdout);
+  const services = parseSystemctlShow(stdout, { scope, host, machine });
+
+  return filterServices(services, { search, status, unitType });
+}
+
+/**
+ * Lists every timer with its schedule. Runs with TZ=UTC so the timestamps
+ * `systemctl show` prints can be parsed back without knowing the local zone.
+ */
+export async function listTimers(scope: ServiceScope = 'system'): Promise<TimerInfo[]> {
+  const showArgs = [
+    ...scopeArgs(scope),
+    'show',
+    '--type=timer',
+    '--all',
+    '--no-pager',
+    '--property=Id,Description,ActiveState,SubState,Unit,TimersCalendar,NextElapseUSecRealtime,LastTriggerUSec,Persistent',
+  ];
 
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync('systemctl', showArgs, {
+      ...EXEC_OPTIONS,
+      env: { ...EXEC_OPTIONS.env, TZ: 'UTC' },
+    }));
+  } catch (error) {
+    handleSystemctlError(error);
+    throw error;
+  }
+
+  return parseShowBlocks(stdout)
+    .filter((parsed) => parsed.Id?.endsWith('.timer'))
+    .map((parsed) => ({
+      id: parsed.Id,
+      description: parsed.Description || '',
+      scope,
+      status: normaliseStatus(parsed.ActiveState, parsed.SubState),
+      unit: parsed.Unit || parsed.Id.replace(/\.timer$/, '.service'),
+      onCalendar: Array.from((parsed.TimersCalendar || '').matchAll(/OnCalendar=(.+?) ;/g), (match) => match[1]),
+      persistent: parsed.Persistent === 'yes',
+      nextElapse: parseUtcTimestamp(parsed.NextElapseUSecRealtime),
+      lastTrigger: parseUtcTimestamp(parsed.LastTriggerUSec),
+    }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/** Parses `Mon 2025-10-20 00:00:00 UTC` as printed under TZ=UTC; empty or `n/a` yields null. */
+function parseUtcTimestamp(value?: string): number | null {
+  const match = value?.match(/(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})/);
+  if (!match) return null;
+  const millis = Date.parse(`${match[1]}T${match[2]}Z`);
+  return Number.isNaN(millis) ? null : millis;
+}
+
+/**
+ * Applies the list filters shared by every systemd backend and returns the
+ * result sorted by name.
+ */
+export function filterServices(
+  services: ServiceInfo[],
+  { search, status, unitType }: ServiceListFilters = {}
+): ServiceInfo[] {
   let filtered = services;
 
+  if (unitType && unitType !== 'all') {
+    filtered = filtered.filter((item) => item.unitType === unitType);
+  }
+
   if (search) {
     const query = search.toLowerCase();
     filtered = filtered.filter(
@@ -75,7 +221,14 @@ export async function listServices({ search, status }: ServiceListFilters = {}):
   return filtered.sort((a, b) => a.name.localeCompare(b.name));
 }
 
-export async function controlService(serviceId: string, action: ServiceAction): Promise<ServiceControlResult> {
+export async function controlService(
+  serviceId: string,
+  action: ServiceAction,
+  scope: ServiceScope = 'system',
+  options: ServiceActionOptions = {},
+  host?: string,
+  machine?: string
+): Promise<ServiceControlResult> {
   if (!isValidServiceId(serviceId)) {
     throw new Error(`Invalid service identifier: ${serviceId}`);
   }
@@ -85,46 +238,227 @@ export async function controlService(serviceId: string, action: ServiceAction):
   }
 
   const unit = normalizeServiceId(serviceId);
+  const elevated = await execWithElevation(
+    'systemctl',
+    [...scopeArgs(scope, machine), ...buildActionArgs(action, unit, options)],
+    scope,
+    host
+  );
+  return {
+    action,
+    serviceId: unit,
+    ...(elevated ? { elevated } : {}),
+    domain: scope,
+    ...(host ? { host } : {}),
+    ...(machine ? { machine } : {}),
+  };
+}
+
+function buildActionArgs(action: ServiceAction, unit: string, options: ServiceActionOptions): string[] {
+  switch (action) {
+    case 'kill': {
+      const signal = options.signal ?? 'SIGTERM';
+      if (!isValidKillSignal(signal)) {
+        throw new Error(`Unsupported signal: ${signal}`);
+      }
+      // --kill-who is the spelling every systemd release accepts.
+      return ['kill', `--signal=${signal}`, `--kill-who=${options.killWhom === 'main' ? 'main' : 'all'}`, unit];
+    }
+    case 'enable-now':
+      return ['enable', '--now', unit];
+    case 'disable-now':
+      return ['disable', '--now', unit];
+    default:
+      return [action, unit];
+  }
+}
+
+/**
+ * Runs `file args`, retrying through pkexec when a system-scope call is refused
+ * for lack of privileges. Resolves with whether elevation was needed. The user
+ * manager never needs root; elevating would target root's own user instance.
+ * On a remote host the retry goes through `sudo -n` instead, as there is no
+ * polkit agent at the other end of an ssh session.
+ */
+export async function execWithElevation(
+  file: string,
+  args: ReadonlyArray<string>,
+  scope: ServiceScope = 'system',
+  host?: string
+): Promise<boolean> {
   try {
-    await execFileAsync('systemctl', [action, unit], EXEC_OPTIONS);
-    return { action, serviceId: unit };
+    await execFileOnHost(host, file, args, EXEC_OPTIONS);
+    return false;
   } catch (error) {
-    if (shouldRetryWithPkexec(error)) {
-      try {
-        await execFileAsync('pkexec', ['systemctl', action, unit], EXEC_OPTIONS);
-        return { action, serviceId: unit, elevated: true };
-      } catch (pkexecError) {
-        throw pkexecError;
+    if (scope === 'system' && shouldRetryWithPkexec(error)) {
+      if (host) {
+        await execFileOnHost(host, 'sudo', ['-n', file, ...args], EXEC_OPTIONS);
+      } else {
+        await execFileAsync('pkexec', [file, ...args], EXEC_OPTIONS);
       }
+      return true;
     }
     throw error;
   }
 }
 
-export async function getServiceDetails(serviceId: string): Promise<ServiceInfo | null> {
+export async function daemonReload(scope: ServiceScope = 'system'): Promise<boolean> {
+  return execWithElevation('systemctl', [...scopeArgs(scope), 'daemon-reload'], scope);
+}
+
+export async function getServiceDetails(
+  serviceId: string,
+  scope: ServiceScope = 'system',
+  host?: string,
+  machine?: string
+): Promise<ServiceInfo | null> {
   if (!isValidServiceId(serviceId)) {
     throw new Error(`Invalid service identifier: ${serviceId}`);
   }
 
   const unit = normalizeServiceId(serviceId);
+  const typeProperties = TYPE_DETAIL_PROPERTIES[unitTypeOf(unit) ?? 'service'];
   const args = [
+    ...scopeArgs(scope, machine),
     'show',
     unit,
     '--no-pager',
-    '--property=Id,Description,ExecStart,UnitFileState,ActiveState,SubState,FragmentPath,MainPID,LoadState',
+    `--property=${LIST_PROPERTIES},LoadState,${typeProperties.join(',')}`,
   ];
 
   let stdout: string;
   try {
-    ({ stdout } = await execFileAsync('systemctl', args, EXEC_OPTIONS));
+    ({ stdout } = await execFileOnHost(host, 'systemctl', args, EXEC_OPTIONS));
   } catch (error) {
     handleSystemctlError(error);
     throw error;
   }
-  const [service] = parseSystemctlShow(stdout, { single: true });
+  const [service] = parseSystemctlShow(stdout, { single: true, scope, host, machine });
   return service || null;
 }
 
+export async function getUnitDependencies(serviceId: string, scope: ServiceScope = 'system'): Promise<UnitDependencies> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  const unit = normalizeUnitName(serviceId);
+  const args = [
+    ...scopeArgs(scope),
+    'show',
+    unit,
+    '--no-pager',
+    `--property=Id,Description,ActiveState,SubState,${DEPENDENCY_KINDS.join(',')}`,
+  ];
+
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync('systemctl', args, EXEC_OPTIONS));
+  } catch (error) {
+    handleSystemctlError(error);
+    throw error;
+  }
+
+  const [parsed = {}] = parseShowBlocks(stdout);
+  return buildUnitDependencies(parsed, unit, scope);
+}
+
+/**
+ * Builds UnitDependencies from `systemctl show`-style properties where each
+ * dependency list is a space-separated string. Shared with the D-Bus provider.
+ */
+export function buildUnitDependencies(
+  parsed: Record<string, string>,
+  unitId: string,
+  scope: ServiceScope = 'system'
+): UnitDependencies {
+  const dependencies = {} as Record<DependencyKind, string[]>;
+  for (const kind of DEPENDENCY_KINDS) {
+    dependencies[kind] = (parsed[kind] || '').split(/\s+/).filter(Boolean).sort();
+  }
+
+  return {
+    unitId: parsed.Id || unitId,
+    description: parsed.Description || '',
+    scope,
+    status: normaliseStatus(parsed.ActiveState, parsed.SubState),
+    dependencies,
+  };
+}
+
+/**
+ * Fallback change feed for hosts without a usable bus: follows the journal
+ * entries the service manager writes for unit state transitions and re-reads
+ * each unit it mentions. PID 1 tags them with UNIT, the user manager with
+ * USER_UNIT.
+ */
+export async function watchServices(
+  listener: (event: ServiceEvent) => void,
+  scope: ServiceScope = 'system'
+): Promise<() => void> {
+  const journalArgs =
+    scope === 'user'
+      ? ['--user', '--follow', '--lines=0', '--output=json']
+      : ['--follow', '--lines=0', '--output=json', '_PID=1'];
+  const unitField = scope === 'user' ? 'USER_UNIT' : 'UNIT';
+
+  const child = spawn('journalctl', journalArgs, {
+    env: EXEC_OPTIONS.env,
+    stdio: ['ignore', 'pipe', 'ignore'],
+  });
+  const pending = new Map<string, NodeJS.Timeout>();
+
+  const emitUnit = async (unit: string): Promise<void> => {
+    try {
+      const service = await getServiceDetails(unit, scope);
+      if (!service || service.loadState === 'not-found') {
+        listener({ type: 'removed', serviceId: unit, scope, timestamp: Date.now() });
+      } else {
+        listener({ type: 'changed', serviceId: service.id, scope, service, timestamp: Date.now() });
+      }
+    } catch (error) {
+      console.warn(`[SYSTEMD] Failed to refresh ${unit} after journal event:`, error);
+    }
+  };
+
+  const lines = readline.createInterface({ input: child.stdout });
+  lines.on('line', (line) => {
+    let unit: unknown;
+    try {
+      unit = (JSON.parse(line) as Record<string, unknown>)[unitField];
+    } catch {
+      return;
+    }
+    if (typeof unit !== 'string' || !unitTypeOf(unit) || !isValidServiceId(unit)) return;
+
+    const existing = pending.get(unit);
+    if (existing) clearTimeout(existing);
+    pending.set(
+      unit,
+      setTimeout(() => {
+        pending.delete(unit);
+        void emitUnit(unit);
+      }, WATCH_DEBOUNCE_MS)
+    );
+  });
+
+  child.on('error', (error) => {
+    console.warn('[SYSTEMD] journalctl watch unavailable:', error.message);
+  });
+
+  return () => {
+    lines.close();
+    pending.forEach((timer) => clearTimeout(timer));
+    pending.clear();
+    child.kill();
+  };
+}
+
+/** `machine` targets a local container through systemd-machined; only its system manager is reachable this way. */
+export function scopeArgs(scope: ServiceScope = 'system', machine?: string): string[] {
+  return [...(scope === 'user' ? ['--user'] : []), ...(machine ? [`--machine=${machine}`] : [])];
+}
+
 function shouldRetryWithPkexec(error: unknown): boolean {
   if (!error || typeof error !== 'object') return false;
   const err = error as ExecError;
@@ -136,7 +470,8 @@ function shouldRetryWithPkexec(error: unknown): boolean {
     message.includes('access denied') ||
     message.includes('authentication is required') ||
     message.includes('Authentication is required') ||
-    message.includes('interactive authentication required')
+    message.includes('interactive authentication required') ||
+    message.includes('Permission denied')
   );
 }
 
@@ -165,65 +500,69 @@ function handleSystemctlError(error: unknown): void {
   }
 }
 
-function normalizeServiceId(value: string): string {
-  if (value.includes('/') || value.includes('\\')) {
+/** Returns the unit type named by an id's suffix, or null for unsupported kinds. */
+export function unitTypeOf(unitId: string): UnitType | null {
+  const suffix = unitId.slice(unitId.lastIndexOf('.') + 1);
+  return (UNIT_TYPES as ReadonlyArray<string>).includes(suffix) ? (suffix as UnitType) : null;
+}
+
+function assertNoPathSeparators(value: string): void {
+  // Backslashes are only allowed as systemd's \xNN escapes (e.g. `home-a\x2db.mount`).
+  if (value.includes('/') || /\\(?!x[0-9a-fA-F]{2})/.test(value)) {
     throw new Error('Invalid service identifier: contains path separators');
   }
+}
+
+export function normalizeServiceId(value: string): string {
+  assertNoPathSeparators(value);
 
-  if (!value.endsWith('.service')) {
+  if (!unitTypeOf(value)) {
     return `${value}.service`;
   }
   return value;
 }
 
-function parseSystemctlShow(output: string, { single = false }: ParseOptions = {}): ServiceInfo[] {
-  const chunks = output
+/**
+ * Like normalizeServiceId, but keeps names of unit types the table does not
+ * list (slices, devices, scopes...) so dependency lists can be walked.
+ */
+export function normalizeUnitName(value: string): string {
+  if (!SYSTEMD_UNIT_SUFFIX.test(value)) {
+    return normalizeServiceId(value);
+  }
+  assertNoPathSeparators(value);
+  return value;
+}
+
+export function parseShowBlocks(output: string): Record<string, string>[] {
+  return output
     .split(/\n{2,}/)
     .map((block) => block.trim())
-    .filter(Boolean);
+    .filter(Boolean)
+    .map((block) => {
+      const parsed: Record<string, string> = {};
+      for (const line of block.split('\n')) {
+        const separatorIndex = line.indexOf('=');
+        if (separatorIndex === -1) continue;
+        const key = line.slice(0, separatorIndex);
+        const value = line.slice(separatorIndex + 1).trim();
+        parsed[key] = value;
+      }
+      return parsed;
+    });
+}
 
+function parseSystemctlShow(
+  output: string,
+  { single = false, scope = 'system', host, machine }: ParseOptions = {}
+): ServiceInfo[] {
   const results: ServiceInfo[] = [];
 
-  for (const block of chunks) {
-    const parsed: Record<string, string> = {};
-    for (const line of block.split('\n')) {
-      const separatorIndex = line.indexOf('=');
-      if (separatorIndex === -1) continue;
-      const key = line.slice(0, separatorIndex);
-      const value = line.slice(separatorIndex + 1).trim();
-      parsed[key] = value;
+  for (const parsed of parseShowBlocks(output)) {
+    const service = buildServiceInfo(parsed, scope);
+    if (service) {
+      results.push({ ...service, ...(host ? { host } : {}), ...(machine ? { machine } : {}) });
     }
-
-    if (!parsed.Id || !parsed.Id.endsWith('.service')) {
-      continue;
-    }
-
-    const status = normaliseStatus(parsed.ActiveState, parsed.SubState);
-    const execPath = extractExecutable(parsed.ExecStart);
-
-    const unitFileState = parsed.UnitFileState || 'disabled';
-    const isEnabled = unitFileState === 'enabled' || unitFileState === 'static';
-    const canBeDisabled = unitFileState !== 'static' && unitFileState !== 'masked';
-
-    results.push({
-      id: parsed.Id,
-      name: parsed.Id.replace(/\.service$/, ''),
-      description: parsed.Description || '',
-      status,
-      statusLabel: buildStatusLabel(parsed.ActiveState, parsed.SubState),
-      startupType: unitFileState,
-      executable: execPath,
-      unitFile: parsed.FragmentPath || null,
-      pid: parsed.MainPID ? Number.parseInt(parsed.MainPID, 10) || null : null,
-      provider: 'systemd',
-      loadState: parsed.LoadState || null,
-      raw: parsed,
-      canStart: status !== 'active',
-      canStop: status === 'active',
-      canRestart: true,
-      canEnable: !isEnabled && canBeDisabled,
-      canDisable: isEnabled && canBeDisabled,
-    });
   }
 
   if (single) {
@@ -233,7 +572,93 @@ function parseSystemctlShow(output: string, { single = false }: ParseOptions = {
   return results;
 }
 
-function normaliseStatus(activeState?: string, subState?: string): ServiceInfo['status'] {
+/**
+ * Maps a flat set of unit properties (as printed by `systemctl show`) onto a
+ * ServiceInfo. Shared with the D-Bus provider, which feeds it the same keys.
+ */
+export function buildServiceInfo(parsed: Record<string, string>, scope: ServiceScope = 'system'): ServiceInfo | null {
+  const unitType = parsed.Id ? unitTypeOf(parsed.Id) : null;
+  if (!unitType) {
+    return null;
+  }
+
+  const status = normaliseStatus(parsed.ActiveState, parsed.SubState);
+  const execPath = extractExecutable(parsed.ExecStart);
+
+  const unitFileState = parsed.UnitFileState || 'disabled';
+  const isEnabled = unitFileState === 'enabled' || unitFileState === 'static';
+  const canBeDisabled = !FIXED_UNIT_FILE_STATES.has(unitFileState);
+  // Units such as most targets refuse manual start/stop (RefuseManualStart=yes).
+  const manualStart = !isNegative(parsed.CanStart);
+  const manualStop = !isNegative(parsed.CanStop);
+  const isMasked = unitFileState === 'masked' || unitFileState === 'masked-runtime';
+
+  const resources = parseResourceUsage(parsed);
+
+  const unitProperties: Record<string, string> = {};
+  for (const key of TYPE_DETAIL_PROPERTIES[unitType]) {
+    if (parsed[key]) {
+      unitProperties[key] = parsed[key];
+    }
+  }
+
+  return {
+    id: parsed.Id,
+    name: unitType === 'service' ? parsed.Id.replace(/\.service$/, '') : parsed.Id,
+    description: parsed.Description || '',
+    status,
+    statusLabel: buildStatusLabel(parsed.ActiveState, parsed.SubState),
+    startupType: unitFileState,
+    executable: execPath,
+    unitFile: parsed.FragmentPath || null,
+    pid: parsed.MainPID ? Number.parseInt(parsed.MainPID, 10) || null : null,
+    provider: 'systemd',
+    loadState: parsed.LoadState || null,
+    domain: scope,
+    unitType,
+    // Left off entirely for list reads so merging a live update keeps the details' copy.
+    ...(Object.keys(unitProperties).length > 0 ? { unitProperties } : {}),
+    ...(resources ? { resources } : {}),
+    ...(parsed.ControlGroup ? { controlGroup: parsed.ControlGroup } : {}),
+    ...(/^\d+$/.test(parsed.NRestarts ?? '') ? { restarts: Number(parsed.NRestarts) } : {}),
+    raw: parsed,
+    canStart: manualStart && !isMasked && status !== 'active',
+    canStop: manualStop && status === 'active',
+    canRestart: manualStart && manualStop,
+    canEnable: !isEnabled && canBeDisabled,
+    canDisable: isEnabled && canBeDisabled,
+    canReload: isAffirmative(parsed.CanReload) && status === 'active',
+    canMask: !isMasked,
+    canUnmask: isMasked,
+  };
+}
+
+/** `systemctl show` prints `[not set]` or `[no data]` for counters without accounting. */
+function parseCounter(value?: string): number | null {
+  if (!value || !/^\d+$/.test(value) || value === UNSET_COUNTER) return null;
+  return Number(value);
+}
+
+function parseResourceUsage(parsed: Record<string, string>): ServiceResourceUsage | null {
+  const usage: ServiceResourceUsage = {
+    cpuUsageNSec: parseCounter(parsed.CPUUsageNSec),
+    memoryBytes: parseCounter(parsed.MemoryCurrent),
+    tasks: parseCounter(parsed.TasksCurrent),
+    ioReadBytes: parseCounter(parsed.IOReadBytes),
+    ioWriteBytes: parseCounter(parsed.IOWriteBytes),
+  };
+  return Object.values(usage).some((value) => value !== null) ? usage : null;
+}
+
+function isNegative(value?: string): boolean {
+  return value === 'no' || value === 'false';
+}
+
+function isAffirmative(value?: string): boolean {
+  return value === 'yes' || value === 'true';
+}
+
+export function normaliseStatus(activeState?: string, subState?: string): ServiceInfo['status'] {
   const normalised = (activeState || '').toLowerCase();
   if (!normalised) return 'unknown';
   if (normalised === 'active') {
@@ -0,0 +1,310 @@
+import { execFile, type ExecFileOptions } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+import type {
+  ServiceAction,
+  ServiceControlResult,
+  ServiceInfo,
+  ServiceListFilters,
+  ServiceStatus,
+} from '../../types/service';
+import { isValidServiceId } from '../../utils/validation';
+
+type ExecError = NodeJS.ErrnoException & {
+  stdout?: string | Buffer;
+  stderr?: string | Buffer;
+};
+
+type ExecFileAsync = (
+  file: string,
+  args: ReadonlyArray<string>,
+  options?: ExecFileOptions & { encoding?: BufferEncoding }
+) => Promise<{ stdout: string; stderr: string }>;
+
+const execFileAsync = promisify(execFile) as ExecFileAsync;
+
+const EXEC_OPTIONS = {
+  maxBuffer: 1024 * 1024 * 8,
+  encoding: 'utf8' as const,
+  env: {
+    ...process.env,
+    LANG: 'C',
+    LC_ALL: 'C',
+  },
+};
+
+const SUPPORTED_ACTIONS: ReadonlySet<ServiceAction> = new Set([
+  'start',
+  'stop',
+  'restart',
+  'enable',
+  'disable',
+  'enable-now',
+  'disable-now',
+  'reset-failed',
+]);
+
+const INIT_DIR = '/etc/init.d';
+
+// Runlevel `enable` adds services to; `rc-update add` without one would use whichever runlevel is current.
+const DEFAULT_RUNLEVEL = 'default';
+
+// Init script names are plain file names below /etc/init.d, e.g. `sshd` or `net.eth0`.
+const SERVICE_NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.@+-]*$/;
+
+interface OpenRCState {
+  state: string;
+  /** What rc-status prints after the state, e.g. the uptime of a supervised daemon. */
+  detail: string;
+}
+
+/**
+ * Lists every init script (`rc-service --list`) with its state from
+ * `rc-status --all` and its runlevels from `rc-update show`.
+ */
+export async function listServices({ search, status }: ServiceListFilters = {}): Promise<ServiceInfo[]> {
+  const [names, states, runlevels] = await Promise.all([listInitScripts(), readStates(), readRunlevels()]);
+
+  let services = await Promise.all(
+    names.map((name) => buildServiceInfo(name, states.get(name), runlevels.get(name) ?? []))
+  );
+
+  if (search) {
+    const query = search.toLowerCase();
+    services = services.filter(
+      (item) =>
+        item.name.toLowerCase().includes(query) ||
+        (item.description && item.description.toLowerCase().includes(query))
+    );
+  }
+
+  if (status && status !== 'all') {
+    const target = status.toLowerCase();
+    services = services.filter((item) => item.status === target);
+  }
+
+  return services.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function controlService(serviceId: string, action: ServiceAction): Promise<ServiceControlResult> {
+  const name = normalizeServiceName(serviceId);
+
+  if (!SUPPORTED_ACTIONS.has(action)) {
+    throw new Error(`Unsupported action: ${action}`);
+  }
+
+  let elevated = false;
+  for (const [file, args] of buildActionCommands(action, name)) {
+    elevated = (await execWithElevation(file, args)) || elevated;
+  }
+
+  return { action, serviceId: name, ...(elevated ? { elevated } : {}) };
+}
+
+export async function getServiceDetails(serviceId: string): Promise<ServiceInfo | null> {
+  const name = normalizeServiceName(serviceId);
+
+  const names = await listInitScripts();
+  if (!names.includes(name)) {
+    return null;
+  }
+
+  const [states, runlevels] = await Promise.all([readStates(), readRunlevels()]);
+  return buildServiceInfo(name, states.get(name), runlevels.get(name) ?? []);
+}
+
+function normalizeServiceName(serviceId: string): string {
+  if (!isValidServiceId(serviceId) || !SERVICE_NAME_PATTERN.test(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+  return serviceId;
+}
+
+function buildActionCommands(action: ServiceAction, name: string): Array<[string, string[]]> {
+  switch (action) {
+    case 'enable':
+      return [['rc-update', ['add', name, DEFAULT_RUNLEVEL]]];
+    case 'disable':
+      return [['rc-update', ['-a', 'del', name]]];
+    case 'enable-now':
+      return [['rc-update', ['add', name, DEFAULT_RUNLEVEL]], ['rc-service', [name, 'start']]];
+    case 'disable-now':
+      return [['rc-update', ['-a', 'del', name]], ['rc-service', [name, 'stop']]];
+    case 'reset-failed':
+      // `zap` forgets a crashed or failed state without running the script's stop().
+      return [['rc-service', [name, 'zap']]];
+    default:
+      return [['rc-service', [name, action]]];
+  }
+}
+
+/** Runs `file args`, retrying through pkexec when OpenRC refuses a non-root caller. */
+async function execWithElevation(file: string, args: ReadonlyArray<string>): Promise<boolean> {
+  try {
+    await execFileAsync(file, args, EXEC_OPTIONS);
+    return false;
+  } catch (error) {
+    if (needsRoot(error)) {
+      await execFileAsync('pkexec', [file, ...args], EXEC_OPTIONS);
+      return true;
+    }
+    throw describeOpenRCError(error);
+  }
+}
+
+function needsRoot(error: unknown): boolean {
+  const err = error as ExecError;
+  if (err?.code === 'EACCES') return true;
+  const message = `${err?.stderr ?? ''}${err?.stdout ?? ''}`;
+  return message.includes('superuser access required') || message.includes('Permission denied');
+}
+
+function describeOpenRCError(error: unknown): unknown {
+  const err = error as ExecError;
+  if (err?.code === 'ENOENT') {
+    const friendly = new Error('OpenRC tools (rc-service, rc-status, rc-update) were not found on this system.');
+    (friendly as NodeJS.ErrnoException).code = 'NO_OPENRC';
+    return friendly;
+  }
+
+  // rc-service reports problems as ` * <message>` lines; the last one is the most specific.
+  const message = `${err?.stderr ?? ''}`.split('\n').map((line) => line.replace(/^\s*\*\s*/, '').trim()).filter(Boolean).pop();
+  if (message && message.includes('does not exist')) {
+    const friendly = new Error('Service not found. It may have been removed.');
+    (friendly as NodeJS.ErrnoException).code = 'NOT_FOUND';
+    return friendly;
+  }
+  return message ? new Error(message) : error;
+}
+
+async function listInitScripts(): Promise<string[]> {
+  try {
+    const { stdout } = await execFileAsync('rc-service', ['--list'], EXEC_OPTIONS);
+    return [...new Set(stdout.split('\n').map((line) => line.trim()).filter((line) => SERVICE_NAME_PATTERN.test(line)))];
+  } catch (error) {
+    throw describeOpenRCError(error);
+  }
+}
+
+/**
+ * Parses `rc-status --all`: runlevel headings followed by one
+ * ` name   [  state  ]` line per service. Services that are neither in a
+ * runlevel nor running are left out, and read as stopped.
+ */
+async function readStates(): Promise<Map<string, OpenRCState>> {
+  const states = new Map<string, OpenRCState>();
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync('rc-status', ['--all', '--nocolor'], EXEC_OPTIONS));
+  } catch (error) {
+    // rc-status exits non-zero when it has something to warn about (e.g. crashed services) but still prints the table.
+    stdout = `${(error as ExecError).stdout ?? ''}`;
+    if (!stdout) throw describeOpenRCError(error);
+  }
+
+  for (const line of stdout.split('\n')) {
+    const match = /^\s+(\S+)\s+\[\s*(\w+)\s*(.*?)\s*\]\s*$/.exec(line);
+    if (match && !states.has(match[1])) {
+      states.set(match[1], { state: match[2].toLowerCase(), detail: match[3] });
+    }
+  }
+  return states;
+}
+
+/** Parses `rc-update -v show`: ` name | runlevel runlevel`, with nothing after the bar for unassigned scripts. */
+async function readRunlevels(): Promise<Map<string, string[]>> {
+  const runlevels = new Map<string, string[]>();
+  try {
+    const { stdout } = await execFileAsync('rc-update', ['-v', 'show'], EXEC_OPTIONS);
+    for (const line of stdout.split('\n')) {
+      const match = /^\s*(\S+)\s*\|\s*(.*)$/.exec(line);
+      if (match) {
+        runlevels.set(match[1], match[2].split(/\s+/).filter(Boolean));
+      }
+    }
+  } catch (error) {
+    throw describeOpenRCError(error);
+  }
+  return runlevels;
+}
+
+function normaliseStatus(state: string | undefined): ServiceStatus {
+  switch (state) {
+    case undefined:
+    case 'stopped':
+    case 'inactive':
+      return 'inactive';
+    case 'started':
+      return 'active';
+    case 'starting':
+    case 'scheduled':
+      return 'activating';
+    case 'stopping':
+      return 'deactivating';
+    case 'crashed':
+    case 'failed':
+      return 'failed';
+    default:
+      return 'unknown';
+  }
+}
+
+/** Reads `description`, `command` and `pidfile` from the init script when they are plain values. */
+async function readScriptVariables(name: string): Promise<Record<string, string>> {
+  const variables: Record<string, string> = {};
+  let script: string;
+  try {
+    script = await fs.readFile(path.join(INIT_DIR, name), 'utf8');
+  } catch {
+    return variables;
+  }
+
+  for (const key of ['description', 'command', 'pidfile']) {
+    const match = new RegExp(`^\\s*${key}=(?:"([^"$\`]*)"|'([^']*)'|([^\\s"'$\`;]+))\\s*$`, 'm').exec(script);
+    const value = match?.[1] ?? match?.[2] ?? match?.[3];
+    if (value) {
+      variables[key] = value;
+    }
+  }
+  return variables;
+}
+
+async function readPid(pidfile: string | undefined): Promise<number | null> {
+  if (!pidfile) return null;
+  try {
+    const pid = Number.parseInt((await fs.readFile(pidfile, 'utf8')).trim(), 10);
+    return Number.isInteger(pid) && pid > 0 ? pid : null;
+  } catch {
+    return null;
+  }
+}
+
+async function buildServiceInfo(name: string, state: OpenRCState | undefined, runlevels: string[]): Promise<ServiceInfo> {
+  const variables = await readScriptVariables(name);
+  const status = normaliseStatus(state?.state);
+  const isRunning = status === 'active' || status === 'activating';
+  const enabled = runlevels.length > 0;
+
+  return {
+    id: name,
+    name,
+    description: variables.description ?? '',
+    status,
+    statusLabel: state ? [state.state, state.detail].filter(Boolean).join(' ') : 'stopped',
+    // Worded like systemd's unit file states so backups and restores read it the same way.
+    startupType: enabled ? `enabled (${runlevels.join(', ')})` : 'disabled',
+    executable: variables.command ?? null,
+    unitFile: path.join(INIT_DIR, name),
+    pid: isRunning ? await readPid(variables.pidfile) : null,
+    provider: 'openrc',
+    domain: null,
+    raw: { state: state?.state ?? 'stopped', runlevels },
+    canStart: !isRunning,
+    canStop: isRunning || status === 'failed',
+    canRestart: isRunning,
+    canEnable: !enabled,
+    canDisable: enabled,
+  };
+}
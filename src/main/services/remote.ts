@@ -0,0 +1,93 @@
+import { execFile, type ExecFileOptions } from 'node:child_process';
+import { promisify } from 'node:util';
+
+import type { RemoteHostCheck } from '../../types/service';
+
+type ExecError = NodeJS.ErrnoException & {
+  stdout?: string | Buffer;
+  stderr?: string | Buffer;
+};
+
+type ExecOptions = ExecFileOptions & { encoding?: BufferEncoding };
+
+type ExecFileAsync = (
+  file: string,
+  args: ReadonlyArray<string>,
+  options?: ExecOptions
+) => Promise<{ stdout: string; stderr: string }>;
+
+const execFileAsync = promisify(execFile) as ExecFileAsync;
+
+// There is no terminal to answer a password or host key prompt, so ssh must fail instead of asking.
+// Everything else (user, port, identity, jump hosts) comes from the user's ssh config and agent.
+const SSH_OPTIONS = ['-o', 'BatchMode=yes', '-o', 'ConnectTimeout=10', '-o', 'ServerAliveInterval=15'];
+
+// ssh does not pass the local environment on; these are re-applied to the remote command.
+const FORWARDED_ENV = ['LANG', 'LC_ALL', 'TZ'];
+
+// ssh's own exit status when it cannot connect or authenticate.
+const SSH_FAILURE_STATUS = 255;
+
+/** Quotes one argument for the remote login shell, which re-parses the command ssh sends. */
+function shellQuote(value: string): string {
+  return /^[A-Za-z0-9_@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function remoteCommand(file: string, args: ReadonlyArray<string>, env?: NodeJS.ProcessEnv): string {
+  const assignments = FORWARDED_ENV.filter((key) => env?.[key]).map((key) => `${key}=${env?.[key]}`);
+  const argv = assignments.length > 0 ? ['env', ...assignments, file, ...args] : [file, ...args];
+  return argv.map(shellQuote).join(' ');
+}
+
+function describeSshFailure(error: unknown, host: string): unknown {
+  const err = error as ExecError;
+  if (err?.code === 'ENOENT') {
+    return new Error('ssh is not installed; remote hosts need the OpenSSH client');
+  }
+  if ((err?.code as unknown) !== SSH_FAILURE_STATUS) {
+    // The remote command itself failed; its stderr is passed through for the caller to interpret.
+    return error;
+  }
+
+  const reason = (err.stderr ?? '').toString().trim().split('\n').pop() || 'connection failed';
+  const friendly = new Error(`Cannot reach ${host} over SSH: ${reason}`);
+  (friendly as NodeJS.ErrnoException).code = 'HOST_UNREACHABLE';
+  return friendly;
+}
+
+/**
+ * Runs `file args` on this machine, or through `ssh host` when a host is
+ * given. Remote commands see the LANG, LC_ALL and TZ from `options.env`.
+ */
+export async function execFileOnHost(
+  host: string | undefined,
+  file: string,
+  args: ReadonlyArray<string>,
+  options: ExecOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  if (!host) {
+    return execFileAsync(file, args, options);
+  }
+
+  try {
+    return await execFileAsync('ssh', [...SSH_OPTIONS, '--', host, remoteCommand(file, args, options.env)], {
+      encoding: 'utf8',
+      ...options,
+    });
+  } catch (error) {
+    throw describeSshFailure(error, host);
+  }
+}
+
+/** Checks that `host` accepts a non-interactive ssh login and has systemctl. */
+export async function checkRemoteHost(host: string): Promise<RemoteHostCheck> {
+  const { stdout } = await execFileOnHost(host, 'systemctl', ['--version'], {
+    encoding: 'utf8',
+    env: { ...process.env, LANG: 'C', LC_ALL: 'C' },
+  });
+  const systemdVersion = stdout.split('\n')[0].trim();
+  if (!systemdVersion.startsWith('systemd')) {
+    throw new Error(`${host} does not appear to run systemd`);
+  }
+  return { host, systemdVersion };
+}
@@ -0,0 +1,158 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import type { ServiceAction, ServiceControlResult, ServiceInfo, ServiceListFilters } from '../../types/service';
+import * as supervision from './supervision';
+import { EXEC_OPTIONS, execFileAsync, type ExecError, type SupervisedState, type Supervisor } from './supervision';
+
+// runit stamps supervise/status with TAI64 seconds, which count from 2^62 and run 10 seconds ahead of UTC.
+const TAI64_UNIX_EPOCH = 4611686018427387914n;
+
+/**
+ * Reads the 20-byte supervise/status record `sv status` itself decodes:
+ * TAI64N timestamp, little-endian pid, paused flag, wanted state ('u' or
+ * 'd'), term flag and state (0 down, 1 run, 2 finish). It is world-readable,
+ * unlike supervise/ok, which `sv` insists on opening.
+ */
+async function readStatusFile(serviceDir: string): Promise<SupervisedState | null> {
+  let record: Buffer;
+  try {
+    record = await fs.readFile(path.join(serviceDir, 'supervise', 'status'));
+  } catch {
+    return null;
+  }
+  if (record.length < 20) return null;
+
+  const changedAt = Number(record.readBigUInt64BE(0) - TAI64_UNIX_EPOCH);
+  const pid = record.readUInt32LE(12);
+  const paused = record[16] !== 0;
+  const want = String.fromCharCode(record[17]);
+  const state = ['down', 'run', 'finish'][record[19]] ?? 'unknown';
+
+  return describeState(state, {
+    pid: pid > 0 ? pid : null,
+    seconds: Math.max(0, Math.floor(Date.now() / 1000) - changedAt),
+    paused,
+    wantUp: state !== 'run' && want === 'u',
+    wantDown: state === 'run' && want === 'd',
+    normally: null,
+  });
+}
+
+interface StateFlags {
+  pid: number | null;
+  seconds: number | null;
+  paused: boolean;
+  wantUp: boolean;
+  wantDown: boolean;
+  /** `up` or `down` when it differs from the current state, as `sv status` reports it. */
+  normally: string | null;
+}
+
+function describeState(state: string, flags: StateFlags): SupervisedState {
+  let status: SupervisedState['status'] = 'unknown';
+  if (state === 'run') {
+    status = flags.wantDown ? 'deactivating' : 'active';
+  } else if (state === 'down') {
+    status = flags.wantUp ? 'activating' : 'inactive';
+  } else if (state === 'finish') {
+    status = 'deactivating';
+  }
+
+  const label = [
+    state,
+    flags.normally ? `normally ${flags.normally}` : null,
+    flags.paused ? 'paused' : null,
+    flags.wantUp ? 'want up' : null,
+    flags.wantDown ? 'want down' : null,
+  ].filter(Boolean).join(', ');
+
+  return { status, label, pid: flags.pid, seconds: flags.seconds };
+}
+
+/**
+ * Parses one `sv status` line, e.g.
+ * `run: /var/service/sshd: (pid 812) 5634s; run: log: (pid 806) 5634s` or
+ * `down: /var/service/cups: 12s, normally up, want up`. The log service's part
+ * after `;` is ignored.
+ */
+function parseStatusLine(line: string): { dir: string; state: SupervisedState } | null {
+  const match = /^(run|down|finish): (.+?): (?:\(pid (\d+)\) )?(\d+)s([^;]*)/.exec(line);
+  if (!match) return null;
+
+  const flags = match[5];
+  return {
+    dir: match[2],
+    state: describeState(match[1], {
+      pid: match[3] ? Number(match[3]) : null,
+      seconds: Number(match[4]),
+      paused: flags.includes('paused'),
+      wantUp: flags.includes('want up'),
+      wantDown: flags.includes('want down'),
+      normally: /normally (up|down)/.exec(flags)?.[1] ?? null,
+    }),
+  };
+}
+
+async function readStates(serviceDirs: string[]): Promise<Map<string, SupervisedState>> {
+  const states = new Map<string, SupervisedState>();
+  if (serviceDirs.length === 0) return states;
+
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync('sv', ['status', ...serviceDirs], EXEC_OPTIONS));
+  } catch (error) {
+    // sv exits with the number of services it could not report on, but still prints the others.
+    stdout = `${(error as ExecError).stdout ?? ''}`;
+    if ((error as ExecError).code === 'ENOENT') {
+      throw new Error('sv was not found; the runit provider needs runit installed');
+    }
+  }
+
+  const denied: string[] = [];
+  for (const line of stdout.split('\n')) {
+    const parsed = parseStatusLine(line);
+    if (parsed) {
+      states.set(parsed.dir, parsed.state);
+      continue;
+    }
+    // Without root, sv cannot open supervise/ok and prints e.g. `warning: /var/service/sshd: unable to open supervise/ok: access denied`.
+    const warning = /^(?:warning|fail): (.+?): .*access denied/.exec(line);
+    if (warning) {
+      denied.push(warning[1]);
+    }
+  }
+
+  await Promise.all(
+    denied.map(async (dir) => {
+      const state = await readStatusFile(dir);
+      if (state) states.set(dir, state);
+    })
+  );
+
+  return states;
+}
+
+// Void Linux keeps definitions in /etc/sv and links them from /var/service; Artix uses /etc/runit/sv and
+// /run/runit/service; Debian's runit package and most container images use /etc/service.
+const supervisor: Supervisor = {
+  kind: 'runit',
+  definitionDirs: ['/etc/sv', '/etc/runit/sv'],
+  scanDirs: [process.env.SVDIR, '/var/service', '/run/runit/service', '/etc/service'].filter(
+    (dir): dir is string => !!dir
+  ),
+  readStates,
+  controlCommand: (action, serviceDir) => ['sv', [action, serviceDir]],
+};
+
+export async function listServices(filters: ServiceListFilters = {}): Promise<ServiceInfo[]> {
+  return supervision.listServices(supervisor, filters);
+}
+
+export async function controlService(serviceId: string, action: ServiceAction): Promise<ServiceControlResult> {
+  return supervision.controlService(supervisor, serviceId, action);
+}
+
+export async function getServiceDetails(serviceId: string): Promise<ServiceInfo | null> {
+  return supervision.getServiceDetails(supervisor, serviceId);
+}
@@ -0,0 +1,92 @@
+import type { ServiceAction, ServiceControlResult, ServiceInfo, ServiceListFilters } from '../../types/service';
+import * as supervision from './supervision';
+import { EXEC_OPTIONS, execFileAsync, type ExecError, type SupervisedState, type Supervisor } from './supervision';
+
+/**
+ * Parses `s6-svstat` for one service, e.g.
+ * `up (pid 812 pgid 812) 5634 seconds, ready 5634 seconds` or
+ * `down (exitcode 1) 3 seconds, normally up, want up, ready 3 seconds`.
+ */
+function parseSvstat(output: string): SupervisedState | null {
+  const match = /^(up|down) \(([^)]*)\) (\d+) seconds(.*)$/m.exec(output.trim());
+  if (!match) return null;
+
+  const [, state, detail, seconds, flagText] = match;
+  const flags = flagText.split(',').map((flag) => flag.trim()).filter((flag) => flag && !flag.startsWith('ready'));
+  const pid = /pid (\d+)/.exec(detail);
+  const exitCode = /exitcode (\d+)/.exec(detail);
+  // A service that died by a signal or with a non-zero exit code is reported as failed until it is up again.
+  const crashed = state === 'down' && (detail.startsWith('signal') || (exitCode !== null && exitCode[1] !== '0'));
+
+  let status: SupervisedState['status'];
+  if (state === 'up') {
+    status = flags.includes('want down') ? 'deactivating' : 'active';
+  } else if (crashed) {
+    status = 'failed';
+  } else {
+    status = flags.includes('want up') ? 'activating' : 'inactive';
+  }
+
+  return {
+    status,
+    label: [detail.startsWith('pid') ? state : `${state} (${detail})`, ...flags].join(', '),
+    pid: state === 'up' && pid ? Number(pid[1]) : null,
+    seconds: Number(seconds),
+  };
+}
+
+async function readStates(serviceDirs: string[]): Promise<Map<string, SupervisedState>> {
+  const states = new Map<string, SupervisedState>();
+
+  // s6-svstat takes a single service; it only reads supervise/status, so it needs no privileges.
+  await Promise.all(
+    serviceDirs.map(async (dir) => {
+      try {
+        const { stdout } = await execFileAsync('s6-svstat', [dir], EXEC_OPTIONS);
+        const state = parseSvstat(stdout);
+        if (state) states.set(dir, state);
+      } catch (error) {
+        if ((error as ExecError).code === 'ENOENT') {
+          throw new Error('s6-svstat was not found; the s6 provider needs s6 installed');
+        }
+        // No supervisor is running for this directory (yet); it is listed as not supervised.
+      }
+    })
+  );
+
+  return states;
+}
+
+// s6-linux-init and s6-overlay v3 scan /run/service, s6-overlay v2 /var/run/s6/services; definitions are
+// commonly kept in /etc/s6/sv (Artix) or /etc/s6/services.
+const supervisor: Supervisor = {
+  kind: 's6',
+  definitionDirs: ['/etc/s6/sv', '/etc/s6/services'],
+  scanDirs: ['/run/service', '/var/run/s6/services', '/service'],
+  readStates,
+  controlCommand: (action, serviceDir) => {
+    switch (action) {
+      case 'start':
+        return ['s6-svc', ['-u', serviceDir]];
+      case 'stop':
+        return ['s6-svc', ['-d', serviceDir]];
+      case 'restart':
+        // -r only signals a service that is up; -u then brings up one that was down.
+        return ['s6-svc', ['-r', '-u', serviceDir]];
+    }
+  },
+  // s6-svscan does not poll: -a makes it rescan, -n also stops supervisors of directories that went away.
+  rescanCommand: (scanDir, removed) => ['s6-svscanctl', [removed ? '-an' : '-a', scanDir]],
+};
+
+export async function listServices(filters: ServiceListFilters = {}): Promise<ServiceInfo[]> {
+  return supervision.listServices(supervisor, filters);
+}
+
+export async function controlService(serviceId: string, action: ServiceAction): Promise<ServiceControlResult> {
+  return supervision.controlService(supervisor, serviceId, action);
+}
+
+export async function getServiceDetails(serviceId: string): Promise<ServiceInfo | null> {
+  return supervision.getServiceDetails(supervisor, serviceId);
+}
@@ -0,0 +1,307 @@
+import { execFile, type ExecFileOptions } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+import type {
+  ServiceAction,
+  ServiceControlResult,
+  ServiceInfo,
+  ServiceListFilters,
+  ServiceStatus,
+} from '../../types/service';
+import { isValidServiceId } from '../../utils/validation';
+
+export type ExecError = NodeJS.ErrnoException & {
+  stdout?: string | Buffer;
+  stderr?: string | Buffer;
+};
+
+type ExecFileAsync = (
+  file: string,
+  args: ReadonlyArray<string>,
+  options?: ExecFileOptions & { encoding?: BufferEncoding }
+) => Promise<{ stdout: string; stderr: string }>;
+
+export const execFileAsync = promisify(execFile) as ExecFileAsync;
+
+export const EXEC_OPTIONS = {
+  maxBuffer: 1024 * 1024 * 8,
+  encoding: 'utf8' as const,
+  env: {
+    ...process.env,
+    LANG: 'C',
+    LC_ALL: 'C',
+  },
+};
+
+const SUPPORTED_ACTIONS: ReadonlySet<ServiceAction> = new Set([
+  'start',
+  'stop',
+  'restart',
+  'enable',
+  'disable',
+  'enable-now',
+  'disable-now',
+]);
+
+// Service directory names, e.g. `sshd` or `agetty-tty1`.
+const SERVICE_NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.@+-]*$/;
+
+/** What the supervisor reports for one service directory. */
+export interface SupervisedState {
+  status: ServiceStatus;
+  /** The supervisor's own wording, e.g. `run` or `down, normally up`. */
+  label: string;
+  pid: number | null;
+  /** Seconds since the service last went up or down. */
+  seconds: number | null;
+}
+
+/**
+ * A daemontools-style supervisor. Services are directories with a `run`
+ * script; a service is enabled when its directory, or a link to it, sits in
+ * the scan directory the supervisor watches.
+ */
+export interface Supervisor {
+  kind: 'runit' | 's6';
+  /** Where service definitions live, enabled or not. */
+  definitionDirs: ReadonlyArray<string>;
+  /** Candidate scan directories; the first that exists is used. */
+  scanDirs: ReadonlyArray<string>;
+  /** States keyed by service directory; directories without a running supervisor are left out. */
+  readStates(serviceDirs: string[]): Promise<Map<string, SupervisedState>>;
+  controlCommand(action: 'start' | 'stop' | 'restart', serviceDir: string): [string, string[]];
+  /** Run after a link was added to or removed from the scan directory, for supervisors that do not poll it. */
+  rescanCommand?(scanDir: string, removed: boolean): [string, string[]];
+}
+
+interface ServiceEntry {
+  name: string;
+  /** The definition directory, or the scan directory entry when there is no separate definition. */
+  definition: string;
+  /** The entry in the scan directory; null when the service is not enabled. */
+  supervised: string | null;
+}
+
+async function isDirectory(target: string): Promise<boolean> {
+  try {
+    return (await fs.stat(target)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function findScanDir(supervisor: Supervisor): Promise<string | null> {
+  for (const dir of supervisor.scanDirs) {
+    if (await isDirectory(dir)) return dir;
+  }
+  return null;
+}
+
+async function readServiceNames(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir);
+    const names: string[] = [];
+    for (const name of entries) {
+      if (SERVICE_NAME_PATTERN.test(name) && (await isDirectory(path.join(dir, name)))) {
+        names.push(name);
+      }
+    }
+    return names;
+  } catch {
+    return [];
+  }
+}
+
+/** Every defined service, plus anything placed straight into the scan directory (common in container images). */
+async function readServiceEntries(supervisor: Supervisor, scanDir: string | null): Promise<Map<string, ServiceEntry>> {
+  const entries = new Map<string, ServiceEntry>();
+
+  for (const dir of supervisor.definitionDirs) {
+    for (const name of await readServiceNames(dir)) {
+      if (!entries.has(name)) {
+        entries.set(name, { name, definition: path.join(dir, name), supervised: null });
+      }
+    }
+  }
+
+  if (scanDir) {
+    for (const name of await readServiceNames(scanDir)) {
+      const supervised = path.join(scanDir, name);
+      const existing = entries.get(name);
+      entries.set(name, existing ? { ...existing, supervised } : { name, definition: supervised, supervised });
+    }
+  }
+
+  return entries;
+}
+
+function buildServiceInfo(supervisor: Supervisor, entry: ServiceEntry, state: SupervisedState | undefined): ServiceInfo {
+  const enabled = entry.supervised !== null;
+  const status = state?.status ?? 'inactive';
+  const isRunning = status === 'active' || status === 'deactivating';
+
+  return {
+    id: entry.name,
+    name: entry.name,
+    description: '',
+    status,
+    statusLabel: state?.label ?? (enabled ? 'not supervised' : 'down'),
+    // Worded like systemd's unit file states so backups and restores read it the same way.
+    startupType: enabled ? 'enabled' : 'disabled',
+    executable: path.join(entry.definition, 'run'),
+    unitFile: entry.definition,
+    pid: state?.pid ?? null,
+    provider: supervisor.kind,
+    domain: null,
+    ...(isRunning && state?.seconds !== null && state?.seconds !== undefined ? { uptimeSeconds: state.seconds } : {}),
+    raw: { definition: entry.definition, supervised: entry.supervised, state: state ?? null },
+    // Only services in the scan directory have a supervisor to tell.
+    canStart: enabled && !isRunning,
+    canStop: enabled && (isRunning || status === 'activating'),
+    canRestart: enabled,
+    canEnable: !enabled,
+    // A directory placed straight into the scan directory has no link that could be removed.
+    canDisable: enabled && entry.supervised !== entry.definition,
+  };
+}
+
+export async function listServices(
+  supervisor: Supervisor,
+  { search, status }: ServiceListFilters = {}
+): Promise<ServiceInfo[]> {
+  const scanDir = await findScanDir(supervisor);
+  const entries = [...(await readServiceEntries(supervisor, scanDir)).values()];
+  const states = await supervisor.readStates(
+    entries.map((entry) => entry.supervised).filter((dir): dir is string => dir !== null)
+  );
+
+  let services = entries.map((entry) =>
+    buildServiceInfo(supervisor, entry, entry.supervised ? states.get(entry.supervised) : undefined)
+  );
+
+  if (search) {
+    const query = search.toLowerCase();
+    services = services.filter((item) => item.name.toLowerCase().includes(query));
+  }
+
+  if (status && status !== 'all') {
+    const target = status.toLowerCase();
+    services = services.filter((item) => item.status === target);
+  }
+
+  return services.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getServiceDetails(supervisor: Supervisor, serviceId: string): Promise<ServiceInfo | null> {
+  const name = normalizeServiceName(serviceId);
+  const scanDir = await findScanDir(supervisor);
+  const entry = (await readServiceEntries(supervisor, scanDir)).get(name);
+  if (!entry) return null;
+
+  const states = entry.supervised ? await supervisor.readStates([entry.supervised]) : new Map<string, SupervisedState>();
+  return buildServiceInfo(supervisor, entry, entry.supervised ? states.get(entry.supervised) : undefined);
+}
+
+/**
+ * Starts, stops and restarts through the supervisor; enabling links the
+ * definition into the scan directory, which also starts the service unless
+ * it has a `down` file, and disabling stops it before removing the link.
+ */
+export async function controlService(
+  supervisor: Supervisor,
+  serviceId: string,
+  action: ServiceAction
+): Promise<ServiceControlResult> {
+  const name = normalizeServiceName(serviceId);
+
+  if (!SUPPORTED_ACTIONS.has(action)) {
+    throw new Error(`Unsupported action: ${action}`);
+  }
+
+  const scanDir = await findScanDir(supervisor);
+  if (!scanDir) {
+    throw new Error(`No ${supervisor.kind} scan directory found (looked in ${supervisor.scanDirs.join(', ')})`);
+  }
+
+  const entry = (await readServiceEntries(supervisor, scanDir)).get(name);
+  if (!entry) {
+    const friendly = new Error('Service not found. It may have been removed.');
+    (friendly as NodeJS.ErrnoException).code = 'NOT_FOUND';
+    throw friendly;
+  }
+
+  let elevated = false;
+  const run = async (file: string, args: string[]): Promise<void> => {
+    elevated = (await execWithElevation(file, args)) || elevated;
+  };
+
+  switch (action) {
+    case 'start':
+    case 'stop':
+    case 'restart': {
+      if (!entry.supervised) {
+        throw new Error(`${name} is not enabled, so ${supervisor.kind} is not supervising it. Enable it first.`);
+      }
+      await run(...supervisor.controlCommand(action, entry.supervised));
+      break;
+    }
+    case 'enable':
+    case 'enable-now': {
+      if (entry.supervised) break;
+      const link = path.join(scanDir, name);
+      await run('ln', ['-s', entry.definition, link]);
+      if (supervisor.rescanCommand) {
+        await run(...supervisor.rescanCommand(scanDir, false));
+      }
+      break;
+    }
+    case 'disable':
+    case 'disable-now': {
+      if (!entry.supervised) break;
+      const link = entry.supervised;
+      if (!(await fs.lstat(link)).isSymbolicLink()) {
+        throw new Error(`${link} is a directory, not a link; remove it from ${scanDir} by hand to disable ${name}`);
+      }
+      await run(...supervisor.controlCommand('stop', link));
+      await run('rm', ['--', link]);
+      if (supervisor.rescanCommand) {
+        await run(...supervisor.rescanCommand(scanDir, true));
+      }
+      break;
+    }
+  }
+
+  return { action, serviceId: name, ...(elevated ? { elevated } : {}) };
+}
+
+function normalizeServiceName(serviceId: string): string {
+  if (!isValidServiceId(serviceId) || !SERVICE_NAME_PATTERN.test(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+  return serviceId;
+}
+
+/** Runs `file args`, retrying through pkexec when the supervise files or scan directory are root's. */
+async function execWithElevation(file: string, args: ReadonlyArray<string>): Promise<boolean> {
+  try {
+    await execFileAsync(file, args, EXEC_OPTIONS);
+    return false;
+  } catch (error) {
+    if (needsRoot(error)) {
+      await execFileAsync('pkexec', [file, ...args], EXEC_OPTIONS);
+      return true;
+    }
+    const err = error as ExecError;
+    const message = `${err.stderr ?? ''}${err.stdout ?? ''}`.trim();
+    throw message ? new Error(message) : error;
+  }
+}
+
+function needsRoot(error: unknown): boolean {
+  const err = error as ExecError;
+  if (err?.code === 'EACCES' || err?.code === 'EPERM') return true;
+  const message = `${err?.stderr ?? ''}${err?.stdout ?? ''}`;
+  return /access denied|permission denied|operation not permitted/i.test(message);
+}
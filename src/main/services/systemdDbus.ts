@@ -0,0 +1,753 @@
+import { Message, MessageType, sessionBus, systemBus, type MessageBus, type Variant } from 'dbus-next';
+import os from 'node:os';
+import path from 'node:path';
+
+import type {
+  ServiceAction,
+  ServiceActionOptions,
+  ServiceControlResult,
+  ServiceEvent,
+  ServiceInfo,
+  ServiceListFilters,
+  ServiceScope,
+  TimerInfo,
+  UnitDependencies,
+  UnitType,
+} from '../../types/service';
+import { isValidKillSignal, isValidServiceId } from '../../utils/validation';
+import {
+  DEPENDENCY_KINDS,
+  TYPE_DETAIL_PROPERTIES,
+  buildServiceInfo,
+  buildUnitDependencies,
+  filterServices,
+  normaliseStatus,
+  normalizeServiceId,
+  normalizeUnitName,
+  unitTypeOf,
+} from './linux';
+
+/**
+ * systemd provider that talks to org.freedesktop.systemd1 over D-Bus instead of
+ * spawning `systemctl`. System units live on the system bus, per-user units on
+ * the session bus. The bus addresses are taken from DBUS_SYSTEM_BUS_ADDRESS and
+ * DBUS_SESSION_BUS_ADDRESS when set.
+ */
+
+type UnitTuple = [
+  name: string,
+  description: string,
+  loadState: string,
+  activeState: string,
+  subState: string,
+  following: string,
+  unitPath: string,
+  jobId: number,
+  jobType: string,
+  jobPath: string,
+];
+
+type UnitFileTuple = [path: string, state: string];
+
+type ExecCommandTuple = [path: string, argv: string[], ...rest: unknown[]];
+
+type CalendarTimerTuple = [base: string, spec: string, nextElapse: bigint];
+
+type PropertyMap = Record<string, Variant>;
+
+const SYSTEMD_DESTINATION = 'org.freedesktop.systemd1';
+const SYSTEMD_PATH = '/org/freedesktop/systemd1';
+const MANAGER_INTERFACE = 'org.freedesktop.systemd1.Manager';
+const UNIT_INTERFACE = 'org.freedesktop.systemd1.Unit';
+const SERVICE_INTERFACE = 'org.freedesktop.systemd1.Service';
+const PROPERTIES_INTERFACE = 'org.freedesktop.DBus.Properties';
+const UNIT_PATH_PREFIX = '/org/freedesktop/systemd1/unit/';
+
+const TYPE_INTERFACES: Readonly<Record<UnitType, string>> = {
+  service: SERVICE_INTERFACE,
+  timer: 'org.freedesktop.systemd1.Timer',
+  socket: 'org.freedesktop.systemd1.Socket',
+  path: 'org.freedesktop.systemd1.Path',
+  mount: 'org.freedesktop.systemd1.Mount',
+  target: 'org.freedesktop.systemd1.Target',
+};
+
+// org.freedesktop.DBus message flag; lets polkit prompt instead of failing outright.
+const ALLOW_INTERACTIVE_AUTHORIZATION = 0x4;
+
+const CONNECT_TIMEOUT_MS = 3000;
+// A single restart fires a burst of PropertiesChanged signals; coalesce them per unit.
+const SIGNAL_DEBOUNCE_MS = 250;
+
+const SIGNAL_MATCH_RULES = [
+  `type='signal',sender='${SYSTEMD_DESTINATION}',interface='${PROPERTIES_INTERFACE}',member='PropertiesChanged',arg0='${UNIT_INTERFACE}'`,
+  `type='signal',sender='${SYSTEMD_DESTINATION}',interface='${MANAGER_INTERFACE}',member='UnitNew'`,
+  `type='signal',sender='${SYSTEMD_DESTINATION}',interface='${MANAGER_INTERFACE}',member='UnitRemoved'`,
+];
+
+const SUPPORTED_ACTIONS: ReadonlySet<ServiceAction> = new Set([
+  'start',
+  'stop',
+  'restart',
+  'enable',
+  'disable',
+  'reload',
+  'reload-or-restart',
+  'try-restart',
+  'mask',
+  'unmask',
+  'reset-failed',
+  'kill',
+  'enable-now',
+  'disable-now',
+]);
+
+// Manager methods taking (name, mode) that map one-to-one onto an action.
+const JOB_METHODS: Partial<Record<ServiceAction, string>> = {
+  start: 'StartUnit',
+  stop: 'StopUnit',
+  restart: 'RestartUnit',
+  reload: 'ReloadUnit',
+  'reload-or-restart': 'ReloadOrRestartUnit',
+  'try-restart': 'TryRestartUnit',
+};
+
+const ACCESS_DENIED_ERRORS = new Set([
+  'org.freedesktop.DBus.Error.AccessDenied',
+  'org.freedesktop.DBus.Error.InteractiveAuthorizationRequired',
+]);
+
+const busPromises = new Map<ServiceScope, Promise<MessageBus>>();
+// systemd keeps one subscription per bus client, so watchers on the shared connection count theirs here.
+const subscriberCounts = new Map<ServiceScope, number>();
+
+function connect(scope: ServiceScope = 'system'): Promise<MessageBus> {
+  const existing = busPromises.get(scope);
+  if (existing) {
+    return existing;
+  }
+
+  const busPromise = new Promise<MessageBus>((resolve, reject) => {
+    let bus: MessageBus;
+    try {
+      bus = scope === 'user' ? sessionBus() : systemBus();
+    } catch (error) {
+      reject(toUnavailableError(error));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      bus.disconnect();
+      reject(toUnavailableError(new Error(`Timed out connecting to the ${scope} bus`)));
+    }, CONNECT_TIMEOUT_MS);
+
+    bus.once('error', (error: unknown) => {
+      clearTimeout(timer);
+      reject(toUnavailableError(error));
+    });
+
+    bus.once('connect', () => {
+      clearTimeout(timer);
+      bus.on('error', (error: unknown) => {
+        console.error(`[DBUS] ${scope} bus connection error:`, error);
+        busPromises.delete(scope);
+        subscriberCounts.delete(scope);
+      });
+      resolve(bus);
+    });
+  });
+
+  busPromises.set(scope, busPromise);
+  busPromise.catch(() => {
+    busPromises.delete(scope);
+  });
+
+  return busPromise;
+}
+
+function toUnavailableError(cause: unknown): Error {
+  const detail = cause instanceof Error ? cause.message : String(cause);
+  const error = new Error(`D-Bus is unavailable: ${detail}`);
+  (error as NodeJS.ErrnoException).code = 'DBUS_UNAVAILABLE';
+  return error;
+}
+
+async function call(
+  scope: ServiceScope,
+  path: string,
+  iface: string,
+  member: string,
+  signature = '',
+  body: unknown[] = [],
+  interactive = false
+): Promise<unknown[]> {
+  const bus = await connect(scope);
+  const message = new Message({
+    destination: SYSTEMD_DESTINATION,
+    path,
+    interface: iface,
+    member,
+    signature,
+    body,
+  });
+
+  if (interactive) {
+    message.flags = ALLOW_INTERACTIVE_AUTHORIZATION as Message['flags'];
+  }
+
+  try {
+    const reply = await bus.call(message);
+    return reply?.body ?? [];
+  } catch (error) {
+    // Translated here so reads report NO_SYSTEMD and NOT_FOUND the same way control calls do.
+    throw translateBusError(error);
+  }
+}
+
+async function callManager(
+  scope: ServiceScope,
+  member: string,
+  signature = '',
+  body: unknown[] = [],
+  interactive = false
+): Promise<unknown[]> {
+  return call(scope, SYSTEMD_PATH, MANAGER_INTERFACE, member, signature, body, interactive);
+}
+
+async function getAllProperties(scope: ServiceScope, unitPath: string, iface: string): Promise<PropertyMap> {
+  try {
+    const [properties] = await call(scope, unitPath, PROPERTIES_INTERFACE, 'GetAll', 's', [iface]);
+    return (properties as PropertyMap) ?? {};
+  } catch {
+    // Units that are not loaded do not implement their type interface.
+    return {};
+  }
+}
+
+async function getProperty(scope: ServiceScope, unitPath: string, iface: string, name: string): Promise<Variant | undefined> {
+  try {
+    const [value] = await call(scope, unitPath, PROPERTIES_INTERFACE, 'Get', 'ss', [iface, name]);
+    return value as Variant | undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function variantString(properties: PropertyMap, key: string): string {
+  const value = properties[key]?.value;
+  if (value === undefined || value === null) return '';
+  return String(value);
+}
+
+/**
+ * Renders a type-specific property roughly the way `systemctl show` does:
+ * yes/no booleans, comma-joined lists, `value (kind)` for the (kind, value)
+ * pairs of Listen/Paths/TimersCalendar, and realtime USec timestamps as dates.
+ */
+function formatProperty(key: string, variant: Variant | undefined): string {
+  const value: unknown = variant?.value;
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+
+  if (Array.isArray(value)) {
+    return value
+      .map((item: unknown) => (Array.isArray(item) ? `${String(item[1])} (${String(item[0])})` : String(item)))
+      .join(', ');
+  }
+
+  if (/USec(Realtime)?$/.test(key) && (typeof value === 'bigint' || typeof value === 'number')) {
+    const millis = Number(value) / 1000;
+    return millis > 0 ? new Date(millis).toISOString() : '';
+  }
+
+  return String(value);
+}
+
+function firstExecPath(properties: PropertyMap): string {
+  const commands = properties.ExecStart?.value as ExecCommandTuple[] | undefined;
+  if (!Array.isArray(commands) || commands.length === 0) return '';
+  return commands[0][0] ?? '';
+}
+
+/**
+ * Reads the unit and type-specific property sets for a unit object and
+ * flattens them into the same key/value shape `systemctl show` prints, so both
+ * providers share buildServiceInfo. The type interface is only queried for
+ * services (ExecStart, MainPID) unless `detailed` is set.
+ */
+async function readUnit(
+  scope: ServiceScope,
+  unitPath: string,
+  fallback: Partial<Record<string, string>> = {},
+  detailed = false
+): Promise<ServiceInfo | null> {
+  const unitType = unitTypeOf(fallback.Id ?? unitIdFromPath(unitPath) ?? '');
+  if (!unitType) return null;
+
+  const readTypeProps = detailed || unitType === 'service';
+  const [unitProps, typeProps] = await Promise.all([
+    getAllProperties(scope, unitPath, UNIT_INTERFACE),
+    readTypeProps ? getAllProperties(scope, unitPath, TYPE_INTERFACES[unitType]) : Promise.resolve({} as PropertyMap),
+  ]);
+  const serviceProps = unitType === 'service' ? typeProps : {};
+
+  const parsed: Record<string, string> = {
+    Id: variantString(unitProps, 'Id') || fallback.Id || '',
+    Description: variantString(unitProps, 'Description') || fallback.Description || '',
+    LoadState: variantString(unitProps, 'LoadState') || fallback.LoadState || '',
+    ActiveState: variantString(unitProps, 'ActiveState') || fallback.ActiveState || '',
+    SubState: variantString(unitProps, 'SubState') || fallback.SubState || '',
+    UnitFileState: variantString(unitProps, 'UnitFileState'),
+    FragmentPath: variantString(unitProps, 'FragmentPath'),
+    CanStart: formatProperty('CanStart', unitProps.CanStart),
+    CanStop: formatProperty('CanStop', unitProps.CanStop),
+    CanReload: formatProperty('CanReload', unitProps.CanReload),
+    ...serviceListProperties(serviceProps),
+    // Sockets and mounts have a cgroup too, but their type interface is only read for details.
+    ControlGroup: variantString(typeProps, 'ControlGroup'),
+  };
+
+  if (detailed) {
+    for (const key of TYPE_DETAIL_PROPERTIES[unitType]) {
+      // Wants/Requires live on the Unit interface; everything else on the type interface.
+      parsed[key] = formatProperty(key, typeProps[key] ?? unitProps[key]);
+    }
+  }
+
+  return buildServiceInfo(parsed, scope);
+}
+
+/** The Service interface properties the list shows: executable, main PID, counters and restarts. */
+function serviceListProperties(serviceProps: PropertyMap): Record<string, string> {
+  return {
+    ExecStart: firstExecPath(serviceProps),
+    MainPID: variantString(serviceProps, 'MainPID'),
+    CPUUsageNSec: variantString(serviceProps, 'CPUUsageNSec'),
+    MemoryCurrent: variantString(serviceProps, 'MemoryCurrent'),
+    TasksCurrent: variantString(serviceProps, 'TasksCurrent'),
+    IOReadBytes: variantString(serviceProps, 'IOReadBytes'),
+    IOWriteBytes: variantString(serviceProps, 'IOWriteBytes'),
+    NRestarts: variantString(serviceProps, 'NRestarts'),
+    ControlGroup: variantString(serviceProps, 'ControlGroup'),
+  };
+}
+
+/** Unit file state and path per unit name, from a single ListUnitFiles call. */
+async function readUnitFileStates(scope: ServiceScope): Promise<Map<string, { path: string; state: string }>> {
+  const states = new Map<string, { path: string; state: string }>();
+  try {
+    const [files] = (await callManager(scope, 'ListUnitFiles')) as [UnitFileTuple[]];
+    for (const [filePath, state] of files ?? []) {
+      states.set(path.basename(filePath), { path: filePath, state });
+    }
+  } catch (error) {
+    console.warn('[DBUS] Failed to list unit files:', error);
+  }
+  return states;
+}
+
+/**
+ * Builds the list from ListUnits, which already carries names, descriptions
+ * and states, and ListUnitFiles for the enablement state. Each unit gets a
+ * read of CanStart and CanStop, so list rows offer the same actions as the
+ * details panel, and loaded services one more for what the table shows of
+ * their main process; everything else is filled in when details are opened.
+ */
+export async function listServices(filters: ServiceListFilters = {}): Promise<ServiceInfo[]> {
+  const scope = filters.scope ?? 'system';
+  const [[units], unitFiles] = await Promise.all([
+    callManager(scope, 'ListUnits') as Promise<[UnitTuple[]]>,
+    readUnitFileStates(scope),
+  ]);
+
+  const supportedUnits = (units ?? []).filter(([name]) => unitTypeOf(name) !== null);
+
+  const services = await Promise.all(
+    supportedUnits.map(async ([name, description, loadState, activeState, subState, , unitPath]) => {
+      // Instances (getty@tty1.service) are enabled through their template's file.
+      const unitFile = unitFiles.get(name) ?? unitFiles.get(name.replace(/@[^.]*\./, '@.'));
+      const parsed: Record<string, string> = {
+        Id: name,
+        Description: description,
+        LoadState: loadState,
+        ActiveState: activeState,
+        SubState: subState,
+        UnitFileState: unitFile?.state ?? '',
+        FragmentPath: unitFile?.path ?? '',
+      };
+
+      // ListUnits leaves out RefuseManualStart/Stop; without these the row would offer actions systemd refuses.
+      const [canStart, canStop] = await Promise.all([
+        getProperty(scope, unitPath, UNIT_INTERFACE, 'CanStart'),
+        getProperty(scope, unitPath, UNIT_INTERFACE, 'CanStop'),
+      ]);
+      parsed.CanStart = formatProperty('CanStart', canStart);
+      parsed.CanStop = formatProperty('CanStop', canStop);
+
+      if (unitTypeOf(name) === 'service' && loadState === 'loaded') {
+        const serviceProps = await getAllProperties(scope, unitPath, SERVICE_INTERFACE);
+        Object.assign(parsed, serviceListProperties(serviceProps));
+        // CanReload lives on the Unit interface; for services it follows from these two.
+        const reloadCommands: unknown = serviceProps.ExecReload?.value;
+        const canReload = (Array.isArray(reloadCommands) && reloadCommands.length > 0) || variantString(serviceProps, 'Type') === 'notify-reload';
+        parsed.CanReload = canReload ? 'yes' : 'no';
+      }
+
+      return buildServiceInfo(parsed, scope);
+    })
+  );
+
+  return filterServices(
+    services.filter((service): service is ServiceInfo => service !== null),
+    filters
+  );
+}
+
+function usecToMillis(variant: Variant | undefined): number | null {
+  const value: unknown = variant?.value;
+  if (typeof value !== 'bigint' && typeof value !== 'number') return null;
+  const millis = Number(value) / 1000;
+  return millis > 0 ? millis : null;
+}
+
+export async function listTimers(scope: ServiceScope = 'system'): Promise<TimerInfo[]> {
+  const [units] = (await callManager(scope, 'ListUnits')) as [UnitTuple[]];
+  const timerUnits = (units ?? []).filter(([name]) => name.endsWith('.timer'));
+
+  const timers = await Promise.all(
+    timerUnits.map(async ([name, description, , activeState, subState, , unitPath]): Promise<TimerInfo> => {
+      const timerProps = await getAllProperties(scope, unitPath, TYPE_INTERFACES.timer);
+      const calendar = (timerProps.TimersCalendar?.value as CalendarTimerTuple[] | undefined) ?? [];
+
+      return {
+        id: name,
+        description,
+        scope,
+        status: normaliseStatus(activeState, subState),
+        unit: variantString(timerProps, 'Unit') || name.replace(/\.timer$/, '.service'),
+        onCalendar: calendar.filter(([base]) => base === 'OnCalendar').map(([, spec]) => spec),
+        persistent: timerProps.Persistent?.value === true,
+        nextElapse: usecToMillis(timerProps.NextElapseUSecRealtime),
+        lastTrigger: usecToMillis(timerProps.LastTriggerUSec),
+      };
+    })
+  );
+
+  return timers.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export async function getServiceDetails(serviceId: string, scope: ServiceScope = 'system'): Promise<ServiceInfo | null> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  const unit = normalizeServiceId(serviceId);
+  // LoadUnit (unlike GetUnit) also resolves units that are not currently loaded.
+  const [unitPath] = (await callManager(scope, 'LoadUnit', 's', [unit])) as [string];
+  return readUnit(scope, unitPath, { Id: unit }, true);
+}
+
+export async function getUnitDependencies(serviceId: string, scope: ServiceScope = 'system'): Promise<UnitDependencies> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  const unit = normalizeUnitName(serviceId);
+  const [unitPath] = (await callManager(scope, 'LoadUnit', 's', [unit])) as [string];
+  const unitProps = await getAllProperties(scope, unitPath, UNIT_INTERFACE);
+
+  const parsed: Record<string, string> = {
+    Id: variantString(unitProps, 'Id'),
+    Description: variantString(unitProps, 'Description'),
+    ActiveState: variantString(unitProps, 'ActiveState'),
+    SubState: variantString(unitProps, 'SubState'),
+  };
+  for (const kind of DEPENDENCY_KINDS) {
+    const names = unitProps[kind]?.value as string[] | undefined;
+    parsed[kind] = Array.isArray(names) ? names.join(' ') : '';
+  }
+
+  return buildUnitDependencies(parsed, unit, scope);
+}
+
+export async function controlService(
+  serviceId: string,
+  action: ServiceAction,
+  scope: ServiceScope = 'system',
+  options: ServiceActionOptions = {}
+): Promise<ServiceControlResult> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  if (!SUPPORTED_ACTIONS.has(action)) {
+    throw new Error(`Unsupported action: ${action}`);
+  }
+
+  const unit = normalizeServiceId(serviceId);
+
+  const jobMethod = JOB_METHODS[action];
+  if (jobMethod) {
+    await callManager(scope, jobMethod, 'ss', [unit, 'replace'], true);
+  } else {
+    switch (action) {
+      case 'enable':
+      case 'enable-now':
+        await callManager(scope, 'EnableUnitFiles', 'asbb', [[unit], false, false], true);
+        await callManager(scope, 'Reload', '', [], true);
+        if (action === 'enable-now') {
+          await callManager(scope, 'StartUnit', 'ss', [unit, 'replace'], true);
+        }
+        break;
+      case 'disable':
+      case 'disable-now':
+        await callManager(scope, 'DisableUnitFiles', 'asb', [[unit], false], true);
+        await callManager(scope, 'Reload', '', [], true);
+        if (action === 'disable-now') {
+          await callManager(scope, 'StopUnit', 'ss', [unit, 'replace'], true);
+        }
+        break;
+      case 'mask':
+        await callManager(scope, 'MaskUnitFiles', 'asbb', [[unit], false, false], true);
+        await callManager(scope, 'Reload', '', [], true);
+        break;
+      case 'unmask':
+        await callManager(scope, 'UnmaskUnitFiles', 'asb', [[unit], false], true);
+        await callManager(scope, 'Reload', '', [], true);
+        break;
+      case 'reset-failed':
+        await callManager(scope, 'ResetFailedUnit', 's', [unit], true);
+        break;
+      case 'kill': {
+        const signal = options.signal ?? 'SIGTERM';
+        if (!isValidKillSignal(signal)) {
+          throw new Error(`Unsupported signal: ${signal}`);
+        }
+        const whom = options.killWhom === 'main' ? 'main' : 'all';
+        await callManager(scope, 'KillUnit', 'ssi', [unit, whom, os.constants.signals[signal]], true);
+        break;
+      }
+    }
+  }
+
+  return { action, serviceId: unit, domain: scope };
+}
+
+async function callBusDaemon(bus: MessageBus, member: string, rule: string): Promise<void> {
+  await bus.call(
+    new Message({
+      destination: 'org.freedesktop.DBus',
+      path: '/org/freedesktop/DBus',
+      interface: 'org.freedesktop.DBus',
+      member,
+      signature: 's',
+      body: [rule],
+    })
+  );
+}
+
+/**
+ * Decodes the bus-escaped last path segment of a unit object
+ * (`/org/freedesktop/systemd1/unit/foo_2eservice` -> `foo.service`).
+ */
+function unitIdFromPath(unitPath: string): string | null {
+  if (!unitPath.startsWith(UNIT_PATH_PREFIX)) return null;
+  return unitPath
+    .slice(UNIT_PATH_PREFIX.length)
+    .replace(/_([0-9a-f]{2})/gi, (_match, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)));
+}
+
+/**
+ * Subscribes to systemd's UnitNew/UnitRemoved and per-unit PropertiesChanged
+ * signals and reports each affected service as a ServiceEvent. Resolves with a
+ * function that removes the subscription.
+ */
+export async function watchServices(
+  listener: (event: ServiceEvent) => void,
+  scope: ServiceScope = 'system'
+): Promise<() => void> {
+  const bus = await connect(scope);
+  const pending = new Map<string, { timer: NodeJS.Timeout; type: ServiceEvent['type'] }>();
+
+  const emitUnit = async (unitPath: string, type: ServiceEvent['type']): Promise<void> => {
+    try {
+      const service = await readUnit(scope, unitPath);
+      if (service) {
+        listener({ type, serviceId: service.id, scope, service, timestamp: Date.now() });
+      }
+    } catch (error) {
+      console.warn('[DBUS] Failed to read changed unit:', error);
+    }
+  };
+
+  const schedule = (unitPath: string, type: ServiceEvent['type']): void => {
+    const existing = pending.get(unitPath);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+    const nextType = existing?.type === 'added' ? 'added' : type;
+    const timer = setTimeout(() => {
+      pending.delete(unitPath);
+      void emitUnit(unitPath, nextType);
+    }, SIGNAL_DEBOUNCE_MS);
+    pending.set(unitPath, { timer, type: nextType });
+  };
+
+  const onMessage = (message: Message): void => {
+    if (message.type !== MessageType.SIGNAL) return;
+
+    if (message.interface === PROPERTIES_INTERFACE && message.member === 'PropertiesChanged') {
+      if (message.body[0] !== UNIT_INTERFACE) return;
+      const unitId = unitIdFromPath(message.path);
+      if (unitId && unitTypeOf(unitId)) {
+        schedule(message.path, 'changed');
+      }
+      return;
+    }
+
+    if (message.interface !== MANAGER_INTERFACE) return;
+    const [unitId, unitPath] = message.body as [string, string];
+    if (!unitId || !unitTypeOf(unitId)) return;
+
+    if (message.member === 'UnitNew') {
+      schedule(unitPath, 'added');
+    } else if (message.member === 'UnitRemoved') {
+      const queued = pending.get(unitPath);
+      if (queued) {
+        clearTimeout(queued.timer);
+        pending.delete(unitPath);
+      }
+      listener({ type: 'removed', serviceId: unitId, scope, timestamp: Date.now() });
+    }
+  };
+
+  for (const rule of SIGNAL_MATCH_RULES) {
+    await callBusDaemon(bus, 'AddMatch', rule);
+  }
+  bus.on('message', onMessage);
+  await retainSubscription(scope);
+
+  return () => {
+    bus.removeListener('message', onMessage);
+    pending.forEach(({ timer }) => clearTimeout(timer));
+    pending.clear();
+    for (const rule of SIGNAL_MATCH_RULES) {
+      callBusDaemon(bus, 'RemoveMatch', rule).catch(() => undefined);
+    }
+    releaseSubscription(scope);
+  };
+}
+
+/**
+ * Calls `listener` whenever one unit's properties change or one of its jobs
+ * is removed (done, failed or canceled). Resolves with a function that
+ * removes the subscription.
+ */
+export async function watchUnit(unitId: string, listener: () => void, scope: ServiceScope = 'system'): Promise<() => void> {
+  const bus = await connect(scope);
+  const [unitPath] = (await callManager(scope, 'LoadUnit', 's', [unitId])) as [string];
+  const rules = [
+    `type='signal',sender='${SYSTEMD_DESTINATION}',path='${unitPath}',interface='${PROPERTIES_INTERFACE}',member='PropertiesChanged'`,
+    `type='signal',sender='${SYSTEMD_DESTINATION}',interface='${MANAGER_INTERFACE}',member='JobRemoved'`,
+  ];
+
+  const onMessage = (message: Message): void => {
+    if (message.type !== MessageType.SIGNAL) return;
+
+    if (message.interface === PROPERTIES_INTERFACE && message.member === 'PropertiesChanged') {
+      if (message.path === unitPath) listener();
+    } else if (message.interface === MANAGER_INTERFACE && message.member === 'JobRemoved') {
+      // JobRemoved(id, job, unit, result)
+      if (message.body[2] === unitId) listener();
+    }
+  };
+
+  const removeMatches = (): void => {
+    bus.removeListener('message', onMessage);
+    for (const rule of rules) {
+      callBusDaemon(bus, 'RemoveMatch', rule).catch(() => undefined);
+    }
+  };
+
+  try {
+    for (const rule of rules) {
+      await callBusDaemon(bus, 'AddMatch', rule);
+    }
+    bus.on('message', onMessage);
+    await retainSubscription(scope);
+  } catch (error) {
+    removeMatches();
+    throw error;
+  }
+
+  return () => {
+    removeMatches();
+    releaseSubscription(scope);
+  };
+}
+
+/** Without Subscribe systemd only broadcasts signals while another client is subscribed. */
+async function retainSubscription(scope: ServiceScope): Promise<void> {
+  const count = subscriberCounts.get(scope) ?? 0;
+  subscriberCounts.set(scope, count + 1);
+  if (count > 0) return;
+
+  try {
+    await callManager(scope, 'Subscribe');
+  } catch (error) {
+    subscriberCounts.set(scope, (subscriberCounts.get(scope) ?? 1) - 1);
+    throw error;
+  }
+}
+
+function releaseSubscription(scope: ServiceScope): void {
+  const count = (subscriberCounts.get(scope) ?? 0) - 1;
+  if (count > 0) {
+    subscriberCounts.set(scope, count);
+    return;
+  }
+  subscriberCounts.delete(scope);
+  callManager(scope, 'Unsubscribe').catch(() => undefined);
+}
+
+/**
+ * Maps D-Bus error names onto the error codes the systemctl provider raises so
+ * callers (and the fallback in services/index.ts) can treat both alike.
+ */
+function translateBusError(error: unknown): unknown {
+  if (!error || typeof error !== 'object') return error;
+  const type = (error as { type?: string }).type;
+  if (!type) return error;
+
+  if (ACCESS_DENIED_ERRORS.has(type)) {
+    const friendly = new Error('Access denied by polkit for this operation.');
+    (friendly as NodeJS.ErrnoException).code = 'EACCES';
+    return friendly;
+  }
+
+  // A system bus without systemd on it: the machine was not booted with systemd.
+  if (type === 'org.freedesktop.DBus.Error.ServiceUnknown' || type === 'org.freedesktop.DBus.Error.NameHasNoOwner') {
+    const friendly = new Error('Systemd is not available on this system. This application requires systemd to manage services on Linux.');
+    (friendly as NodeJS.ErrnoException).code = 'NO_SYSTEMD';
+    return friendly;
+  }
+
+  if (type === 'org.freedesktop.systemd1.NoSuchUnit' || type === 'org.freedesktop.DBus.Error.FileNotFound') {
+    const friendly = new Error('Service not found. It may have been removed or disabled.');
+    (friendly as NodeJS.ErrnoException).code = 'NOT_FOUND';
+    return friendly;
+  }
+
+  return error;
+}
+
+export function disconnect(scope?: ServiceScope): void {
+  const scopes: ServiceScope[] = scope ? [scope] : Array.from(busPromises.keys());
+  for (const target of scopes) {
+    const pending = busPromises.get(target);
+    if (!pending) continue;
+    busPromises.delete(target);
+    subscriberCounts.delete(target);
+    pending.then((bus) => bus.disconnect()).catch(() => undefined);
+  }
+}
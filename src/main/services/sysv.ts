@@ -0,0 +1,498 @@
+import { execFile, type ExecFileOptions } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+import type {
+  ServiceAction,
+  ServiceControlResult,
+  ServiceInfo,
+  ServiceListFilters,
+  ServiceStatus,
+  UnitDependencies,
+} from '../../types/service';
+import { isValidServiceId } from '../../utils/validation';
+import { DEPENDENCY_KINDS } from './linux';
+
+// execFile sets `code` to the exit status when the script ran, and to an errno string when it could not.
+type ExecError = Omit<NodeJS.ErrnoException, 'code'> & {
+  code?: string | number;
+  stdout?: string | Buffer;
+  stderr?: string | Buffer;
+  killed?: boolean;
+};
+
+type ExecFileAsync = (
+  file: string,
+  args: ReadonlyArray<string>,
+  options?: ExecFileOptions & { encoding?: BufferEncoding }
+) => Promise<{ stdout: string; stderr: string }>;
+
+const execFileAsync = promisify(execFile) as ExecFileAsync;
+
+const EXEC_OPTIONS = {
+  maxBuffer: 1024 * 1024 * 8,
+  encoding: 'utf8' as const,
+  env: {
+    ...process.env,
+    LANG: 'C',
+    LC_ALL: 'C',
+  },
+};
+
+const SUPPORTED_ACTIONS: ReadonlySet<ServiceAction> = new Set([
+  'start',
+  'stop',
+  'restart',
+  'enable',
+  'disable',
+  'enable-now',
+  'disable-now',
+]);
+
+const INIT_DIR = '/etc/init.d';
+
+// Debian keeps the runlevel links in /etc/rcN.d, Red Hat in /etc/rc.d/rcN.d (with /etc/rcN.d linking there).
+const RC_DIR_PATTERNS = ['/etc/rc%.d', '/etc/rc.d/rc%.d'];
+const RUNLEVELS = ['S', '0', '1', '2', '3', '4', '5', '6'];
+
+// Init script names are plain file names below /etc/init.d, e.g. `ssh` or `mountall.sh`.
+const SERVICE_NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.@+-]*$/;
+
+// Not services: helpers sourced by other scripts, and scripts that halt or reboot whatever argument they get.
+const IGNORED_SCRIPTS: ReadonlySet<string> = new Set([
+  'README',
+  'skeleton',
+  'functions',
+  'rc',
+  'rcS',
+  'halt',
+  'reboot',
+  'killall',
+  'single',
+]);
+const IGNORED_SUFFIXES = ['.dpkg-old', '.dpkg-dist', '.dpkg-new', '.rpmnew', '.rpmsave', '.bak', '~'];
+
+// `status` runs once per script on every list, so a hung script must not hold the list up for long.
+const STATUS_TIMEOUT_MS = 3000;
+const STATUS_CONCURRENCY = 6;
+
+// LSB fields surfaced as unit properties in the details panel.
+const LSB_DEPENDENCY_FIELDS = [
+  'Provides',
+  'Required-Start',
+  'Required-Stop',
+  'Should-Start',
+  'Should-Stop',
+  'Default-Start',
+  'Default-Stop',
+];
+
+// LSB fields naming what a script needs (Required-*) or merely uses when present (Should-*).
+const REQUIRED_FIELDS = ['Required-Start', 'Required-Stop'];
+const OPTIONAL_FIELDS = ['Should-Start', 'Should-Stop'];
+const START_FIELDS = ['Required-Start', 'Should-Start'];
+
+interface ScriptStatus {
+  status: ServiceStatus;
+  label: string;
+  pid: number | null;
+}
+
+interface ScriptHeader {
+  description: string;
+  /** The LSB `### BEGIN INIT INFO` fields, keyed as written. */
+  fields: Record<string, string>;
+  daemon: string | null;
+}
+
+/**
+ * Lists every script in /etc/init.d with the result of its `status` action
+ * and the runlevels it is started in.
+ */
+export async function listServices({ search, status }: ServiceListFilters = {}): Promise<ServiceInfo[]> {
+  const [names, runlevels] = await Promise.all([listInitScripts(), readRunlevels()]);
+
+  let services = await mapWithConcurrency(names, STATUS_CONCURRENCY, async (name) =>
+    buildServiceInfo(name, await readStatus(name), runlevels.get(name) ?? [])
+  );
+
+  if (search) {
+    const query = search.toLowerCase();
+    services = services.filter(
+      (item) =>
+        item.name.toLowerCase().includes(query) ||
+        (item.description && item.description.toLowerCase().includes(query))
+    );
+  }
+
+  if (status && status !== 'all') {
+    const target = status.toLowerCase();
+    services = services.filter((item) => item.status === target);
+  }
+
+  return services.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function controlService(serviceId: string, action: ServiceAction): Promise<ServiceControlResult> {
+  const name = normalizeServiceName(serviceId);
+
+  if (!SUPPORTED_ACTIONS.has(action)) {
+    throw new Error(`Unsupported action: ${action}`);
+  }
+  if (!(await listInitScripts()).includes(name)) {
+    throw notFoundError();
+  }
+
+  let elevated = false;
+  for (const [file, args] of await buildActionCommands(action, name)) {
+    elevated = (await execWithElevation(file, args)) || elevated;
+  }
+
+  return { action, serviceId: name, ...(elevated ? { elevated } : {}) };
+}
+
+export async function getServiceDetails(serviceId: string): Promise<ServiceInfo | null> {
+  const name = normalizeServiceName(serviceId);
+
+  if (!(await listInitScripts()).includes(name)) {
+    return null;
+  }
+
+  const [status, runlevels] = await Promise.all([readStatus(name), readRunlevels()]);
+  const service = await buildServiceInfo(name, status, runlevels.get(name) ?? []);
+  const { fields } = await readScriptHeader(name);
+
+  const unitProperties: Record<string, string> = {};
+  for (const field of LSB_DEPENDENCY_FIELDS) {
+    if (fields[field]) {
+      unitProperties[field] = fields[field];
+    }
+  }
+  return Object.keys(unitProperties).length > 0 ? { ...service, unitProperties } : service;
+}
+
+/**
+ * Dependencies declared in the LSB headers: Required-Start and Required-Stop
+ * become Requires, the Should-* fields Wants, and the start fields also order
+ * the script After what they name. The reverse kinds come from the other
+ * scripts' headers. Names are mapped to scripts through their Provides lines;
+ * facilities such as `$network` are kept as written.
+ */
+export async function getUnitDependencies(serviceId: string): Promise<UnitDependencies> {
+  const name = normalizeServiceName(serviceId);
+  const names = await listInitScripts();
+  if (!names.includes(name)) {
+    throw notFoundError();
+  }
+
+  const headers = new Map(
+    await mapWithConcurrency(names, STATUS_CONCURRENCY, async (script) => [script, await readScriptHeader(script)] as const)
+  );
+
+  const providers = new Map<string, string>();
+  for (const [script, { fields }] of headers) {
+    for (const provided of (fields.Provides ?? '').split(/\s+/).filter(Boolean)) {
+      if (!providers.has(provided)) providers.set(provided, script);
+    }
+  }
+  const namedIn = (script: string, keys: string[]): string[] => {
+    const fields = headers.get(script)?.fields ?? {};
+    const named = keys.flatMap((key) => (fields[key] ?? '').split(/\s+/).filter(Boolean));
+    return [...new Set(named.map((value) => providers.get(value) ?? value))].filter((value) => value !== script);
+  };
+
+  const dependencies = Object.fromEntries(DEPENDENCY_KINDS.map((kind) => [kind, [] as string[]])) as UnitDependencies['dependencies'];
+  dependencies.Requires = namedIn(name, REQUIRED_FIELDS);
+  dependencies.Wants = namedIn(name, OPTIONAL_FIELDS);
+  dependencies.After = namedIn(name, START_FIELDS);
+  for (const script of names) {
+    if (script === name) continue;
+    if (namedIn(script, REQUIRED_FIELDS).includes(name)) dependencies.RequiredBy.push(script);
+    if (namedIn(script, OPTIONAL_FIELDS).includes(name)) dependencies.WantedBy.push(script);
+    if (namedIn(script, START_FIELDS).includes(name)) dependencies.Before.push(script);
+  }
+  for (const kind of DEPENDENCY_KINDS) {
+    dependencies[kind].sort();
+  }
+
+  return {
+    unitId: name,
+    description: headers.get(name)?.description ?? '',
+    scope: 'system',
+    status: (await readStatus(name)).status,
+    dependencies,
+  };
+}
+
+function normalizeServiceName(serviceId: string): string {
+  if (!isValidServiceId(serviceId) || !SERVICE_NAME_PATTERN.test(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+  return serviceId;
+}
+
+function notFoundError(): Error {
+  const friendly = new Error('Service not found. It may have been removed.');
+  (friendly as NodeJS.ErrnoException).code = 'NOT_FOUND';
+  return friendly;
+}
+
+async function listInitScripts(): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(INIT_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      const friendly = new Error(`${INIT_DIR} does not exist; no SysV init scripts to manage.`);
+      (friendly as NodeJS.ErrnoException).code = 'NO_SYSV';
+      throw friendly;
+    }
+    throw error;
+  }
+
+  const names: string[] = [];
+  for (const name of entries) {
+    if (
+      !SERVICE_NAME_PATTERN.test(name) ||
+      IGNORED_SCRIPTS.has(name) ||
+      IGNORED_SUFFIXES.some((suffix) => name.endsWith(suffix))
+    ) {
+      continue;
+    }
+    try {
+      const stat = await fs.stat(path.join(INIT_DIR, name));
+      // Only executable files are scripts init would run.
+      if (stat.isFile() && (stat.mode & 0o111) !== 0) {
+        names.push(name);
+      }
+    } catch {
+      continue;
+    }
+  }
+  return names;
+}
+
+/**
+ * Runs the script's `status` action and reads its LSB exit code: 0 running,
+ * 1 and 2 dead with a pid or lock file left behind, 3 not running, 4 unknown.
+ * Scripts without a `status` action print their usage and are reported as
+ * unknown.
+ */
+async function readStatus(name: string): Promise<ScriptStatus> {
+  let output: string;
+  let exitCode: number | string | undefined;
+  try {
+    ({ stdout: output } = await execFileAsync(path.join(INIT_DIR, name), ['status'], {
+      ...EXEC_OPTIONS,
+      timeout: STATUS_TIMEOUT_MS,
+    }));
+    exitCode = 0;
+  } catch (error) {
+    const err = error as ExecError;
+    if (err.killed) {
+      return { status: 'unknown', label: 'status timed out', pid: null };
+    }
+    output = `${err.stdout ?? ''}${err.stderr ?? ''}`;
+    exitCode = err.code;
+  }
+
+  if (/usage:/i.test(output)) {
+    return { status: 'unknown', label: 'no status action', pid: null };
+  }
+
+  // Red Hat's status() prints `sshd (pid  812) is running...`.
+  const pid = /pid\s+(\d+)/i.exec(output);
+  switch (exitCode) {
+    case 0:
+      return { status: 'active', label: 'running', pid: pid ? Number(pid[1]) : null };
+    case 1:
+      return { status: 'failed', label: 'dead, pid file exists', pid: null };
+    case 2:
+      return { status: 'failed', label: 'dead, lock file exists', pid: null };
+    case 3:
+      return { status: 'inactive', label: 'stopped', pid: null };
+    default:
+      return { status: 'unknown', label: 'unknown', pid: null };
+  }
+}
+
+/** Maps each script to the runlevels it has a start (`S<nn>name`) link in. */
+async function readRunlevels(): Promise<Map<string, string[]>> {
+  const runlevels = new Map<string, Set<string>>();
+
+  for (const runlevel of RUNLEVELS) {
+    for (const pattern of RC_DIR_PATTERNS) {
+      let links: string[];
+      try {
+        links = await fs.readdir(pattern.replace('%', runlevel));
+      } catch {
+        continue;
+      }
+      for (const link of links) {
+        const match = /^S\d{2}(.+)$/.exec(link);
+        if (!match) continue;
+        const levels = runlevels.get(match[1]) ?? new Set<string>();
+        levels.add(runlevel);
+        runlevels.set(match[1], levels);
+      }
+    }
+  }
+
+  return new Map([...runlevels].map(([name, levels]) => [name, RUNLEVELS.filter((level) => levels.has(level))]));
+}
+
+/** Reads the LSB header (or the older chkconfig `# description:` line) and a plain `DAEMON=` assignment. */
+async function readScriptHeader(name: string): Promise<ScriptHeader> {
+  const header: ScriptHeader = { description: '', fields: {}, daemon: null };
+  let script: string;
+  try {
+    script = await fs.readFile(path.join(INIT_DIR, name), 'utf8');
+  } catch {
+    return header;
+  }
+
+  const block = /^### BEGIN INIT INFO\s*$([\s\S]*?)^### END INIT INFO/m.exec(script);
+  if (block) {
+    let current: string | null = null;
+    for (const line of block[1].split('\n')) {
+      const field = /^#\s*([A-Za-z-]+):\s*(.*)$/.exec(line);
+      if (field) {
+        current = field[1];
+        header.fields[current] = field[2].trim();
+      } else if (current && /^#(\t| {2,})/.test(line)) {
+        // Description may continue on lines that start with `#` and a tab or at least two spaces.
+        header.fields[current] = `${header.fields[current]} ${line.slice(1).trim()}`.trim();
+      }
+    }
+  }
+
+  const chkconfigDescription = /^# description:\s*(.+)$/m.exec(script);
+  header.description =
+    header.fields['Short-Description'] ||
+    header.fields.Description ||
+    chkconfigDescription?.[1].replace(/\\$/, '').trim() ||
+    '';
+
+  const daemon = /^\s*DAEMON=(?:"([^"$`]*)"|'([^']*)'|([^\s"'$`;]+))\s*$/m.exec(script);
+  header.daemon = daemon?.[1] ?? daemon?.[2] ?? daemon?.[3] ?? null;
+  return header;
+}
+
+async function buildServiceInfo(name: string, state: ScriptStatus, runlevels: string[]): Promise<ServiceInfo> {
+  const header = await readScriptHeader(name);
+  const isRunning = state.status === 'active';
+  // Links in the halt and reboot runlevels stop services rather than start them.
+  const startLevels = runlevels.filter((level) => level !== '0' && level !== '6');
+  const enabled = startLevels.length > 0;
+
+  return {
+    id: name,
+    name,
+    description: header.description,
+    status: state.status,
+    statusLabel: state.label,
+    // Worded like systemd's unit file states so backups and restores read it the same way.
+    startupType: enabled ? `enabled (${startLevels.join(', ')})` : 'disabled',
+    executable: header.daemon,
+    unitFile: path.join(INIT_DIR, name),
+    pid: state.pid,
+    provider: 'sysv',
+    domain: null,
+    raw: { status: state.label, runlevels: startLevels, lsb: header.fields },
+    // Scripts without a usable status action can still be started and stopped.
+    canStart: !isRunning,
+    canStop: state.status !== 'inactive',
+    canRestart: isRunning || state.status === 'unknown',
+    canEnable: !enabled,
+    canDisable: enabled,
+  };
+}
+
+/** update-rc.d on Debian and derivatives, chkconfig on Red Hat and SUSE; both usually live in sbin. */
+async function findRunlevelTool(): Promise<{ tool: 'update-rc.d' | 'chkconfig'; path: string } | null> {
+  const dirs = [...(process.env.PATH ?? '').split(path.delimiter).filter(Boolean), '/usr/sbin', '/sbin'];
+  for (const tool of ['update-rc.d', 'chkconfig'] as const) {
+    for (const dir of dirs) {
+      const candidate = path.join(dir, tool);
+      try {
+        await fs.access(candidate, fs.constants.X_OK);
+        return { tool, path: candidate };
+      } catch {
+        continue;
+      }
+    }
+  }
+  return null;
+}
+
+async function buildRunlevelCommands(enable: boolean, name: string): Promise<Array<[string, string[]]>> {
+  const found = await findRunlevelTool();
+  if (!found) {
+    throw new Error('Neither update-rc.d nor chkconfig was found, so runlevel links cannot be changed.');
+  }
+
+  if (found.tool === 'update-rc.d') {
+    // `defaults` creates the links from the LSB header when there are none; `enable` turns existing stop links into start links.
+    return enable
+      ? [[found.path, [name, 'defaults']], [found.path, [name, 'enable']]]
+      : [[found.path, [name, 'disable']]];
+  }
+  return enable ? [[found.path, ['--add', name]], [found.path, [name, 'on']]] : [[found.path, [name, 'off']]];
+}
+
+async function buildActionCommands(action: ServiceAction, name: string): Promise<Array<[string, string[]]>> {
+  const script = path.join(INIT_DIR, name);
+  switch (action) {
+    case 'enable':
+      return buildRunlevelCommands(true, name);
+    case 'disable':
+      return buildRunlevelCommands(false, name);
+    case 'enable-now':
+      return [...(await buildRunlevelCommands(true, name)), [script, ['start']]];
+    case 'disable-now':
+      return [...(await buildRunlevelCommands(false, name)), [script, ['stop']]];
+    default:
+      return [[script, [action]]];
+  }
+}
+
+/** Runs `file args`, retrying through pkexec when the script or tool needs root. */
+async function execWithElevation(file: string, args: ReadonlyArray<string>): Promise<boolean> {
+  try {
+    await execFileAsync(file, args, EXEC_OPTIONS);
+    return false;
+  } catch (error) {
+    if (needsRoot(error)) {
+      await execFileAsync('pkexec', [file, ...args], EXEC_OPTIONS);
+      return true;
+    }
+    const err = error as ExecError;
+    const message = `${err.stderr ?? ''}${err.stdout ?? ''}`.trim();
+    throw message ? new Error(message) : error;
+  }
+}
+
+function needsRoot(error: unknown): boolean {
+  const err = error as ExecError;
+  if (err?.code === 'EACCES' || err?.code === 'EPERM') return true;
+  // LSB reserves exit code 4 for "user had insufficient privilege".
+  if (err?.code === 4 && process.getuid?.() !== 0) return true;
+  const message = `${err?.stderr ?? ''}${err?.stdout ?? ''}`;
+  return /permission denied|must be root|only root|superuser|not permitted/i.test(message);
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, mapper: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let index = 0;
+
+  async function worker(): Promise<void> {
+    while (index < items.length) {
+      const currentIndex = index++;
+      results[currentIndex] = await mapper(items[currentIndex]);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker()));
+  return results;
+}
@@ -0,0 +1,151 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { EnvironmentSaveResult, OverrideSaveResult, ServiceScope, UnitFileEntry, UnitFileSet } from '../types/service';
+import { isValidServiceId } from '../utils/validation';
+import { buildEnvironmentLines } from './serviceCreator';
+import { daemonReload, execWithElevation, normalizeServiceId, scopeArgs } from './services/linux';
+
+const execFileAsync = promisify(execFile);
+
+const MAX_OVERRIDE_BYTES = 64 * 1024;
+const OVERRIDE_FILE = 'override.conf';
+// Kept apart from override.conf so the environment editor and the override editor do not overwrite each other.
+// systemd applies drop-ins in file name order across /etc, /run and /usr/lib, so the zz- prefix makes
+// this one come last and its `Environment=` reset see every assignment it is meant to replace.
+const ENVIRONMENT_FILE = 'zz-service-manager-environment.conf';
+
+/** Same directories `systemctl edit` writes to for each scope. */
+function overrideDirectory(unitId: string, scope: ServiceScope): string {
+  const base = scope === 'user'
+    ? path.join(os.homedir(), '.config', 'systemd', 'user')
+    : '/etc/systemd/system';
+  return path.join(base, `${unitId}.d`);
+}
+
+async function readEntry(filePath: string): Promise<UnitFileEntry> {
+  try {
+    return { path: filePath, content: await fs.promises.readFile(filePath, 'utf8') };
+  } catch {
+    return { path: filePath, content: null };
+  }
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/** Installs `content` at `target` through a temp file, so system-scope writes can be retried under pkexec. */
+async function installFile(content: string, target: string, scope: ServiceScope): Promise<boolean> {
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'service-manager-'));
+  const tempFile = path.join(tempDir, path.basename(target));
+  try {
+    await fs.promises.writeFile(tempFile, content.endsWith('\n') ? content : `${content}\n`, { mode: 0o644 });
+    return await execWithElevation('install', ['-D', '-m', '0644', tempFile, target], scope);
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+export async function getUnitFiles(serviceId: string, scope: ServiceScope = 'system'): Promise<UnitFileSet> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  const unitId = normalizeServiceId(serviceId);
+  const { stdout } = await execFileAsync(
+    'systemctl',
+    [...scopeArgs(scope), 'show', unitId, '--no-pager', '--property=FragmentPath,DropInPaths'],
+    { encoding: 'utf8', env: { ...process.env, LANG: 'C', LC_ALL: 'C' } }
+  );
+
+  const properties: Record<string, string> = {};
+  for (const line of stdout.split('\n')) {
+    const separatorIndex = line.indexOf('=');
+    if (separatorIndex === -1) continue;
+    properties[line.slice(0, separatorIndex)] = line.slice(separatorIndex + 1).trim();
+  }
+
+  const overridePath = path.join(overrideDirectory(unitId, scope), OVERRIDE_FILE);
+  const dropInPaths = (properties.DropInPaths || '')
+    .split(/\s+/)
+    .filter((dropIn) => dropIn && dropIn !== overridePath);
+
+  return {
+    unitId,
+    scope,
+    fragment: properties.FragmentPath ? await readEntry(properties.FragmentPath) : null,
+    dropIns: await Promise.all(dropInPaths.map(readEntry)),
+    overridePath,
+    override: await readOptional(overridePath),
+  };
+}
+
+/**
+ * Writes (or, for empty content, removes) the unit's override.conf and reloads
+ * the manager. System-scope writes go through `install`/`rm` so they can be
+ * retried under pkexec exactly like service control.
+ */
+export async function saveOverride(
+  serviceId: string,
+  content: string,
+  scope: ServiceScope = 'system'
+): Promise<OverrideSaveResult> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  if (typeof content !== 'string' || Buffer.byteLength(content, 'utf8') > MAX_OVERRIDE_BYTES) {
+    throw new Error(`Override content must be text of at most ${MAX_OVERRIDE_BYTES / 1024} KB`);
+  }
+
+  if (content.includes('\0')) {
+    throw new Error('Override content contains invalid characters');
+  }
+
+  const unitId = normalizeServiceId(serviceId);
+  const overridePath = path.join(overrideDirectory(unitId, scope), OVERRIDE_FILE);
+  const removed = content.trim() === '';
+
+  const elevated = removed
+    ? await execWithElevation('rm', ['-f', overridePath], scope)
+    : await installFile(content, overridePath, scope);
+
+  const reloadElevated = await daemonReload(scope);
+
+  return { unitId, path: overridePath, removed, elevated: elevated || reloadElevated };
+}
+
+/**
+ * Replaces the unit's `Environment=` assignments with `variables` through a
+ * drop-in that sorts after every other one. Its empty `Environment=` clears
+ * what the unit file and all earlier drop-ins (override.conf included) set;
+ * a drop-in that sorted later would add its assignments back on top.
+ * `EnvironmentFile=` is left alone. The running process keeps its
+ * environment until the service is restarted.
+ */
+export async function saveEnvironment(
+  serviceId: string,
+  variables: Record<string, string>,
+  scope: ServiceScope = 'system'
+): Promise<EnvironmentSaveResult> {
+  if (!isValidServiceId(serviceId)) {
+    throw new Error(`Invalid service identifier: ${serviceId}`);
+  }
+
+  const unitId = normalizeServiceId(serviceId);
+  const dropInPath = path.join(overrideDirectory(unitId, scope), ENVIRONMENT_FILE);
+  const content = ['[Service]', 'Environment=', ...buildEnvironmentLines(variables), ''].join('\n');
+
+  const elevated = await installFile(content, dropInPath, scope);
+  const reloadElevated = await daemonReload(scope);
+
+  return { unitId, path: dropInPath, elevated: elevated || reloadElevated };
+}
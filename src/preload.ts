@@ -3,15 +3,45 @@ import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron';
 import type {
   IpcResponse,
   ServiceAction,
+  ServiceActionOptions,
   ServiceControlResult,
+  ServiceEvent,
   ServiceInfo,
   ServiceListFilters,
+  ServiceScope,
+  ServiceProviderKind,
   ServiceAPI,
+  TimerInfo,
+  BootAnalysis,
+  RemoteHostCheck,
+  MachineInfo,
+  ResourceSample,
+  UnitProcessTree,
+  ProcessSignalResult,
+  SecurityReport,
+  KillSignal,
+  UnitDependencies,
+  DependencyImpact,
+  UnitFileSet,
+  OverrideSaveResult,
+  ResourceLimits,
+  ResourceLimitsResult,
+  ResourceLimitsUpdate,
+  NewServiceDefinition,
+  NewServiceOptions,
+  NewServicePreview,
+  NewServiceResult,
+  TransientUnitDefinition,
+  ServiceEnvironment,
+  EnvironmentSaveResult,
+  SystemdJob,
+  FailureDiagnosis,
   UpdateInfo,
   UpdateProgress,
   ServiceBackup,
   ServiceHealthStatus,
   HealthCheckConfig,
+  UnstableService,
   HealthCheckEvent,
   ServiceStatus,
   ServiceLogs,
@@ -22,19 +52,72 @@ import type {
 const api: ServiceAPI = {
   listServices: (filters?: ServiceListFilters) =>
     ipcRenderer.invoke('services:list', filters || {}) as Promise<IpcResponse<ServiceInfo[]>>,
-  controlService: (serviceId: string, action: ServiceAction) =>
-    ipcRenderer.invoke('services:control', { serviceId, action }) as Promise<
+  controlService: (
+    serviceId: string,
+    action: ServiceAction,
+    scope?: ServiceScope,
+    options?: ServiceActionOptions,
+    host?: string,
+    machine?: string
+  ) =>
+    ipcRenderer.invoke('services:control', { serviceId, action, scope, options, host, machine }) as Promise<
       IpcResponse<ServiceControlResult>
     >,
-  getServiceDetails: (serviceId: string) =>
-    ipcRenderer.invoke('services:details', serviceId) as Promise<IpcResponse<ServiceInfo | null>>,
+  getServiceDetails: (serviceId: string, scope?: ServiceScope, host?: string, machine?: string) =>
+    ipcRenderer.invoke('services:details', serviceId, scope, host, machine) as Promise<IpcResponse<ServiceInfo | null>>,
+  checkRemoteHost: (host: string) =>
+    ipcRenderer.invoke('hosts:check', host) as Promise<IpcResponse<RemoteHostCheck>>,
+  listMachines: () =>
+    ipcRenderer.invoke('machines:list') as Promise<IpcResponse<MachineInfo[]>>,
+  listTimers: (scope?: ServiceScope) =>
+    ipcRenderer.invoke('timers:list', scope) as Promise<IpcResponse<TimerInfo[]>>,
+  getBootAnalysis: (scope?: ServiceScope) =>
+    ipcRenderer.invoke('boot:analyze', scope) as Promise<IpcResponse<BootAnalysis>>,
+  getUnitDependencies: (serviceId: string, scope?: ServiceScope) =>
+    ipcRenderer.invoke('dependencies:get', serviceId, scope) as Promise<IpcResponse<UnitDependencies>>,
+  getResourceHistory: (serviceId: string, scope?: ServiceScope) =>
+    ipcRenderer.invoke('services:resourceHistory', serviceId, scope) as Promise<IpcResponse<ResourceSample[]>>,
+  getUnitProcesses: (serviceId: string, scope?: ServiceScope) =>
+    ipcRenderer.invoke('processes:list', serviceId, scope) as Promise<IpcResponse<UnitProcessTree>>,
+  getSecurityReport: (serviceId: string, scope?: ServiceScope) =>
+    ipcRenderer.invoke('security:report', serviceId, scope) as Promise<IpcResponse<SecurityReport>>,
+  signalProcess: (serviceId: string, pid: number, signal: KillSignal, scope?: ServiceScope) =>
+    ipcRenderer.invoke('processes:signal', { serviceId, pid, signal, scope }) as Promise<IpcResponse<ProcessSignalResult>>,
+  getDependencyImpact: (serviceId: string, action: ServiceAction, scope?: ServiceScope) =>
+    ipcRenderer.invoke('dependencies:impact', { serviceId, action, scope }) as Promise<IpcResponse<DependencyImpact>>,
+  getUnitFiles: (serviceId: string, scope?: ServiceScope) =>
+    ipcRenderer.invoke('unitFiles:get', serviceId, scope) as Promise<IpcResponse<UnitFileSet>>,
+  saveOverride: (serviceId: string, content: string, scope?: ServiceScope) =>
+    ipcRenderer.invoke('unitFiles:saveOverride', { serviceId, content, scope }) as Promise<
+      IpcResponse<OverrideSaveResult>
+    >,
+  getServiceEnvironment: (serviceId: string, scope?: ServiceScope, reveal?: boolean) =>
+    ipcRenderer.invoke('environment:get', serviceId, scope, reveal) as Promise<IpcResponse<ServiceEnvironment>>,
+  saveServiceEnvironment: (serviceId: string, variables: Record<string, string>, scope?: ServiceScope) =>
+    ipcRenderer.invoke('environment:save', { serviceId, variables, scope }) as Promise<IpcResponse<EnvironmentSaveResult>>,
+  getResourceLimits: (serviceId: string, scope?: ServiceScope) =>
+    ipcRenderer.invoke('limits:get', serviceId, scope) as Promise<IpcResponse<ResourceLimits>>,
+  setResourceLimits: (serviceId: string, update: ResourceLimitsUpdate, scope?: ServiceScope) =>
+    ipcRenderer.invoke('limits:set', { serviceId, update, scope }) as Promise<IpcResponse<ResourceLimitsResult>>,
+  previewNewService: (definition: NewServiceDefinition) =>
+    ipcRenderer.invoke('services:previewNew', definition) as Promise<IpcResponse<NewServicePreview>>,
+  createService: (definition: NewServiceDefinition, options?: NewServiceOptions) =>
+    ipcRenderer.invoke('services:create', { definition, options }) as Promise<IpcResponse<NewServiceResult>>,
+  runTransientUnit: (definition: TransientUnitDefinition, scope?: ServiceScope) =>
+    ipcRenderer.invoke('services:runTransient', { definition, scope }) as Promise<IpcResponse<ServiceControlResult>>,
+  listJobs: (scope?: ServiceScope) =>
+    ipcRenderer.invoke('jobs:list', scope) as Promise<IpcResponse<SystemdJob[]>>,
+  getFailureDiagnosis: (serviceId: string, scope?: ServiceScope) =>
+    ipcRenderer.invoke('services:diagnose', serviceId, scope) as Promise<IpcResponse<FailureDiagnosis>>,
+  cancelJob: (jobId: number, scope?: ServiceScope) =>
+    ipcRenderer.invoke('jobs:cancel', jobId, scope) as Promise<IpcResponse<boolean>>,
   openPath: (targetPath: string) => {
     ipcRenderer.send('app:openPath', targetPath);
   },
   showError: (message: string) =>
     ipcRenderer.invoke('app:showErrorDialog', message) as Promise<void>,
-  onServiceEvent: (handler: (payload: unknown) => void) => {
-    const listener = (_event: IpcRendererEvent, payload: unknown) => handler(payload);
+  onServiceEvent: (handler: (event: ServiceEvent) => void) => {
+    const listener = (_event: IpcRendererEvent, event: ServiceEvent) => handler(event);
     ipcRenderer.on('services:event', listener);
     return () => ipcRenderer.removeListener('services:event', listener);
   },
@@ -46,6 +129,8 @@ const api: ServiceAPI = {
     ipcRenderer.invoke('app:applyPendingUpdate') as Promise<IpcResponse<boolean>>,
   getAppVersion: () =>
     ipcRenderer.invoke('app:getVersion') as Promise<string>,
+  getServiceProvider: () =>
+    ipcRenderer.invoke('services:getProvider') as Promise<ServiceProviderKind>,
   onUpdateAvailable: (handler: (updateInfo: UpdateInfo) => void) => {
     const npmListener = (_event: IpcRendererEvent, updateInfo: UpdateInfo) => handler(updateInfo);
     const regularListener = (_event: IpcRendererEvent, data: { version: string; currentVersion: string; releaseNotes?: string }) => {
@@ -79,8 +164,8 @@ const api: ServiceAPI = {
     ipcRenderer.on('update:error', listener);
     return () => ipcRenderer.removeListener('update:error', listener);
   },
-  createBackup: () =>
-    ipcRenderer.invoke('backup:create') as Promise<IpcResponse<ServiceBackup>>,
+  createBackup: (scope?: ServiceScope, host?: string, machine?: string) =>
+    ipcRenderer.invoke('backup:create', scope, host, machine) as Promise<IpcResponse<ServiceBackup>>,
   listBackups: () =>
     ipcRenderer.invoke('backup:list') as Promise<IpcResponse<ServiceBackup[]>>,
   getBackup: (id: string) =>
@@ -104,8 +189,10 @@ const api: ServiceAPI = {
     ipcRenderer.on('health:event', listener);
     return () => ipcRenderer.removeListener('health:event', listener);
   },
-  getServiceLogs: (serviceId: string, lines?: number) =>
-    ipcRenderer.invoke('logs:get', { serviceId, lines }) as Promise<IpcResponse<ServiceLogs>>,
+  getUnstableServices: () =>
+    ipcRenderer.invoke('health:unstable') as Promise<IpcResponse<UnstableService[]>>,
+  getServiceLogs: (serviceId: string, lines?: number, scope?: ServiceScope, host?: string, machine?: string) =>
+    ipcRenderer.invoke('logs:get', { serviceId, lines, scope, host, machine }) as Promise<IpcResponse<ServiceLogs>>,
   exportServices: (format: ExportFormat, services: ServiceInfo[]) =>
     ipcRenderer.invoke('services:export', { format, services }) as Promise<IpcResponse<ExportResult>>,
 };
@@ -1,5 +1,21 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import type { ServiceInfo, ExportFormat, ServiceAction } from '../types/service';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type {
+  ServiceInfo,
+  ExportFormat,
+  ServiceAction,
+  ServiceActionOptions,
+  ServiceActionOutcome,
+  ServiceEvent,
+  ServiceScope,
+  TimerInfo,
+  UnitType,
+  NewServiceResult,
+  ServiceControlResult,
+  DependencyImpact,
+  MachineInfo,
+  ServiceProviderKind,
+  UnstableService,
+} from '../types/service';
 import ServiceTable from './components/ServiceTable';
 import ServiceDetails from './components/ServiceDetails';
 import Header from './components/Header';
@@ -7,13 +23,64 @@ import Footer from './components/Footer';
 import Settings from './components/Settings';
 import BackupManager from './components/BackupManager';
 import LogViewer from './components/LogViewer';
+import TimersDashboard from './components/TimersDashboard';
+import BootPerformanceView from './components/BootPerformanceView';
+import OverrideEditor from './components/OverrideEditor';
+import ServiceWizard from './components/ServiceWizard';
+import TransientUnitDialog from './components/TransientUnitDialog';
+import DependencyImpactDialog from './components/DependencyImpactDialog';
+import JobsPanel from './components/JobsPanel';
+import ActionOutcomeDialog from './components/ActionOutcomeDialog';
 import Toast, { useToast } from './components/Toast';
 import { UpdateNotification } from './components/UpdateNotification';
 import { useSettings } from './hooks/useSettings';
 import { useUserPreferences } from './hooks/useUserPreferences';
 import { getUserFriendlyErrorMessage } from '../utils/errorHandler';
 
-const VALID_SERVICE_ACTIONS = new Set<ServiceAction>(['start', 'stop', 'restart', 'enable', 'disable']);
+const VALID_SERVICE_ACTIONS = new Set<ServiceAction>([
+  'start',
+  'stop',
+  'restart',
+  'enable',
+  'disable',
+  'reload',
+  'reload-or-restart',
+  'try-restart',
+  'mask',
+  'unmask',
+  'reset-failed',
+  'kill',
+  'enable-now',
+  'disable-now',
+]);
+
+// Shown next to the OS in the footer when Linux services are not managed by systemd.
+const INIT_SYSTEM_LABELS: Partial<Record<ServiceProviderKind, string>> = {
+  openrc: 'OpenRC',
+  runit: 'runit',
+  s6: 's6',
+  sysv: 'SysV init',
+};
+
+// Actions that are checked for dependent units before they run.
+const IMPACT_ACTIONS = new Set<string>(['stop', 'disable', 'disable-now']);
+
+interface ReportedOutcome {
+  serviceId: string;
+  serviceName: string;
+  action: string;
+  outcome: ServiceActionOutcome;
+}
+
+interface PendingServiceAction {
+  serviceId: string;
+  action: string;
+  serviceName: string;
+  options?: ServiceActionOptions;
+  impact: DependencyImpact;
+}
+
+const unstableKey = (unstable: UnstableService) => `${unstable.scope}:${unstable.serviceId}:${unstable.since}`;
 
 const App: React.FC = () => {
   const [services, setServices] = useState<ServiceInfo[]>([]);
@@ -21,25 +88,69 @@ const App: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
+  const [scope, setScope] = useState<ServiceScope>('system');
+  const [host, setHost] = useState<string | null>(null);
+  const [machine, setMachine] = useState<string | null>(null);
+  const [machines, setMachines] = useState<MachineInfo[]>([]);
+  const [serviceProvider, setServiceProvider] = useState<ServiceProviderKind | null>(null);
+  const [typeFilter, setTypeFilter] = useState<UnitType | 'all'>('service');
   const [loading, setLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [isWindowFocused, setIsWindowFocused] = useState(true);
   const [loadTime, setLoadTime] = useState<number | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [backupsOpen, setBackupsOpen] = useState(false);
+  const [timersOpen, setTimersOpen] = useState(false);
+  const [jobsOpen, setJobsOpen] = useState(false);
+  const [bootOpen, setBootOpen] = useState(false);
+  const [wizardOpen, setWizardOpen] = useState(false);
+  const [transientOpen, setTransientOpen] = useState(false);
   const [appVersion, setAppVersion] = useState<string>('');
   const [logsOpen, setLogsOpen] = useState(false);
-  const [selectedForLogs, setSelectedForLogs] = useState<{ id: string; name: string } | null>(null);
+  const [selectedForLogs, setSelectedForLogs] = useState<{
+    id: string;
+    name: string;
+    scope: ServiceScope;
+    host: string | null;
+    machine: string | null;
+  } | null>(null);
+  const [overrideTarget, setOverrideTarget] = useState<ServiceInfo | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingServiceAction | null>(null);
+  const [reportedOutcome, setReportedOutcome] = useState<ReportedOutcome | null>(null);
   const [noteEditingTrigger, setNoteEditingTrigger] = useState<number | null>(null);
+  const [unstableServices, setUnstableServices] = useState<UnstableService[]>([]);
+  const [dismissedUnstable, setDismissedUnstable] = useState<ReadonlySet<string>>(new Set());
   
   const isRefreshingRef = useRef(false);
+  const servicesRef = useRef<ServiceInfo[]>([]);
+  const scopeRef = useRef<ServiceScope>('system');
+  const hostRef = useRef<string | null>(null);
+  const machineRef = useRef<string | null>(null);
+  // A flagged unit from the other scope is revealed once that scope's list has loaded.
+  const pendingRevealRef = useRef<string | null>(null);
   
   const { toasts, addToast, removeToast } = useToast();
   const { settings, updateSettings } = useSettings();
+
+  useEffect(() => {
+    servicesRef.current = services;
+  }, [services]);
   const { favorites, isFavorite, toggleFavorite, getNote, setNote, deleteNote } = useUserPreferences();
 
   const platform = navigator.platform || 'Unknown';
   const os = platform.includes('Win') ? 'Windows' : platform.includes('Mac') ? 'macOS' : 'Linux';
+  // Remote hosts are always systemd machines, but the panels that read /proc or run local tools only work here.
+  // Containers are reached with `--machine`, which covers systemctl and journalctl but not those tools either.
+  // Linux machines booted with another init system (OpenRC, runit, s6, SysV init) get the plain service view.
+  const isSystemd = serviceProvider === 'systemd' || host !== null;
+  const isLocalSystemd = serviceProvider === 'systemd' && host === null && machine === null;
+  const initSystemLabel = serviceProvider ? INIT_SYSTEM_LABELS[serviceProvider] : undefined;
+
+  useEffect(() => {
+    window.serviceAPI?.getServiceProvider().then(setServiceProvider).catch(error => {
+      console.error('Failed to get service provider:', error);
+    });
+  }, []);
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -65,15 +176,28 @@ const App: React.FC = () => {
     }
 
     try {
-      const response = await window.serviceAPI.listServices({});
+      const response = await window.serviceAPI.listServices({
+        scope,
+        ...(host ? { host } : {}),
+        ...(machine ? { machine } : {}),
+      });
 
       if (!response || !response.ok) {
         const message = response?.error?.message ?? 'Failed to load services';
         throw new Error(message);
       }
 
+      if (scopeRef.current !== scope || hostRef.current !== host || machineRef.current !== machine) {
+        // The scope, host or machine was switched while this request was in flight.
+        return;
+      }
+
       const serviceList = Array.isArray(response.data) ? response.data : [];
       setServices(serviceList);
+      if (!host && !machine && serviceList.length > 0) {
+        // The main process switches to the SysV provider the first time systemd turns out to be missing.
+        setServiceProvider(serviceList[0].provider);
+      }
       setLastUpdated(new Date());
       
       const endTime = performance.now();
@@ -87,9 +211,57 @@ const App: React.FC = () => {
       setLoading(false);
       isRefreshingRef.current = false;
     }
-  }, [addToast]);
+  }, [addToast, scope, host, machine]);
+
+  const loadMachines = useCallback(async () => {
+    if (!window.serviceAPI || serviceProvider !== 'systemd') return;
 
-  const executeServiceAction = useCallback(async (serviceId: string, action: string, serviceName: string) => {
+    try {
+      const response = await window.serviceAPI.listMachines();
+      if (response.ok && response.data) {
+        setMachines(response.data);
+      }
+    } catch (error) {
+      console.warn('Failed to list machines', error);
+    }
+  }, [serviceProvider]);
+
+  const loadUnstableServices = useCallback(async () => {
+    if (!window.serviceAPI) return;
+
+    try {
+      const response = await window.serviceAPI.getUnstableServices();
+      if (response.ok && response.data) {
+        setUnstableServices(response.data);
+      }
+    } catch (error) {
+      console.warn('Failed to load unstable services', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isLocalSystemd || !window.serviceAPI) return;
+
+    void loadUnstableServices();
+    return window.serviceAPI.onHealthEvent((event) => {
+      if (event.instability) {
+        void loadUnstableServices();
+      }
+    });
+  }, [isLocalSystemd, loadUnstableServices]);
+
+  // Dismissing hides the current flags only; a unit that starts misbehaving again is shown again.
+  const visibleUnstable = useMemo(
+    () => (isLocalSystemd ? unstableServices.filter(unstable => !dismissedUnstable.has(unstableKey(unstable))) : []),
+    [isLocalSystemd, unstableServices, dismissedUnstable]
+  );
+
+  const executeServiceAction = useCallback(async (
+    serviceId: string,
+    action: string,
+    serviceName: string,
+    options?: ServiceActionOptions
+  ): Promise<{ success: boolean; error?: string; outcome?: ServiceActionOutcome }> => {
     if (!window.serviceAPI) {
       return { success: false, error: 'Service API not available' };
     }
@@ -101,28 +273,51 @@ const App: React.FC = () => {
     const serviceAction = action as ServiceAction;
 
     try {
-      const response = await window.serviceAPI.controlService(serviceId, serviceAction);
+      const response = await window.serviceAPI.controlService(
+        serviceId,
+        serviceAction,
+        scope,
+        { ...options, waitTimeoutMs: settings.actionWaitSeconds * 1000 },
+        host ?? undefined,
+        machine ?? undefined
+      );
       if (!response || !response.ok) {
         const message = response?.error?.message ?? 'Action failed';
         throw new Error(message);
       }
-      return { success: true };
+      return { success: true, outcome: response.data?.outcome };
     } catch (error) {
       console.error(`Failed to ${action} service`, error);
-      const friendlyMessage = getUserFriendlyErrorMessage(error, `${action} ${serviceName}`);
+      // When the action left the unit failed, say why rather than pointing at the logs.
+      let failureSummary: string | undefined;
+      if (isLocalSystemd) {
+        const diagnosis = await window.serviceAPI.getFailureDiagnosis(serviceId, scope).catch(() => null);
+        if (diagnosis?.ok && diagnosis.data?.activeState === 'failed') {
+          failureSummary = diagnosis.data.summary;
+        }
+      }
+      const friendlyMessage = getUserFriendlyErrorMessage(error, `${action} ${serviceName}`, failureSummary);
       return { success: false, error: friendlyMessage };
     }
-  }, []);
+  }, [scope, host, machine, settings.actionWaitSeconds, isLocalSystemd]);
 
   const filteredServices = React.useMemo(() => {
     const search = debouncedSearchQuery.trim().toLowerCase();
     const hasSearchQuery = search.length > 0;
+    // `:5432` finds whatever listens on that port instead of matching text.
+    const portMatch = /^:(\d{1,5})$/.exec(search);
+    const searchPort = portMatch ? Number(portMatch[1]) : null;
     const hasStatusFilter = statusFilter !== 'all';
+    const hasTypeFilter = typeFilter !== 'all';
 
     let filtered = services;
 
-    if (hasSearchQuery || hasStatusFilter) {
+    if (hasSearchQuery || hasStatusFilter || hasTypeFilter) {
       filtered = services.filter((item) => {
+        if (hasTypeFilter && (item.unitType ?? 'service') !== typeFilter) {
+          return false;
+        }
+
         if (hasStatusFilter) {
           const status = (item.status || '').toLowerCase();
           
@@ -137,6 +332,10 @@ const App: React.FC = () => {
           }
         }
 
+        if (searchPort !== null) {
+          return item.listening?.some(socket => socket.port === searchPort) ?? false;
+        }
+
         if (hasSearchQuery) {
           const name = item.name.toLowerCase();
           if (name.includes(search)) return true;
@@ -163,7 +362,7 @@ const App: React.FC = () => {
     const nonFavoriteServices = filtered.filter(s => !favoritesList.includes(s.id));
     
     return [...favoriteServices, ...nonFavoriteServices];
-  }, [services, debouncedSearchQuery, statusFilter, favorites]);
+  }, [services, debouncedSearchQuery, statusFilter, typeFilter, favorites]);
 
   useEffect(() => {
     if (selectedService && !filteredServices.find(s => s.id === selectedService.id)) {
@@ -179,7 +378,12 @@ const App: React.FC = () => {
     }
 
     requestIdleCallback(() => {
-      window.serviceAPI.getServiceDetails(service.id).then(response => {
+      window.serviceAPI.getServiceDetails(
+        service.id,
+        service.domain === 'user' ? 'user' : 'system',
+        service.host,
+        service.machine
+      ).then(response => {
         if (response && response.ok && response.data) {
           setSelectedService(prev => {
             if (prev?.id === service.id) {
@@ -194,16 +398,70 @@ const App: React.FC = () => {
     });
   }, []);
 
-  const handleServiceAction = useCallback(async (serviceId: string, action: string, serviceName: string) => {
-    const result = await executeServiceAction(serviceId, action, serviceName);
+  const runServiceAction = useCallback(async (
+    serviceId: string,
+    action: string,
+    serviceName: string,
+    options?: ServiceActionOptions
+  ) => {
+    const result = await executeServiceAction(serviceId, action, serviceName, options);
     if (result.success) {
-      addToast(`✓ ${action.charAt(0).toUpperCase() + action.slice(1)} requested for ${serviceName}`, 'success');
+      const label = action.replace(/-/g, ' ');
+      const capitalized = label.charAt(0).toUpperCase() + label.slice(1);
+      const { outcome } = result;
+      if (!outcome) {
+        addToast(`✓ ${capitalized} requested for ${serviceName}`, 'success');
+      } else if (outcome.succeeded) {
+        addToast(`✓ ${capitalized} ${serviceName}: ${outcome.activeState} (${outcome.subState})`, 'success');
+      } else {
+        // The journal lines do not fit in a toast; the dialog shows them.
+        addToast(
+          outcome.settled
+            ? `✗ ${capitalized} ${serviceName} failed: ${outcome.activeState} (${outcome.result})`
+            : `${serviceName} is still ${outcome.activeState} (${outcome.subState})`,
+          outcome.settled ? 'error' : 'warning'
+        );
+        setReportedOutcome({ serviceId, serviceName, action, outcome });
+      }
       await refreshServices(false);
     } else {
       addToast(result.error || 'Action failed', 'error');
     }
   }, [executeServiceAction, addToast, refreshServices]);
 
+  // Stops and disables on systemd first list the units they would take down; the action waits for confirmation if any.
+  const handleServiceAction = useCallback(async (
+    serviceId: string,
+    action: string,
+    serviceName: string,
+    options?: ServiceActionOptions
+  ) => {
+    if (isLocalSystemd && IMPACT_ACTIONS.has(action) && window.serviceAPI) {
+      try {
+        const response = await window.serviceAPI.getDependencyImpact(serviceId, action as ServiceAction, scope);
+        if (!response.ok || !response.data) {
+          throw new Error(response.error?.message ?? 'Dependency check failed');
+        }
+        if (response.data.stopped.length > 0 || response.data.broken.length > 0) {
+          setPendingAction({ serviceId, action, serviceName, options, impact: response.data });
+          return;
+        }
+      } catch (error) {
+        console.warn('Failed to check dependent units', error);
+        addToast(`Could not check which units depend on ${serviceName}`, 'warning');
+      }
+    }
+
+    await runServiceAction(serviceId, action, serviceName, options);
+  }, [isLocalSystemd, scope, addToast, runServiceAction]);
+
+  const handleConfirmPendingAction = useCallback(async () => {
+    if (!pendingAction) return;
+    const { serviceId, action, serviceName, options } = pendingAction;
+    setPendingAction(null);
+    await runServiceAction(serviceId, action, serviceName, options);
+  }, [pendingAction, runServiceAction]);
+
   const handleExport = useCallback(async (format: ExportFormat) => {
     if (!window.serviceAPI) {
       addToast('Service API not available', 'error');
@@ -239,10 +497,154 @@ const App: React.FC = () => {
   }, [filteredServices, addToast]);
 
   const handleViewLogs = useCallback((serviceId: string, serviceName: string) => {
-    setSelectedForLogs({ id: serviceId, name: serviceName });
+    setSelectedForLogs({ id: serviceId, name: serviceName, scope, host, machine });
     setLogsOpen(true);
+  }, [scope, host, machine]);
+
+  const handleRunTimerNow = useCallback(async (timer: TimerInfo): Promise<boolean> => {
+    const result = await executeServiceAction(timer.unit, 'start', timer.unit);
+    if (result.success) {
+      addToast(`✓ Started ${timer.unit} (${timer.id})`, 'success');
+      return true;
+    }
+    addToast(result.error || 'Action failed', 'error');
+    return false;
+  }, [executeServiceAction, addToast]);
+
+  const handleRevealService = useCallback((serviceId: string) => {
+    const service = servicesRef.current.find(item => item.id === serviceId);
+    if (!service) {
+      addToast(`${serviceId} is not loaded`, 'warning');
+      return;
+    }
+
+    // Clear anything that would hide the row; the debounced query is reset too so
+    // the selection is not dropped before the debounce catches up.
+    setSearchQuery('');
+    setDebouncedSearchQuery('');
+    setStatusFilter('all');
+    setTypeFilter(prev => (prev === 'all' || prev === service.unitType ? prev : 'all'));
+    setTimersOpen(false);
+    setJobsOpen(false);
+    setBootOpen(false);
+    handleServiceSelect(service);
+  }, [addToast, handleServiceSelect]);
+
+  const handleRestartAfterOverride = useCallback(async (serviceId: string, serviceName: string) => {
+    await handleServiceAction(serviceId, 'restart', serviceName);
+  }, [handleServiceAction]);
+
+  const handleServiceCreated = useCallback((result: NewServiceResult) => {
+    addToast(`✓ Created ${result.unitId}${result.started ? ' and started it' : ''}`, 'success');
+
+    const created = result.service;
+    if (!created || scopeRef.current !== 'system') return;
+
+    // Units that are neither enabled nor started are not loaded, so they would
+    // not show up in the next listing; add the row directly.
+    setServices(prev =>
+      [...prev.filter(item => item.id !== created.id), created].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setSearchQuery('');
+    setDebouncedSearchQuery('');
+    setStatusFilter('all');
+    handleServiceSelect(created);
+  }, [addToast, handleServiceSelect]);
+
+  const handleTransientStarted = useCallback(async (result: ServiceControlResult) => {
+    addToast(`✓ Started ${result.serviceId}${result.elevated ? ' (elevated)' : ''}`, 'success');
+
+    // A short command may already have exited and been unloaded; its logs stay in the journal.
+    handleViewLogs(result.serviceId, result.serviceId);
+
+    const unitScope = scopeRef.current;
+    try {
+      const response = await window.serviceAPI.getServiceDetails(result.serviceId, unitScope);
+      const started = response.ok ? response.data : null;
+      if (!started || scopeRef.current !== unitScope) return;
+
+      setServices(prev =>
+        [...prev.filter(item => item.id !== started.id), started].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setSearchQuery('');
+      setDebouncedSearchQuery('');
+      setStatusFilter('all');
+      handleServiceSelect(started);
+    } catch (error) {
+      console.warn('Failed to load the transient unit', error);
+    }
+  }, [addToast, handleViewLogs, handleServiceSelect]);
+
+  const handleScopeChange = useCallback((nextScope: ServiceScope) => {
+    scopeRef.current = nextScope;
+    isRefreshingRef.current = false;
+    setSelectedService(null);
+    setServices([]);
+    setScope(nextScope);
+  }, []);
+
+  const handleHostChange = useCallback((nextHost: string | null) => {
+    hostRef.current = nextHost;
+    machineRef.current = null;
+    isRefreshingRef.current = false;
+    setSelectedService(null);
+    setServices([]);
+    setHost(nextHost);
+    setMachine(null);
+  }, []);
+
+  // A container's user managers cannot be reached with --machine, so picking one switches to system units.
+  const handleMachineChange = useCallback((nextMachine: string | null) => {
+    machineRef.current = nextMachine;
+    if (nextMachine) {
+      scopeRef.current = 'system';
+      setScope('system');
+    }
+    isRefreshingRef.current = false;
+    setSelectedService(null);
+    setServices([]);
+    setMachine(nextMachine);
   }, []);
 
+  const handleSelectUnstable = useCallback((unstable: UnstableService) => {
+    if (unstable.scope === scopeRef.current) {
+      handleRevealService(unstable.serviceId);
+      return;
+    }
+    pendingRevealRef.current = unstable.serviceId;
+    handleScopeChange(unstable.scope);
+  }, [handleRevealService, handleScopeChange]);
+
+  useEffect(() => {
+    const pending = pendingRevealRef.current;
+    if (!pending || services.length === 0) return;
+
+    pendingRevealRef.current = null;
+    handleRevealService(pending);
+  }, [services, handleRevealService]);
+
+  const handleDismissUnstable = useCallback(() => {
+    setDismissedUnstable(prev => new Set([...prev, ...visibleUnstable.map(unstableKey)]));
+  }, [visibleUnstable]);
+
+  useEffect(() => {
+    loadMachines();
+  }, [loadMachines]);
+
+  useEffect(() => {
+    // The container being shown was stopped.
+    if (machine !== null && !machines.some(item => item.name === machine)) {
+      handleMachineChange(null);
+    }
+  }, [machine, machines, handleMachineChange]);
+
+  useEffect(() => {
+    // The host being shown was removed in settings.
+    if (host !== null && !settings.remoteHosts.includes(host)) {
+      handleHostChange(null);
+    }
+  }, [host, settings.remoteHosts, handleHostChange]);
+
   const handleToggleFavorite = useCallback((serviceId: string) => {
     toggleFavorite(serviceId);
   }, [toggleFavorite]);
@@ -282,6 +684,51 @@ const App: React.FC = () => {
     }
   }, [refreshServices]);
 
+  useEffect(() => {
+    if (!window.serviceAPI) return;
+
+    const applyEvent = (event: ServiceEvent) => {
+      const { type, serviceId, service } = event;
+      const eventScope = event.scope ?? service?.domain ?? 'system';
+      // The change feed only covers this machine; remote and container lists update on refresh.
+      if (eventScope !== scope || host !== null || machine !== null) return;
+
+      setServices(prev => {
+        const index = prev.findIndex(item => item.id === serviceId);
+
+        if (type === 'removed') {
+          return index === -1 ? prev : prev.filter(item => item.id !== serviceId);
+        }
+
+        if (!service) return prev;
+
+        if (index === -1) {
+          return [...prev, service].sort((a, b) => a.name.localeCompare(b.name));
+        }
+
+        const next = prev.slice();
+        next[index] = { ...prev[index], ...service };
+        return next;
+      });
+
+      setSelectedService(prev => {
+        if (prev?.id !== serviceId) return prev;
+        if (type === 'removed') return null;
+        return service ? { ...prev, ...service } : prev;
+      });
+
+      setLastUpdated(new Date(event.timestamp));
+    };
+
+    return window.serviceAPI.onServiceEvent((event) => {
+      const previous = servicesRef.current.find(item => item.id === event.serviceId);
+      if (event.service?.status === 'failed' && previous && !previous.host && !previous.machine && previous.status !== 'failed' && previous.domain === event.service.domain) {
+        addToast(`✗ ${event.service.name} has failed`, 'error');
+      }
+      applyEvent(event);
+    });
+  }, [addToast, scope, host, machine]);
+
   useEffect(() => {
     if (!settings.autoUpdate) return;
 
@@ -403,9 +850,26 @@ const App: React.FC = () => {
         loading={loading}
         theme={settings.theme}
         onToggleTheme={() => updateSettings({ theme: settings.theme === 'dark' ? 'light' : 'dark' })}
-        onRefresh={() => refreshServices(true)}
+        onRefresh={() => {
+          refreshServices(true);
+          loadMachines();
+        }}
         onOpenSettings={() => setSettingsOpen(true)}
         onOpenBackups={() => setBackupsOpen(true)}
+        onOpenTimers={isLocalSystemd ? () => setTimersOpen(true) : undefined}
+        onOpenJobs={isLocalSystemd ? () => setJobsOpen(true) : undefined}
+        onOpenBoot={isLocalSystemd ? () => setBootOpen(true) : undefined}
+        onCreateService={isLocalSystemd ? () => setWizardOpen(true) : undefined}
+        onRunTransient={isLocalSystemd ? () => setTransientOpen(true) : undefined}
+        unstableServices={visibleUnstable}
+        onSelectUnstable={handleSelectUnstable}
+        onDismissUnstable={handleDismissUnstable}
+        hosts={settings.remoteHosts}
+        host={host}
+        onHostChange={handleHostChange}
+        machines={host === null ? machines : []}
+        machine={machine}
+        onMachineChange={handleMachineChange}
         onExport={handleExport}
       />
 
@@ -416,9 +880,13 @@ const App: React.FC = () => {
             selectedId={selectedService?.id || null}
             searchQuery={searchQuery}
             statusFilter={statusFilter}
+            scope={scope}
+            typeFilter={typeFilter}
             loading={loading}
             onSearchChange={setSearchQuery}
             onStatusFilterChange={setStatusFilter}
+            onScopeChange={isSystemd && machine === null ? handleScopeChange : undefined}
+            onTypeFilterChange={isSystemd ? setTypeFilter : undefined}
             onServiceSelect={handleServiceSelect}
             onServiceAction={handleServiceAction}
             onToggleFavorite={handleToggleFavorite}
@@ -433,6 +901,7 @@ const App: React.FC = () => {
             onSaveNote={handleSaveNote}
             onDeleteNote={handleDeleteNote}
             noteEditingTrigger={noteEditingTrigger}
+            onEditOverrides={setOverrideTarget}
           />
         </div>
       </main>
@@ -441,7 +910,7 @@ const App: React.FC = () => {
         serviceCount={filteredServices.length}
         totalCount={services.length}
         lastUpdated={lastUpdated}
-        platform={os}
+        platform={initSystemLabel ? `${os} (${initSystemLabel})` : os}
         loadTime={loadTime}
         autoUpdateEnabled={settings.autoUpdate}
         updateInterval={settings.updateInterval}
@@ -459,12 +928,88 @@ const App: React.FC = () => {
         isOpen={backupsOpen}
         onClose={() => setBackupsOpen(false)}
         onBackupCreated={() => refreshServices(false)}
+        scope={scope}
+        host={host ?? undefined}
+        machine={machine ?? undefined}
+      />
+
+      <TimersDashboard
+        isOpen={timersOpen}
+        onClose={() => setTimersOpen(false)}
+        scope={scope}
+        onRunNow={handleRunTimerNow}
+        onSelectService={handleRevealService}
+        onViewLogs={handleViewLogs}
+      />
+
+      <JobsPanel
+        isOpen={jobsOpen}
+        onClose={() => setJobsOpen(false)}
+        scope={scope}
+        onSelectService={handleRevealService}
+      />
+
+      <BootPerformanceView
+        isOpen={bootOpen}
+        onClose={() => setBootOpen(false)}
+        scope={scope}
+        onSelectService={handleRevealService}
+      />
+
+      <ServiceWizard
+        isOpen={wizardOpen}
+        onClose={() => setWizardOpen(false)}
+        onCreated={handleServiceCreated}
+      />
+
+      <TransientUnitDialog
+        isOpen={transientOpen}
+        scope={scope}
+        onClose={() => setTransientOpen(false)}
+        onStarted={handleTransientStarted}
       />
 
+      {overrideTarget && (
+        <OverrideEditor
+          isOpen={overrideTarget !== null}
+          serviceId={overrideTarget.id}
+          serviceName={overrideTarget.name}
+          scope={overrideTarget.domain === 'user' ? 'user' : 'system'}
+          unitType={overrideTarget.unitType}
+          onClose={() => setOverrideTarget(null)}
+          onRestart={handleRestartAfterOverride}
+        />
+      )}
+
+      {reportedOutcome && (
+        <ActionOutcomeDialog
+          serviceName={reportedOutcome.serviceName}
+          action={reportedOutcome.action}
+          outcome={reportedOutcome.outcome}
+          onViewLogs={() => {
+            handleViewLogs(reportedOutcome.serviceId, reportedOutcome.serviceName);
+            setReportedOutcome(null);
+          }}
+          onClose={() => setReportedOutcome(null)}
+        />
+      )}
+
+      {pendingAction && (
+        <DependencyImpactDialog
+          impact={pendingAction.impact}
+          serviceName={pendingAction.serviceName}
+          onConfirm={handleConfirmPendingAction}
+          onCancel={() => setPendingAction(null)}
+        />
+      )}
+
       {selectedForLogs && (
         <LogViewer
           serviceId={selectedForLogs.id}
           serviceName={selectedForLogs.name}
+          scope={selectedForLogs.scope}
+          host={selectedForLogs.host ?? undefined}
+          machine={selectedForLogs.machine ?? undefined}
           isOpen={logsOpen}
           onClose={handleCloseLogs}
         />
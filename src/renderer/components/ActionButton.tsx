@@ -1,6 +1,5 @@
 import React, { memo, useMemo } from 'react';
-
-type ServiceAction = 'start' | 'stop' | 'restart' | 'enable' | 'disable';
+import type { ServiceAction } from '../../types/service';
 
 interface ActionButtonProps {
   action: ServiceAction;
@@ -34,6 +33,51 @@ const ACTION_CONFIGS: Record<ServiceAction, { label: string; tooltip: string; st
     tooltip: 'Disable the service - prevents automatic startup',
     style: 'bg-gray-600 hover:bg-gray-700 dark:bg-gray-500 dark:hover:bg-gray-600 text-white',
   },
+  reload: {
+    label: 'Reload',
+    tooltip: 'Reload the service - asks it to re-read its configuration without restarting',
+    style: 'bg-sky-600 hover:bg-sky-700 dark:bg-sky-500 dark:hover:bg-sky-600 text-white',
+  },
+  'reload-or-restart': {
+    label: 'Reload or Restart',
+    tooltip: 'Reload the service if it supports it, otherwise restart it',
+    style: 'bg-sky-600 hover:bg-sky-700 dark:bg-sky-500 dark:hover:bg-sky-600 text-white',
+  },
+  'try-restart': {
+    label: 'Try Restart',
+    tooltip: 'Restart the service only if it is already running',
+    style: 'bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white',
+  },
+  mask: {
+    label: 'Mask',
+    tooltip: 'Mask the service - links it to /dev/null so it cannot be started at all',
+    style: 'bg-amber-600 hover:bg-amber-700 dark:bg-amber-500 dark:hover:bg-amber-600 text-white',
+  },
+  unmask: {
+    label: 'Unmask',
+    tooltip: 'Unmask the service - allows it to be started again',
+    style: 'bg-amber-600 hover:bg-amber-700 dark:bg-amber-500 dark:hover:bg-amber-600 text-white',
+  },
+  'reset-failed': {
+    label: 'Reset Failed',
+    tooltip: 'Clear the failed state and restart counter of the service',
+    style: 'bg-gray-600 hover:bg-gray-700 dark:bg-gray-500 dark:hover:bg-gray-600 text-white',
+  },
+  kill: {
+    label: 'Kill',
+    tooltip: 'Send a signal to the service processes',
+    style: 'bg-red-700 hover:bg-red-800 dark:bg-red-600 dark:hover:bg-red-700 text-white',
+  },
+  'enable-now': {
+    label: 'Enable & Start',
+    tooltip: 'Enable the service and start it immediately',
+    style: 'bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600 text-white',
+  },
+  'disable-now': {
+    label: 'Disable & Stop',
+    tooltip: 'Disable the service and stop it immediately',
+    style: 'bg-gray-600 hover:bg-gray-700 dark:bg-gray-500 dark:hover:bg-gray-600 text-white',
+  },
 };
 
 const ACTION_ICONS: Record<ServiceAction, JSX.Element> = {
@@ -62,6 +106,51 @@ const ACTION_ICONS: Record<ServiceAction, JSX.Element> = {
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M5 12h14" />
     </svg>
   ),
+  reload: (
+    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M4 4v5h5M20 20v-5h-5M5.1 15a7.5 7.5 0 0013.4 1.5M18.9 9A7.5 7.5 0 005.5 7.5" />
+    </svg>
+  ),
+  'reload-or-restart': (
+    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M4 4v5h5M20 20v-5h-5M5.1 15a7.5 7.5 0 0013.4 1.5M18.9 9A7.5 7.5 0 005.5 7.5" />
+    </svg>
+  ),
+  'try-restart': (
+    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M4.5 12a7.5 7.5 0 0112.948-5.303l1.552 1.553M19.5 12a7.5 7.5 0 01-12.948 5.303L5 15.75M19.5 6.75v4.5h-4.5" />
+    </svg>
+  ),
+  mask: (
+    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M18.364 5.636L5.636 18.364M12 21a9 9 0 100-18 9 9 0 000 18z" />
+    </svg>
+  ),
+  unmask: (
+    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M12 21a9 9 0 100-18 9 9 0 000 18z" />
+    </svg>
+  ),
+  'reset-failed': (
+    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+  ),
+  kill: (
+    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M13 10V3L4 14h7v7l9-11h-7z" />
+    </svg>
+  ),
+  'enable-now': (
+    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="currentColor">
+      <path d="M5.25 5.653v12.694a.75.75 0 001.125.65l11.25-6.347a.75.75 0 000-1.3L6.375 5.003a.75.75 0 00-1.125.65z" />
+    </svg>
+  ),
+  'disable-now': (
+    <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="currentColor">
+      <rect x="6" y="6" width="12" height="12" rx="1.5" />
+    </svg>
+  ),
 };
 
 const ActionButton: React.FC<ActionButtonProps> = memo(({ action, enabled, onClick }) => {
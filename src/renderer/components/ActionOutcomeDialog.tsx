@@ -0,0 +1,94 @@
+import React from 'react';
+import type { ServiceActionOutcome } from '../../types/service';
+
+interface ActionOutcomeDialogProps {
+  serviceName: string;
+  action: string;
+  outcome: ServiceActionOutcome;
+  onViewLogs: () => void;
+  onClose: () => void;
+}
+
+/** Shown when a unit did not end up where an action meant it to, with its last journal lines. */
+const ActionOutcomeDialog: React.FC<ActionOutcomeDialogProps> = ({ serviceName, action, outcome, onViewLogs, onClose }) => {
+  const actionLabel = action.replace(/-/g, ' ');
+  const waitedSeconds = Math.round(outcome.waitedMs / 100) / 10;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white dark:bg-gray-900 w-full max-w-3xl max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <div>
+            <h2 className="text-xl font-normal text-gray-900 dark:text-white">
+              {outcome.settled ? `${serviceName} did not ${actionLabel}` : `${serviceName} has not settled yet`}
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Checked {waitedSeconds}s after the {actionLabel} was requested
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <dl className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">State</dt>
+              <dd className="font-mono text-gray-900 dark:text-white">{outcome.activeState}</dd>
+            </div>
+            <div>
+              <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Sub-state</dt>
+              <dd className="font-mono text-gray-900 dark:text-white">{outcome.subState}</dd>
+            </div>
+            <div>
+              <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Result</dt>
+              <dd className={`font-mono ${outcome.result === 'success' ? 'text-gray-900 dark:text-white' : 'text-red-600 dark:text-red-400'}`}>
+                {outcome.result}
+              </dd>
+            </div>
+          </dl>
+
+          {!outcome.settled && (
+            <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200 text-sm">
+              The unit was still changing state, or had a job queued, when the wait ran out. Queued jobs are listed in the Jobs panel.
+            </div>
+          )}
+
+          <section>
+            <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
+              Recent Journal
+            </h3>
+            {outcome.logTail && outcome.logTail.length > 0 ? (
+              <pre className="p-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-xs font-mono text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-all">
+                {outcome.logTail.join('\n')}
+              </pre>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No journal entries could be read for this unit.</p>
+            )}
+          </section>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+          <button
+            onClick={onViewLogs}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            View Full Logs
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-black dark:bg-white text-white dark:text-black hover:opacity-80"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActionOutcomeDialog;
@@ -1,13 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import type { ServiceBackup } from '../../types/service';
+import type { ServiceBackup, ServiceScope } from '../../types/service';
 
 interface BackupManagerProps {
   isOpen: boolean;
   onClose: () => void;
   onBackupCreated: () => void;
+  scope?: ServiceScope;
+  /** SSH destination to back up instead of this machine. */
+  host?: string;
+  /** Local container to back up instead of this machine. */
+  machine?: string;
 }
 
-const BackupManager: React.FC<BackupManagerProps> = ({ isOpen, onClose, onBackupCreated }) => {
+const BackupManager: React.FC<BackupManagerProps> = ({ isOpen, onClose, onBackupCreated, scope = 'system', host, machine }) => {
   const [backups, setBackups] = useState<ServiceBackup[]>([]);
   const [loading, setLoading] = useState(false);
   const [creating, setCreating] = useState(false);
@@ -50,7 +55,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ isOpen, onClose, onBackup
     setSuccess(null);
     
     try {
-      const response = await window.serviceAPI.createBackup();
+      const response = await window.serviceAPI.createBackup(scope, host, machine);
       if (response.ok) {
         setSuccess('Backup created successfully');
         await loadBackups();
@@ -172,7 +177,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ isOpen, onClose, onBackup
               disabled={creating}
               className="px-4 py-2 bg-black dark:bg-white text-white dark:text-black hover:opacity-80 disabled:opacity-50"
             >
-              {creating ? 'Creating...' : 'Create New Backup'}
+              {creating ? 'Creating...' : `Create New Backup${scope === 'user' ? ' (User Units)' : ''}${host ? ` of ${host}` : machine ? ` of ${machine}` : ''}`}
             </button>
           </div>
 
@@ -198,6 +203,9 @@ const BackupManager: React.FC<BackupManagerProps> = ({ isOpen, onClose, onBackup
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                         {backup.totalServices} services • {getPlatformLabel(backup.platform)}
+                        {backup.scope === 'user' ? ' • User units' : ''}
+                        {backup.host ? ` • ${backup.host}` : ''}
+                        {backup.machine ? ` • ${backup.machine} (container)` : ''}
                       </div>
                     </div>
                     <div className="flex gap-2 ml-4">
@@ -217,7 +225,7 @@ const BackupManager: React.FC<BackupManagerProps> = ({ isOpen, onClose, onBackup
                       </button>
                     </div>
                   </div>
-                  {backup.platform !== process.platform && (
+                  {!backup.host && backup.platform !== process.platform && (
                     <div className="text-xs text-yellow-600 dark:text-yellow-400 mt-2">
                       ⚠ Platform mismatch: This backup is from {getPlatformLabel(backup.platform)}
                     </div>
@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { BootAnalysis, BootTimes, ServiceScope } from '../../types/service';
+
+interface BootPerformanceViewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scope?: ServiceScope;
+  onSelectService: (serviceId: string) => void;
+}
+
+// The slowest units cover nearly every boot; the long tail is a click away.
+const BLAME_PREVIEW_COUNT = 20;
+
+const BOOT_PHASES: ReadonlyArray<{ key: keyof BootTimes; label: string; className: string }> = [
+  { key: 'firmwareMs', label: 'Firmware', className: 'bg-gray-400 dark:bg-gray-500' },
+  { key: 'loaderMs', label: 'Loader', className: 'bg-yellow-400 dark:bg-yellow-500' },
+  { key: 'kernelMs', label: 'Kernel', className: 'bg-orange-400 dark:bg-orange-500' },
+  { key: 'initrdMs', label: 'Initrd', className: 'bg-purple-400 dark:bg-purple-500' },
+  { key: 'userspaceMs', label: 'Userspace', className: 'bg-blue-500 dark:bg-blue-400' },
+];
+
+const formatDuration = (milliseconds: number | null): string => {
+  if (milliseconds === null) return '—';
+  if (milliseconds < 1) return '<1ms';
+  if (milliseconds < 1000) return `${Math.round(milliseconds)}ms`;
+  if (milliseconds < 60000) return `${(milliseconds / 1000).toFixed(milliseconds < 10000 ? 2 : 1)}s`;
+  const minutes = Math.floor(milliseconds / 60000);
+  return `${minutes}min ${((milliseconds % 60000) / 1000).toFixed(1)}s`;
+};
+
+const percentOf = (value: number, total: number): string => `${total > 0 ? Math.min(100, (value / total) * 100) : 0}%`;
+
+/**
+ * Where boot time went: firmware to userspace phases, units ranked by how
+ * long they took to activate (`systemd-analyze blame`), and the chain of
+ * units the default target waited on (`systemd-analyze critical-chain`).
+ */
+const BootPerformanceView: React.FC<BootPerformanceViewProps> = ({
+  isOpen,
+  onClose,
+  scope = 'system',
+  onSelectService,
+}) => {
+  const [analysis, setAnalysis] = useState<BootAnalysis | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAllBlame, setShowAllBlame] = useState(false);
+
+  const loadAnalysis = useCallback(async () => {
+    if (!window.serviceAPI) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.getBootAnalysis(scope);
+      if (response.ok && response.data) {
+        setAnalysis(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to analyze boot');
+      }
+    } catch (err) {
+      setError('Failed to analyze boot');
+    } finally {
+      setLoading(false);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadAnalysis();
+    }
+  }, [isOpen, loadAnalysis]);
+
+  useEffect(() => {
+    setAnalysis(null);
+  }, [scope]);
+
+  const slowest = analysis?.blame[0]?.durationMs ?? 0;
+  const visibleBlame = useMemo(
+    () => (analysis ? (showAllBlame ? analysis.blame : analysis.blame.slice(0, BLAME_PREVIEW_COUNT)) : []),
+    [analysis, showAllBlame]
+  );
+
+  // The waterfall spans from userspace start to the moment the head of the chain came up.
+  const chainEnd = useMemo(
+    () => Math.max(0, ...(analysis?.criticalChain ?? []).map(entry => entry.activatedAtMs ?? 0)),
+    [analysis]
+  );
+
+  if (!isOpen) return null;
+
+  const times = analysis?.times;
+  const phases = times ? BOOT_PHASES.filter(phase => times[phase.key] !== null) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white dark:bg-gray-900 w-full max-w-6xl max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <div>
+            <h2 className="text-xl font-normal text-gray-900 dark:text-white">
+              Boot Performance
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {times ? `Startup finished in ${formatDuration(times.totalMs)}` : 'systemd-analyze'}
+              {times?.reachedTarget ? ` • ${times.reachedTarget} reached after ${formatDuration(times.reachedAfterMs)}` : ''}
+              {scope === 'user' ? ' • User manager' : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end mb-4">
+            <button
+              onClick={loadAnalysis}
+              disabled={loading}
+              className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Reload'}
+            </button>
+          </div>
+
+          {loading && !analysis ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              Running systemd-analyze...
+            </div>
+          ) : analysis && times && (
+            <div className={`space-y-8 ${loading ? 'opacity-60' : ''}`}>
+              <section>
+                <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-3">
+                  Boot Phases
+                </h3>
+                <div className="flex h-4 w-full bg-gray-100 dark:bg-gray-800" role="img" aria-label="Boot phase durations">
+                  {phases.map(phase => (
+                    <div
+                      key={phase.key}
+                      className={phase.className}
+                      style={{ width: percentOf(times[phase.key] as number, times.totalMs) }}
+                      title={`${phase.label}: ${formatDuration(times[phase.key] as number)}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-700 dark:text-gray-300">
+                  {phases.map(phase => (
+                    <span key={phase.key} className="inline-flex items-center gap-1.5">
+                      <span className={`inline-block w-2.5 h-2.5 ${phase.className}`} />
+                      {phase.label} <span className="tabular-nums">{formatDuration(times[phase.key] as number)}</span>
+                    </span>
+                  ))}
+                </div>
+              </section>
+
+              <section>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Critical Chain
+                  </h3>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">Time after userspace start</span>
+                </div>
+                {analysis.criticalChain.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">systemd-analyze reported no critical chain.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {analysis.criticalChain.map(entry => {
+                      const activatedAt = entry.activatedAtMs ?? 0;
+                      const duration = entry.durationMs ?? 0;
+                      return (
+                        <li key={entry.unit} className="flex items-center gap-3 text-xs">
+                          <button
+                            onClick={() => onSelectService(entry.unit)}
+                            className="w-72 shrink-0 truncate text-left font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                            style={{ paddingLeft: `${entry.depth * 12}px` }}
+                            title="Show this unit in the service table"
+                          >
+                            {entry.unit}
+                          </button>
+                          <div className="relative flex-1 h-3 bg-gray-50 dark:bg-gray-800/50">
+                            {duration > 0 ? (
+                              <div
+                                className="absolute inset-y-0 bg-red-500 dark:bg-red-400"
+                                style={{ left: percentOf(Math.max(0, activatedAt - duration), chainEnd), width: percentOf(duration, chainEnd) }}
+                              />
+                            ) : (
+                              <div
+                                className="absolute inset-y-0 w-0.5 bg-gray-400 dark:bg-gray-500"
+                                style={{ left: percentOf(activatedAt, chainEnd) }}
+                              />
+                            )}
+                          </div>
+                          <span className="w-36 shrink-0 text-right tabular-nums text-gray-700 dark:text-gray-300">
+                            @{formatDuration(entry.activatedAtMs)}
+                            {entry.durationMs !== null && <span className="text-red-600 dark:text-red-400"> +{formatDuration(entry.durationMs)}</span>}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </section>
+
+              <section>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Slowest Units ({analysis.blame.length})
+                  </h3>
+                  {analysis.blame.length > BLAME_PREVIEW_COUNT && (
+                    <button
+                      onClick={() => setShowAllBlame(prev => !prev)}
+                      className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+                    >
+                      {showAllBlame ? `Show Top ${BLAME_PREVIEW_COUNT}` : 'Show All'}
+                    </button>
+                  )}
+                </div>
+                {visibleBlame.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No unit activation times recorded.</p>
+                ) : (
+                  <ol className="space-y-1">
+                    {visibleBlame.map(entry => (
+                      <li key={entry.unit} className="flex items-center gap-3 text-xs">
+                        <button
+                          onClick={() => onSelectService(entry.unit)}
+                          className="w-72 shrink-0 truncate text-left font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                          title="Show this unit in the service table"
+                        >
+                          {entry.unit}
+                        </button>
+                        <div className="flex-1 h-3 bg-gray-50 dark:bg-gray-800/50">
+                          <div className="h-full bg-blue-500 dark:bg-blue-400" style={{ width: percentOf(entry.durationMs, slowest) }} />
+                        </div>
+                        <span className="w-36 shrink-0 text-right tabular-nums text-gray-700 dark:text-gray-300">
+                          {formatDuration(entry.durationMs)}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BootPerformanceView;
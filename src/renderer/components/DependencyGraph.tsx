@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback, memo } from 'react';
+import type { DependencyKind, ServiceScope, UnitDependencies } from '../../types/service';
+
+interface DependencyGraphProps {
+  serviceId: string;
+  scope?: ServiceScope;
+}
+
+const DEPENDENCY_GROUPS: ReadonlyArray<{ title: string; kinds: DependencyKind[] }> = [
+  { title: 'Pulled in by', kinds: ['BoundBy', 'RequiredBy', 'RequisiteOf', 'ConsistsOf', 'WantedBy'] },
+  { title: 'Pulls in', kinds: ['BindsTo', 'Requires', 'Requisite', 'PartOf', 'Wants'] },
+  { title: 'Ordering', kinds: ['After', 'Before'] },
+];
+
+// Reverse properties whose units are stopped together with the focused one.
+const STOP_PROPAGATING_KINDS: ReadonlySet<DependencyKind> = new Set(['BoundBy', 'RequiredBy', 'RequisiteOf', 'ConsistsOf']);
+
+const STATUS_DOT: Record<string, string> = {
+  active: 'bg-emerald-500',
+  activating: 'bg-emerald-300',
+  failed: 'bg-red-500',
+  deactivating: 'bg-amber-400',
+};
+
+/**
+ * Walks a unit's dependency tree one level at a time. Clicking a unit moves
+ * the focus to it; the trail above the lists leads back up.
+ */
+const DependencyGraph: React.FC<DependencyGraphProps> = memo(({ serviceId, scope = 'system' }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [trail, setTrail] = useState<string[]>([serviceId]);
+  const [current, setCurrent] = useState<UnitDependencies | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTrail([serviceId]);
+    setCurrent(null);
+    setError(null);
+  }, [serviceId, scope]);
+
+  const focusedId = trail[trail.length - 1];
+
+  const loadDependencies = useCallback(async (unitId: string) => {
+    if (!window.serviceAPI) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.getUnitDependencies(unitId, scope);
+      if (response.ok && response.data) {
+        setCurrent(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load dependencies');
+      }
+    } catch (err) {
+      setError('Failed to load dependencies');
+    } finally {
+      setLoading(false);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if (expanded) {
+      loadDependencies(focusedId);
+    }
+  }, [expanded, focusedId, loadDependencies]);
+
+  const walkTo = (unitId: string) => {
+    setTrail(prev => {
+      const existing = prev.indexOf(unitId);
+      return existing === -1 ? [...prev, unitId] : prev.slice(0, existing + 1);
+    });
+  };
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-800 pt-4 mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+          Dependencies
+        </h3>
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+        >
+          {expanded ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {expanded && (
+        <>
+          <nav className="flex flex-wrap items-center gap-1 text-xs font-mono mb-3" aria-label="Dependency trail">
+            {trail.map((unitId, index) => (
+              <React.Fragment key={`${unitId}-${index}`}>
+                {index > 0 && <span className="text-gray-400">›</span>}
+                <button
+                  onClick={() => walkTo(unitId)}
+                  disabled={index === trail.length - 1}
+                  className="text-blue-600 dark:text-blue-400 hover:underline disabled:text-gray-900 dark:disabled:text-white disabled:no-underline break-all text-left"
+                >
+                  {unitId}
+                </button>
+              </React.Fragment>
+            ))}
+          </nav>
+
+          {error && (
+            <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading && !current ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading dependencies...</p>
+          ) : current && (
+            <div className={`space-y-4 ${loading ? 'opacity-60' : ''}`}>
+              {DEPENDENCY_GROUPS.map(({ title, kinds }) => {
+                const entries = kinds.filter(kind => current.dependencies[kind].length > 0);
+                return (
+                  <section key={title}>
+                    <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">{title}</h4>
+                    {entries.length === 0 ? (
+                      <p className="text-xs text-gray-400 dark:text-gray-500">None</p>
+                    ) : (
+                      <dl className="space-y-2">
+                        {entries.map(kind => (
+                          <div key={kind}>
+                            <dt className={`text-xs ${STOP_PROPAGATING_KINDS.has(kind) ? 'text-amber-700 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                              {kind}
+                              {STOP_PROPAGATING_KINDS.has(kind) && ' — stopped with this unit'}
+                            </dt>
+                            <dd className="flex flex-col items-start">
+                              {current.dependencies[kind].map(unitId => (
+                                <button
+                                  key={unitId}
+                                  onClick={() => walkTo(unitId)}
+                                  className="text-xs font-mono text-blue-600 dark:text-blue-400 hover:underline break-all text-left"
+                                >
+                                  {unitId}
+                                </button>
+                              ))}
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </section>
+                );
+              })}
+              <p className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <span className={`inline-block w-2 h-2 rounded-full ${STATUS_DOT[current.status] ?? 'bg-gray-400'}`} />
+                {current.unitId} is {current.status}
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+});
+
+DependencyGraph.displayName = 'DependencyGraph';
+
+export default DependencyGraph;
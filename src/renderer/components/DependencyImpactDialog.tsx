@@ -0,0 +1,102 @@
+import React from 'react';
+import type { DependencyImpact, ImpactedUnit } from '../../types/service';
+
+interface DependencyImpactDialogProps {
+  impact: DependencyImpact;
+  serviceName: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  stop: 'Stop',
+  disable: 'Disable',
+  'disable-now': 'Disable & Stop',
+};
+
+const UnitList: React.FC<{ units: ImpactedUnit[] }> = ({ units }) => (
+  <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700">
+    {units.map((unit) => (
+      <li key={unit.id} className="px-3 py-2 flex items-center justify-between gap-4 text-sm">
+        <span className="font-mono text-gray-900 dark:text-white break-all">{unit.id}</span>
+        <span className="text-xs font-mono text-gray-500 dark:text-gray-400 shrink-0">{unit.reason}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+/** Shown before a stop or disable that would take other units down with it. */
+const DependencyImpactDialog: React.FC<DependencyImpactDialogProps> = ({ impact, serviceName, onConfirm, onCancel }) => {
+  const actionLabel = ACTION_LABELS[impact.action] ?? impact.action;
+  const brokenHeading = impact.action === 'disable'
+    ? 'Will fail to start at next boot'
+    : 'Keep running without it';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white dark:bg-gray-900 w-full max-w-2xl max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <div>
+            <h2 className="text-xl font-normal text-gray-900 dark:text-white">
+              {actionLabel} {serviceName}?
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 font-mono">{impact.unitId}</p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200 text-sm">
+            Other units depend on {impact.unitId}. Review them before continuing.
+          </div>
+
+          {impact.stopped.length > 0 && (
+            <section>
+              <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
+                Will also be stopped ({impact.stopped.length})
+              </h3>
+              <UnitList units={impact.stopped} />
+            </section>
+          )}
+
+          {impact.broken.length > 0 && (
+            <section>
+              <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
+                {brokenHeading} ({impact.broken.length})
+              </h3>
+              <UnitList units={impact.broken} />
+            </section>
+          )}
+
+          {impact.truncated && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The dependency tree is large; only part of it was checked.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600 text-white"
+          >
+            {actionLabel} Anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DependencyImpactDialog;
@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef, memo } from 'react';
+import type { EnvironmentDiffState, ServiceEnvironment, ServiceInfo } from '../../types/service';
+import { parseEnvironment } from '../utils/environment';
+
+interface EnvironmentPanelProps {
+  service: ServiceInfo;
+  environment: ServiceEnvironment;
+}
+
+const STATE_LABELS: Record<EnvironmentDiffState, { label: string; className: string }> = {
+  same: { label: 'same', className: 'text-gray-500 dark:text-gray-400' },
+  changed: { label: 'differs', className: 'text-amber-600 dark:text-amber-400' },
+  'configured-only': { label: 'not live', className: 'text-blue-600 dark:text-blue-400' },
+  'live-only': { label: 'live only', className: 'text-gray-500 dark:text-gray-400' },
+};
+
+const formatAssignments = (assignments: Record<string, string>): string =>
+  Object.entries(assignments).map(([name, value]) => `${name}=${value}`).join('\n');
+
+/**
+ * The service's configured environment (`Environment=` and environment
+ * files) next to its main process's live environment. Secret-looking values
+ * stay masked until revealed; `Environment=` can be edited through a drop-in.
+ */
+const EnvironmentPanel: React.FC<EnvironmentPanelProps> = memo(({ service, environment: initialEnvironment }) => {
+  const [environment, setEnvironment] = useState<ServiceEnvironment>(initialEnvironment);
+  const [revealed, setRevealed] = useState(false);
+  const [showInherited, setShowInherited] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedPath, setSavedPath] = useState<string | null>(null);
+
+  const scope = service.domain === 'user' ? 'user' : 'system';
+  const unitKey = `${service.id}:${scope}`;
+
+  // Only a different service resets the panel; refreshed details keep what was revealed or edited.
+  const initialEnvironmentRef = useRef(initialEnvironment);
+  initialEnvironmentRef.current = initialEnvironment;
+
+  useEffect(() => {
+    setEnvironment(initialEnvironmentRef.current);
+    setRevealed(false);
+    setEditing(false);
+    setError(null);
+    setSavedPath(null);
+  }, [unitKey]);
+
+  const loadEnvironment = useCallback(async (reveal: boolean): Promise<ServiceEnvironment | null> => {
+    if (!window.serviceAPI) return null;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.getServiceEnvironment(service.id, scope, reveal);
+      if (response.ok && response.data) {
+        setEnvironment(response.data);
+        setRevealed(reveal);
+        return response.data;
+      }
+      setError(response.error?.message || 'Failed to read the environment');
+    } catch (err) {
+      setError('Failed to read the environment');
+    } finally {
+      setLoading(false);
+    }
+    return null;
+  }, [service.id, scope]);
+
+  const handleEdit = async () => {
+    // Edits start from the real values; saving a masked placeholder would overwrite the secret.
+    const loaded = revealed ? environment : await loadEnvironment(true);
+    if (!loaded) return;
+    setDraft(formatAssignments(loaded.assignments));
+    setSavedPath(null);
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!window.serviceAPI) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.saveServiceEnvironment(service.id, parseEnvironment(draft), scope);
+      if (response.ok && response.data) {
+        setSavedPath(response.data.path);
+        setEditing(false);
+        await loadEnvironment(true);
+      } else {
+        setError(response.error?.message || 'Failed to save the environment');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the environment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inheritedCount = useMemo(
+    () => environment.entries.filter(entry => entry.state === 'live-only').length,
+    [environment]
+  );
+
+  const visibleEntries = useMemo(
+    () => environment.entries.filter(entry => showInherited || entry.state !== 'live-only'),
+    [environment, showInherited]
+  );
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-800 pt-4 mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+          Environment
+        </h3>
+        {!editing && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => loadEnvironment(!revealed)}
+              disabled={loading}
+              className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+            >
+              {revealed ? 'Mask Secrets' : 'Show Secrets'}
+            </button>
+            <button
+              onClick={handleEdit}
+              disabled={loading}
+              className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+            >
+              Edit
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {savedPath && (
+        <div className="mb-3 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 text-sm">
+          Saved to <span className="font-mono break-all">{savedPath}</span>. Restart the service to apply it.
+        </div>
+      )}
+
+      {editing ? (
+        <div>
+          <label htmlFor="environmentDraft" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+            Environment= (one KEY=value per line; environment files are not changed)
+          </label>
+          <textarea
+            id="environmentDraft"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={Math.min(12, Math.max(4, draft.split('\n').length + 1))}
+            spellCheck={false}
+            className="w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              onClick={() => setEditing(false)}
+              className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-1 text-xs bg-black dark:bg-white text-white dark:text-black hover:opacity-80 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Drop-in'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className={loading ? 'opacity-60' : ''}>
+          {environment.liveUnavailable && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              Live environment unavailable: {environment.liveUnavailable}
+            </p>
+          )}
+
+          {environment.files.length > 0 && (
+            <ul className="mb-2 space-y-0.5">
+              {environment.files.map(file => (
+                <li key={file.path} className="text-xs text-gray-500 dark:text-gray-400">
+                  EnvironmentFile <span className="font-mono break-all">{file.optional ? '-' : ''}{file.path}</span>
+                  {!file.readable && ' (not readable)'}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {visibleEntries.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No environment variables are configured.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="font-normal pb-1 pr-2">Name</th>
+                  <th className="font-normal pb-1 pr-2">Configured</th>
+                  <th className="font-normal pb-1 pr-2">Live</th>
+                  <th className="font-normal pb-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEntries.map(entry => (
+                  <tr key={entry.name} className="align-top">
+                    <td className="font-mono text-gray-900 dark:text-white pr-2 py-0.5 break-all">{entry.name}</td>
+                    <td
+                      className="font-mono text-gray-700 dark:text-gray-300 pr-2 py-0.5 break-all"
+                      title={entry.source ?? undefined}
+                    >
+                      {entry.configured ?? '—'}
+                    </td>
+                    <td className="font-mono text-gray-700 dark:text-gray-300 pr-2 py-0.5 break-all">{entry.live ?? '—'}</td>
+                    <td className={`py-0.5 whitespace-nowrap ${STATE_LABELS[entry.state].className}`}>
+                      {STATE_LABELS[entry.state].label}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {inheritedCount > 0 && (
+            <button
+              onClick={() => setShowInherited(prev => !prev)}
+              className="mt-2 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {showInherited ? 'Hide' : 'Show'} {inheritedCount} variables set only in the live environment
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+EnvironmentPanel.displayName = 'EnvironmentPanel';
+
+export default EnvironmentPanel;
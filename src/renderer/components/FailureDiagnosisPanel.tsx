@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useCallback, memo } from 'react';
+import type { FailureDiagnosis, MainProcessExit, ServiceInfo } from '../../types/service';
+
+interface FailureDiagnosisPanelProps {
+  service: ServiceInfo;
+}
+
+const formatExit = (exit: MainProcessExit): string => {
+  if (exit.kind === 'exited') {
+    return exit.name ? `status ${exit.status}/${exit.name}` : `status ${exit.status}`;
+  }
+  const signal = exit.name ?? `signal ${exit.status}`;
+  return exit.kind === 'dumped' ? `${signal} (core dumped)` : signal;
+};
+
+/**
+ * Why a failed unit failed: its Result=, how the main process ended,
+ * restarts and start-limit hits, and the journal of the failed invocation.
+ */
+const FailureDiagnosisPanel: React.FC<FailureDiagnosisPanelProps> = memo(({ service }) => {
+  const [diagnosis, setDiagnosis] = useState<FailureDiagnosis | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showJournal, setShowJournal] = useState(true);
+
+  const scope = service.domain === 'user' ? 'user' : 'system';
+
+  const loadDiagnosis = useCallback(async () => {
+    if (!window.serviceAPI) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.getFailureDiagnosis(service.id, scope);
+      if (response.ok && response.data) {
+        setDiagnosis(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to diagnose the failure');
+      }
+    } catch (err) {
+      setError('Failed to diagnose the failure');
+    } finally {
+      setLoading(false);
+    }
+  }, [service.id, scope]);
+
+  useEffect(() => {
+    setDiagnosis(null);
+    loadDiagnosis();
+  }, [loadDiagnosis]);
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-800 pt-4 mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-red-600 dark:text-red-400 uppercase tracking-wider">
+          Why It Failed
+        </h3>
+        <button
+          onClick={loadDiagnosis}
+          disabled={loading}
+          className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : 'Reload'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading && !diagnosis && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Reading the unit's state and journal...</p>
+      )}
+
+      {diagnosis && (
+        <div className="space-y-3">
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+            {diagnosis.summary}
+          </div>
+
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+            <div>
+              <dt className="text-xs text-gray-500 dark:text-gray-400">Result</dt>
+              <dd className="font-mono text-gray-900 dark:text-white" title={diagnosis.resultDescription ?? undefined}>
+                {diagnosis.result}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500 dark:text-gray-400">Main Process</dt>
+              <dd className="font-mono text-gray-900 dark:text-white" title={diagnosis.mainExit?.description ?? undefined}>
+                {diagnosis.mainExit ? formatExit(diagnosis.mainExit) : '—'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500 dark:text-gray-400">Automatic Restarts</dt>
+              <dd className="text-gray-900 dark:text-white">{diagnosis.nRestarts ?? '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-xs text-gray-500 dark:text-gray-400">Start Limit</dt>
+              <dd className={diagnosis.startLimitHit ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}>
+                {diagnosis.startLimitHit ? 'Hit' : 'Not hit'}
+                {diagnosis.startLimitBurst !== null && diagnosis.startLimitInterval && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {' '}({diagnosis.startLimitBurst} per {diagnosis.startLimitInterval})
+                  </span>
+                )}
+              </dd>
+            </div>
+            {diagnosis.invocationId && (
+              <div className="col-span-2">
+                <dt className="text-xs text-gray-500 dark:text-gray-400">Invocation</dt>
+                <dd className="font-mono text-xs text-gray-700 dark:text-gray-300 break-all">{diagnosis.invocationId}</dd>
+              </div>
+            )}
+          </dl>
+
+          {diagnosis.startLimitHit && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              systemd refuses further starts until the interval has passed or the failed state is reset (More → Reset Failed).
+            </p>
+          )}
+
+          <div>
+            <button
+              onClick={() => setShowJournal(prev => !prev)}
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {showJournal ? 'Hide' : 'Show'} journal of {diagnosis.journalSource === 'invocation' ? 'the failed run' : 'the unit'} ({diagnosis.journal.length} lines)
+            </button>
+            {showJournal && (
+              diagnosis.journal.length > 0 ? (
+                <pre className="mt-2 p-3 max-h-80 overflow-auto bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-xs font-mono text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-all">
+                  {diagnosis.journal.join('\n')}
+                </pre>
+              ) : (
+                <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                  No journal entries were found; reading the system journal may need membership in the systemd-journal or adm group.
+                </p>
+              )
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+FailureDiagnosisPanel.displayName = 'FailureDiagnosisPanel';
+
+export default FailureDiagnosisPanel;
@@ -1,4 +1,5 @@
 import React, { memo, useState, useRef, useEffect } from 'react';
+import type { MachineInfo, UnstableService } from '../../types/service';
 
 interface HeaderProps {
   loading: boolean;
@@ -7,10 +8,27 @@ interface HeaderProps {
   onRefresh: () => void;
   onOpenSettings: () => void;
   onOpenBackups: () => void;
+  onOpenTimers?: () => void;
+  onOpenJobs?: () => void;
+  onOpenBoot?: () => void;
+  onCreateService?: () => void;
+  onRunTransient?: () => void;
+  /** Units the crash-loop detector flags; the banner is hidden when there are none. */
+  unstableServices?: UnstableService[];
+  onSelectUnstable?: (unstable: UnstableService) => void;
+  onDismissUnstable?: () => void;
   onExport: (format: 'csv' | 'json' | 'markdown') => void;
+  /** SSH destinations configured in settings; the switcher is hidden when there are none. */
+  hosts?: string[];
+  host?: string | null;
+  onHostChange?: (host: string | null) => void;
+  /** Machines from `machinectl list`; the picker is hidden when there are none. */
+  machines?: MachineInfo[];
+  machine?: string | null;
+  onMachineChange?: (machine: string | null) => void;
 }
 
-const Header: React.FC<HeaderProps> = memo(({ loading, theme, onToggleTheme, onRefresh, onOpenSettings, onOpenBackups, onExport }) => {
+const Header: React.FC<HeaderProps> = memo(({ loading, theme, onToggleTheme, onRefresh, onOpenSettings, onOpenBackups, onOpenTimers, onOpenJobs, onOpenBoot, onCreateService, onRunTransient, unstableServices = [], onSelectUnstable, onDismissUnstable, onExport, hosts = [], host = null, onHostChange, machines = [], machine = null, onMachineChange }) => {
   const [exportOpen, setExportOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement | null>(null);
 
@@ -69,6 +87,39 @@ const Header: React.FC<HeaderProps> = memo(({ loading, theme, onToggleTheme, onR
             )}
           </button>
 
+          {onHostChange && hosts.length > 0 && (
+            <select
+              value={host ?? ''}
+              onChange={(e) => onHostChange(e.target.value || null)}
+              aria-label="Host"
+              title="Machine whose services are shown; remote hosts are reached over SSH"
+              className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+            >
+              <option value="">This computer</option>
+              {hosts.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          )}
+
+          {onMachineChange && machines.length > 0 && (
+            <select
+              value={machine ?? ''}
+              onChange={(e) => onMachineChange(e.target.value || null)}
+              aria-label="Machine"
+              title="Container whose system services are shown (systemctl --machine)"
+              className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+            >
+              <option value="">Host system</option>
+              {machines.map(item => (
+                // Virtual machines are registered too, but systemctl can only reach into containers.
+                <option key={item.name} value={item.name} disabled={item.class !== 'container'}>
+                  {item.name}{item.os ? ` (${item.os}${item.version ? ` ${item.version}` : ''})` : ''}{item.class !== 'container' ? ` • ${item.class}` : ''}
+                </option>
+              ))}
+            </select>
+          )}
+
           <div className="flex items-center gap-2 px-3 py-1.5 bg-gray-100 dark:bg-gray-800 rounded-lg">
             <span className={`w-2 h-2 rounded-full ${loading ? 'bg-blue-500 dark:bg-blue-400 animate-pulse' : 'bg-gray-400 dark:bg-gray-600'}`}></span>
             <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{loading ? 'Refreshing…' : 'Idle'}</span>
@@ -126,6 +177,71 @@ const Header: React.FC<HeaderProps> = memo(({ loading, theme, onToggleTheme, onR
             <span className="font-medium">Refresh</span>
           </button>
 
+          {onCreateService && (
+            <button
+              onClick={onCreateService}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 cursor-pointer"
+              aria-label="Create service"
+              title="Create a new service"
+            >
+              <svg className="w-5 h-5 text-gray-600 dark:text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+            </button>
+          )}
+
+          {onRunTransient && (
+            <button
+              onClick={onRunTransient}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 cursor-pointer"
+              aria-label="Run as service"
+              title="Run a command as a transient service"
+            >
+              <svg className="w-5 h-5 text-gray-600 dark:text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+            </button>
+          )}
+
+          {onOpenTimers && (
+            <button
+              onClick={onOpenTimers}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 cursor-pointer"
+              aria-label="Open timers"
+              title="Timers dashboard"
+            >
+              <svg className="w-5 h-5 text-gray-600 dark:text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </button>
+          )}
+
+          {onOpenJobs && (
+            <button
+              onClick={onOpenJobs}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 cursor-pointer"
+              aria-label="Open jobs"
+              title="Queued and running jobs"
+            >
+              <svg className="w-5 h-5 text-gray-600 dark:text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h10M4 18h6" />
+              </svg>
+            </button>
+          )}
+
+          {onOpenBoot && (
+            <button
+              onClick={onOpenBoot}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 cursor-pointer"
+              aria-label="Open boot performance"
+              title="Boot performance"
+            >
+              <svg className="w-5 h-5 text-gray-600 dark:text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+              </svg>
+            </button>
+          )}
+
           <button
             onClick={onOpenBackups}
             className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 cursor-pointer"
@@ -150,6 +266,39 @@ const Header: React.FC<HeaderProps> = memo(({ loading, theme, onToggleTheme, onR
           </button>
         </div>
       </div>
+
+      {unstableServices.length > 0 && (
+        <div className="flex items-start justify-between gap-4 px-6 py-2 bg-red-50 dark:bg-red-900/20 border-t border-red-200 dark:border-red-800 text-sm text-red-800 dark:text-red-200">
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+            <span className="font-semibold">
+              {unstableServices.length === 1 ? '1 unit is' : `${unstableServices.length} units are`} unstable:
+            </span>
+            {unstableServices.map(unstable => (
+              <button
+                key={`${unstable.scope}:${unstable.serviceId}`}
+                onClick={() => onSelectUnstable?.(unstable)}
+                className="font-mono hover:underline"
+                title={unstable.message}
+              >
+                {unstable.serviceId}
+                <span className="ml-1 text-xs font-sans opacity-75">
+                  ({unstable.kind === 'crash-loop' ? `${unstable.restarts} restarts` : 'flapping'}{unstable.scope === 'user' ? ', user' : ''})
+                </span>
+              </button>
+            ))}
+          </div>
+          {onDismissUnstable && (
+            <button
+              onClick={onDismissUnstable}
+              className="text-red-600 hover:text-red-800 dark:text-red-300 dark:hover:text-red-100"
+              aria-label="Dismiss unstable units"
+              title="Hide until a unit starts crashing again"
+            >
+              ✕
+            </button>
+          )}
+        </div>
+      )}
     </header>
   );
 });
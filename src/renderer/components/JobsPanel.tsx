@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ServiceScope, SystemdJob } from '../../types/service';
+
+interface JobsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scope?: ServiceScope;
+  onSelectService: (serviceId: string) => void;
+}
+
+// Jobs come and go within seconds, so the list is re-read while the panel is open.
+const REFRESH_INTERVAL_MS = 2000;
+
+const JobsPanel: React.FC<JobsPanelProps> = ({ isOpen, onClose, scope = 'system', onSelectService }) => {
+  const [jobs, setJobs] = useState<SystemdJob[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState<number | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    if (!window.serviceAPI) return;
+
+    setLoading(true);
+
+    try {
+      const response = await window.serviceAPI.listJobs(scope);
+      if (response.ok && response.data) {
+        setJobs(response.data);
+        setError(null);
+      } else {
+        setError(response.error?.message || 'Failed to load jobs');
+      }
+    } catch (err) {
+      setError('Failed to load jobs');
+    } finally {
+      setLoading(false);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    loadJobs();
+    const interval = setInterval(loadJobs, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOpen, loadJobs]);
+
+  const handleCancel = async (job: SystemdJob) => {
+    if (!window.serviceAPI) return;
+
+    setCancelling(job.id);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.cancelJob(job.id, scope);
+      if (!response.ok) {
+        setError(response.error?.message || `Failed to cancel job ${job.id}`);
+      }
+      await loadJobs();
+    } catch (err) {
+      setError(`Failed to cancel job ${job.id}`);
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white dark:bg-gray-900 w-full max-w-4xl max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <div>
+            <h2 className="text-xl font-normal text-gray-900 dark:text-white">
+              Jobs
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {jobs.length} queued or running{scope === 'user' ? ' • User units' : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading && jobs.length === 0 && !error ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              Loading jobs...
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              No jobs are queued; every unit has settled.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Job</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Unit</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Type</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">State</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {jobs.map((job) => (
+                  <tr key={job.id}>
+                    <td className="px-3 py-2 font-mono text-gray-700 dark:text-gray-300">{job.id}</td>
+                    <td className="px-3 py-2">
+                      <button
+                        onClick={() => onSelectService(job.unit)}
+                        className="font-mono text-blue-600 dark:text-blue-400 hover:underline break-all text-left"
+                        title="Show this unit in the service table"
+                      >
+                        {job.unit}
+                      </button>
+                    </td>
+                    <td className="px-3 py-2 font-mono text-gray-700 dark:text-gray-300">{job.type}</td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`px-2 py-0.5 text-xs border ${
+                          job.state === 'running'
+                            ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800'
+                            : 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-300 border-yellow-200 dark:border-yellow-800'
+                        }`}
+                      >
+                        {job.state}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <button
+                        onClick={() => handleCancel(job)}
+                        disabled={cancelling === job.id}
+                        className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+                        title={`systemctl cancel ${job.id}`}
+                      >
+                        {cancelling === job.id ? 'Cancelling...' : 'Cancel'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JobsPanel;
@@ -1,15 +1,18 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import type { ServiceLogs } from '../../types/service';
+import type { ServiceLogs, ServiceScope } from '../../types/service';
 import LoadingSpinner from './LoadingSpinner';
 
 interface LogViewerProps {
   serviceId: string;
   serviceName: string;
+  scope?: ServiceScope;
+  host?: string;
+  machine?: string;
   isOpen: boolean;
   onClose: () => void;
 }
 
-const LogViewer: React.FC<LogViewerProps> = ({ serviceId, serviceName, isOpen, onClose }) => {
+const LogViewer: React.FC<LogViewerProps> = ({ serviceId, serviceName, scope = 'system', host, machine, isOpen, onClose }) => {
   const [logs, setLogs] = useState<ServiceLogs | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -22,7 +25,7 @@ const LogViewer: React.FC<LogViewerProps> = ({ serviceId, serviceName, isOpen, o
     setError(null);
 
     try {
-      const response = await window.serviceAPI.getServiceLogs(serviceId, lineCount);
+      const response = await window.serviceAPI.getServiceLogs(serviceId, lineCount, scope, host, machine);
       if (response.ok && response.data) {
         setLogs(response.data);
       } else {
@@ -33,7 +36,7 @@ const LogViewer: React.FC<LogViewerProps> = ({ serviceId, serviceName, isOpen, o
     } finally {
       setLoading(false);
     }
-  }, [serviceId, lineCount]);
+  }, [serviceId, lineCount, scope, host, machine]);
 
   useEffect(() => {
     if (isOpen && serviceId) {
@@ -73,7 +76,9 @@ const LogViewer: React.FC<LogViewerProps> = ({ serviceId, serviceName, isOpen, o
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
               Service Logs
             </h2>
-            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{serviceName}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {serviceName}{scope === 'user' ? ' (user)' : ''}
+            </p>
           </div>
           <div className="flex items-center gap-2">
             <select
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { OverrideSaveResult, ServiceScope, UnitFileSet, UnitType } from '../../types/service';
+
+interface OverrideEditorProps {
+  isOpen: boolean;
+  serviceId: string;
+  serviceName: string;
+  scope?: ServiceScope;
+  unitType?: UnitType;
+  onClose: () => void;
+  onRestart: (serviceId: string, serviceName: string) => Promise<void>;
+}
+
+const SECTION_BY_TYPE: Record<UnitType, string> = {
+  service: 'Service',
+  timer: 'Timer',
+  socket: 'Socket',
+  path: 'Path',
+  mount: 'Mount',
+  target: 'Unit',
+};
+
+const OverrideEditor: React.FC<OverrideEditorProps> = ({
+  isOpen,
+  serviceId,
+  serviceName,
+  scope = 'system',
+  unitType = 'service',
+  onClose,
+  onRestart,
+}) => {
+  const [files, setFiles] = useState<UnitFileSet | null>(null);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [restarting, setRestarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<OverrideSaveResult | null>(null);
+
+  const loadFiles = useCallback(async () => {
+    if (!window.serviceAPI) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.getUnitFiles(serviceId, scope);
+      if (response.ok && response.data) {
+        setFiles(response.data);
+        setDraft(response.data.override ?? `[${SECTION_BY_TYPE[unitType]}]\n`);
+      } else {
+        setError(response.error?.message || 'Failed to load unit files');
+      }
+    } catch (err) {
+      setError('Failed to load unit files');
+    } finally {
+      setLoading(false);
+    }
+  }, [serviceId, scope, unitType]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSaved(null);
+      loadFiles();
+    }
+  }, [isOpen, loadFiles]);
+
+  const handleSave = async () => {
+    if (!window.serviceAPI) return;
+
+    setSaving(true);
+    setError(null);
+    setSaved(null);
+
+    try {
+      const response = await window.serviceAPI.saveOverride(serviceId, draft, scope);
+      if (response.ok && response.data) {
+        setSaved(response.data);
+        await loadFiles();
+      } else {
+        setError(response.error?.message || 'Failed to save override');
+      }
+    } catch (err) {
+      setError('Failed to save override');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestart = async () => {
+    setRestarting(true);
+    try {
+      await onRestart(serviceId, serviceName);
+      setSaved(null);
+    } finally {
+      setRestarting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isDirty = files !== null && draft !== (files.override ?? `[${SECTION_BY_TYPE[unitType]}]\n`);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white dark:bg-gray-900 w-full max-w-5xl max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <div>
+            <h2 className="text-xl font-normal text-gray-900 dark:text-white">
+              Edit Overrides
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 font-mono">{files?.unitId ?? serviceId}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          {saved && (
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 text-sm flex items-center justify-between gap-4">
+              <span>
+                {saved.removed ? 'Override removed' : 'Override saved'} and daemon reloaded. Restart {serviceName} to apply it?
+              </span>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={handleRestart}
+                  disabled={restarting}
+                  className="px-3 py-1 text-xs bg-black dark:bg-white text-white dark:text-black hover:opacity-80 disabled:opacity-50"
+                >
+                  {restarting ? 'Restarting...' : 'Restart Now'}
+                </button>
+                <button
+                  onClick={() => setSaved(null)}
+                  className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+                >
+                  Later
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loading && !files ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              Loading unit files...
+            </div>
+          ) : files && (
+            <>
+              <section>
+                <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
+                  {files.override === null ? 'New Override' : 'Override'}
+                </h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 font-mono mb-2 break-all">{files.overridePath}</p>
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  spellCheck={false}
+                  rows={10}
+                  aria-label="Override contents"
+                  className="w-full p-3 font-mono text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Settings here take precedence over the unit file and earlier drop-ins. Saving empty content removes the override.
+                </p>
+              </section>
+
+              {files.dropIns.map((dropIn) => (
+                <section key={dropIn.path}>
+                  <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Drop-in</h3>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 font-mono mb-2 break-all">{dropIn.path}</p>
+                  <pre className="p-3 text-xs font-mono bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 border border-gray-200 dark:border-gray-700 overflow-x-auto whitespace-pre">
+                    {dropIn.content ?? 'Unable to read this file'}
+                  </pre>
+                </section>
+              ))}
+
+              <section>
+                <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Unit File</h3>
+                {files.fragment ? (
+                  <>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 font-mono mb-2 break-all">{files.fragment.path}</p>
+                    <pre className="p-3 text-xs font-mono bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 border border-gray-200 dark:border-gray-700 overflow-x-auto whitespace-pre">
+                      {files.fragment.content ?? 'Unable to read this file'}
+                    </pre>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">This unit has no unit file on disk.</p>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || loading || !files || !isDirty}
+            className="px-4 py-2 bg-black dark:bg-white text-white dark:text-black hover:opacity-80 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save & Reload'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OverrideEditor;
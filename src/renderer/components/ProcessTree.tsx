@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useCallback, useMemo, memo } from 'react';
+import type { KillSignal, ServiceScope, UnitProcess, UnitProcessTree } from '../../types/service';
+import { formatBytes } from '../utils/resourceFormat';
+
+interface ProcessTreeProps {
+  serviceId: string;
+  scope?: ServiceScope;
+}
+
+const KILL_SIGNALS: KillSignal[] = ['SIGTERM', 'SIGKILL', 'SIGHUP', 'SIGINT', 'SIGQUIT', 'SIGUSR1', 'SIGUSR2'];
+
+const STATE_LABELS: Record<string, string> = {
+  R: 'running',
+  S: 'sleeping',
+  D: 'disk wait',
+  Z: 'zombie',
+  T: 'stopped',
+  t: 'traced',
+  I: 'idle',
+};
+
+type ProcessRow = { proc: UnitProcess; depth: number };
+
+/** Orders processes parent-first, children indented under the process that forked them. */
+const flattenTree = (processes: UnitProcess[], mainPid: number | null): ProcessRow[] => {
+  const pids = new Set(processes.map(proc => proc.pid));
+  const children = new Map<number, UnitProcess[]>();
+  const roots: UnitProcess[] = [];
+
+  for (const proc of processes) {
+    if (pids.has(proc.ppid) && proc.ppid !== proc.pid) {
+      children.set(proc.ppid, [...(children.get(proc.ppid) ?? []), proc]);
+    } else {
+      roots.push(proc);
+    }
+  }
+
+  roots.sort((a, b) => (a.pid === mainPid ? -1 : b.pid === mainPid ? 1 : a.pid - b.pid));
+
+  const rows: ProcessRow[] = [];
+  const visit = (proc: UnitProcess, depth: number) => {
+    rows.push({ proc, depth });
+    for (const child of (children.get(proc.pid) ?? []).sort((a, b) => a.pid - b.pid)) {
+      visit(child, depth + 1);
+    }
+  };
+  roots.forEach(root => visit(root, 0));
+  return rows;
+};
+
+const formatStarted = (startedAt: number | null): string =>
+  startedAt === null ? '—' : new Date(startedAt).toLocaleString();
+
+/**
+ * Every process in the unit's cgroup, shown as a fork tree. Selecting a
+ * process shows its full command line and lets a signal be sent to it alone.
+ */
+const ProcessTree: React.FC<ProcessTreeProps> = memo(({ serviceId, scope = 'system' }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [tree, setTree] = useState<UnitProcessTree | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [selectedPid, setSelectedPid] = useState<number | null>(null);
+  const [signal, setSignal] = useState<KillSignal>('SIGTERM');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    setTree(null);
+    setError(null);
+    setMessage(null);
+    setSelectedPid(null);
+  }, [serviceId, scope]);
+
+  const loadProcesses = useCallback(async () => {
+    if (!window.serviceAPI) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.getUnitProcesses(serviceId, scope);
+      if (response.ok && response.data) {
+        setTree(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load processes');
+      }
+    } catch (err) {
+      setError('Failed to load processes');
+    } finally {
+      setLoading(false);
+    }
+  }, [serviceId, scope]);
+
+  useEffect(() => {
+    if (expanded) {
+      loadProcesses();
+    }
+  }, [expanded, loadProcesses]);
+
+  const rows = useMemo(() => (tree ? flattenTree(tree.processes, tree.mainPid) : []), [tree]);
+  const selected = rows.find(row => row.proc.pid === selectedPid)?.proc ?? null;
+
+  const handleSignal = async () => {
+    if (!window.serviceAPI || !selected) return;
+    if (!window.confirm(`Send ${signal} to ${selected.name} (pid ${selected.pid})?`)) {
+      return;
+    }
+
+    setSending(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await window.serviceAPI.signalProcess(serviceId, selected.pid, signal, scope);
+      if (response.ok && response.data) {
+        setMessage(`Sent ${response.data.signal} to pid ${response.data.pid}`);
+        await loadProcesses();
+      } else {
+        setError(response.error?.message || 'Failed to signal process');
+      }
+    } catch (err) {
+      setError('Failed to signal process');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-800 pt-4 mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+          Processes{tree && tree.processes.length > 0 ? ` (${tree.processes.length}${tree.truncated ? '+' : ''})` : ''}
+        </h3>
+        <div className="flex gap-2">
+          {expanded && (
+            <button
+              onClick={loadProcesses}
+              disabled={loading}
+              className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+            >
+              Refresh
+            </button>
+          )}
+          <button
+            onClick={() => setExpanded(prev => !prev)}
+            className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            {expanded ? 'Hide' : 'Show'}
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <>
+          {error && (
+            <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="mb-3 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 text-sm">
+              {message}
+            </div>
+          )}
+
+          {loading && !tree ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading processes...</p>
+          ) : tree && rows.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {tree.controlGroup ? 'No processes in this unit\'s cgroup.' : 'This unit has no cgroup; it is not running.'}
+            </p>
+          ) : tree && (
+            <div className={loading ? 'opacity-60' : ''}>
+              <p className="text-xs font-mono text-gray-500 dark:text-gray-400 break-all mb-2">{tree.controlGroup}</p>
+              <ul className="text-xs font-mono divide-y divide-gray-100 dark:divide-gray-800" role="tree">
+                {rows.map(({ proc, depth }) => (
+                  <li key={proc.pid} role="treeitem" aria-selected={proc.pid === selectedPid}>
+                    <button
+                      onClick={() => setSelectedPid(prev => (prev === proc.pid ? null : proc.pid))}
+                      title={proc.command}
+                      className={`w-full flex items-center gap-2 py-1 pr-1 text-left hover:bg-gray-50 dark:hover:bg-gray-800 ${
+                        proc.pid === selectedPid ? 'bg-gray-100 dark:bg-gray-800' : ''
+                      }`}
+                      style={{ paddingLeft: `${depth * 12 + 4}px` }}
+                    >
+                      <span className="text-gray-500 dark:text-gray-400 w-14 shrink-0">{proc.pid}</span>
+                      <span className={`truncate flex-1 ${proc.pid === tree.mainPid ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
+                        {proc.name}
+                        {proc.cgroup && <span className="text-gray-400 dark:text-gray-500"> {proc.cgroup}</span>}
+                      </span>
+                      <span className="text-gray-500 dark:text-gray-400 shrink-0">{formatBytes(proc.rssBytes)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {tree.truncated && (
+                <p className="mt-2 text-xs text-amber-700 dark:text-amber-400">Only the first {tree.processes.length} processes are shown.</p>
+              )}
+            </div>
+          )}
+
+          {selected && (
+            <div className="mt-3 p-3 border border-gray-200 dark:border-gray-800 space-y-2">
+              <p className="text-xs font-mono text-gray-900 dark:text-white break-all">{selected.command}</p>
+              <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+                <dt className="text-gray-500 dark:text-gray-400">User</dt>
+                <dd className="text-gray-900 dark:text-white">{selected.user || '—'}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">State</dt>
+                <dd className="text-gray-900 dark:text-white">{STATE_LABELS[selected.state] ?? selected.state}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Memory (RSS)</dt>
+                <dd className="text-gray-900 dark:text-white">{formatBytes(selected.rssBytes)}</dd>
+                <dt className="text-gray-500 dark:text-gray-400">Started</dt>
+                <dd className="text-gray-900 dark:text-white">{formatStarted(selected.startedAt)}</dd>
+              </dl>
+              <div className="flex gap-2">
+                <select
+                  value={signal}
+                  onChange={(e) => setSignal(e.target.value as KillSignal)}
+                  aria-label="Signal to send"
+                  className="flex-1 px-2 py-1 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white"
+                >
+                  {KILL_SIGNALS.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleSignal}
+                  disabled={sending}
+                  className="px-3 py-1 text-xs bg-black dark:bg-white text-white dark:text-black hover:opacity-80 disabled:opacity-50"
+                >
+                  {sending ? 'Sending...' : 'Send Signal'}
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+});
+
+ProcessTree.displayName = 'ProcessTree';
+
+export default ProcessTree;
@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useCallback, memo } from 'react';
+import type { ResourceLimitName, ResourceLimits, ResourceLimitsResult, ServiceScope } from '../../types/service';
+import { formatBytes } from '../utils/resourceFormat';
+
+interface ResourceLimitsEditorProps {
+  serviceId: string;
+  scope?: ServiceScope;
+}
+
+const LIMIT_FIELDS: ReadonlyArray<{ name: ResourceLimitName; label: string; placeholder: string; hint: string }> = [
+  { name: 'MemoryMax', label: 'Memory Max', placeholder: 'e.g. 512M', hint: 'Hard cap; the OOM killer acts above it. Bytes, K/M/G/T, a percentage or infinity.' },
+  { name: 'MemoryHigh', label: 'Memory High', placeholder: 'e.g. 384M', hint: 'Throttling threshold below MemoryMax.' },
+  { name: 'CPUQuota', label: 'CPU Quota', placeholder: 'e.g. 50%', hint: '100% is one full CPU; use more than 100% for several.' },
+  { name: 'CPUWeight', label: 'CPU Weight', placeholder: '100', hint: 'Relative share under contention, 1–10000 (default 100).' },
+  { name: 'TasksMax', label: 'Tasks Max', placeholder: 'e.g. 512', hint: 'Process and thread limit, a percentage or infinity.' },
+  { name: 'IOWeight', label: 'IO Weight', placeholder: '100', hint: 'Relative IO share, 1–10000 (default 100).' },
+];
+
+const MEMORY_LIMITS: ReadonlySet<ResourceLimitName> = new Set(['MemoryMax', 'MemoryHigh']);
+
+const inputClassName =
+  'w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm';
+
+const describeCurrent = (name: ResourceLimitName, value: string): string => {
+  if (!value) return 'Not set';
+  if (MEMORY_LIMITS.has(name) && /^\d+$/.test(value)) return formatBytes(Number(value));
+  return value;
+};
+
+const ResourceLimitsEditor: React.FC<ResourceLimitsEditorProps> = memo(({ serviceId, scope = 'system' }) => {
+  const [current, setCurrent] = useState<ResourceLimits | null>(null);
+  const [draft, setDraft] = useState<Partial<ResourceLimits>>({});
+  const [runtime, setRuntime] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [applied, setApplied] = useState<ResourceLimitsResult | null>(null);
+
+  const loadLimits = useCallback(async () => {
+    if (!window.serviceAPI) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.getResourceLimits(serviceId, scope);
+      if (response.ok && response.data) {
+        setCurrent(response.data);
+        setDraft(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load resource limits');
+      }
+    } catch (err) {
+      setError('Failed to load resource limits');
+    } finally {
+      setLoading(false);
+    }
+  }, [serviceId, scope]);
+
+  useEffect(() => {
+    setApplied(null);
+    loadLimits();
+  }, [loadLimits]);
+
+  const changes = current
+    ? Object.fromEntries(
+        LIMIT_FIELDS
+          .map(({ name }) => [name, (draft[name] ?? '').trim()] as const)
+          .filter(([name, value]) => value !== current[name])
+      ) as Partial<ResourceLimits>
+    : {};
+  const hasChanges = Object.keys(changes).length > 0;
+
+  const handleApply = async () => {
+    if (!window.serviceAPI || !hasChanges) return;
+
+    setSaving(true);
+    setError(null);
+    setApplied(null);
+
+    try {
+      const response = await window.serviceAPI.setResourceLimits(serviceId, { limits: changes, runtime }, scope);
+      if (response.ok && response.data) {
+        setApplied(response.data);
+        setCurrent(response.data.limits);
+        setDraft(response.data.limits);
+      } else {
+        setError(response.error?.message || 'Failed to apply resource limits');
+      }
+    } catch (err) {
+      setError('Failed to apply resource limits');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !current) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading resource limits...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {applied && (
+        <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 text-sm">
+          Limits applied {applied.runtime ? 'until the next reboot' : 'persistently'}.
+        </div>
+      )}
+
+      {current && LIMIT_FIELDS.map(({ name, label, placeholder, hint }) => (
+        <div key={name}>
+          <label htmlFor={`limit-${name}`} className="block text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">
+            {label}
+          </label>
+          <input
+            id={`limit-${name}`}
+            type="text"
+            value={draft[name] ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, [name]: e.target.value }))}
+            placeholder={placeholder}
+            spellCheck={false}
+            className={inputClassName}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Current: {describeCurrent(name, current[name])}. {hint}
+          </p>
+        </div>
+      ))}
+
+      {current && (
+        <>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={runtime} onChange={(e) => setRuntime(e.target.checked)} />
+            Runtime only (<code className="font-mono text-xs">--runtime</code>, reverts at reboot)
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Clear a field to reset that limit to systemd's default.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleApply}
+              disabled={saving || !hasChanges}
+              className="flex-1 px-4 py-2 text-sm bg-black dark:bg-white text-white dark:text-black hover:opacity-80 disabled:opacity-50"
+            >
+              {saving ? 'Applying...' : 'Apply Limits'}
+            </button>
+            <button
+              onClick={() => setDraft(current)}
+              disabled={saving || !hasChanges}
+              className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+            >
+              Revert
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
+
+ResourceLimitsEditor.displayName = 'ResourceLimitsEditor';
+
+export default ResourceLimitsEditor;
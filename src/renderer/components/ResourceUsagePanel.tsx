@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useCallback, useMemo, memo } from 'react';
+import type { ResourceSample, ServiceScope } from '../../types/service';
+import { formatBytes, formatCpuTime, formatPercent } from '../utils/resourceFormat';
+
+interface ResourceUsagePanelProps {
+  serviceId: string;
+  scope?: ServiceScope;
+}
+
+const POLL_INTERVAL_MS = 5000;
+const SPARKLINE_WIDTH = 120;
+const SPARKLINE_HEIGHT = 28;
+
+const Sparkline: React.FC<{ values: Array<number | null>; colorClass: string }> = ({ values, colorClass }) => {
+  const points = values
+    .map((value, index) => (value === null ? null : { index, value }))
+    .filter((point): point is { index: number; value: number } => point !== null);
+
+  if (points.length < 2) {
+    return <span className="text-xs text-gray-400 dark:text-gray-500">Collecting…</span>;
+  }
+
+  const max = Math.max(...points.map(point => point.value));
+  const min = Math.min(...points.map(point => point.value));
+  const range = max - min || 1;
+  const step = SPARKLINE_WIDTH / Math.max(values.length - 1, 1);
+  const path = points
+    .map(({ index, value }) => {
+      const x = index * step;
+      const y = SPARKLINE_HEIGHT - 2 - ((value - min) / range) * (SPARKLINE_HEIGHT - 4);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg
+      width={SPARKLINE_WIDTH}
+      height={SPARKLINE_HEIGHT}
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+      className={colorClass}
+      aria-hidden="true"
+    >
+      <polyline points={path} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+/** Live CPU, memory, task and IO figures for a unit, with the history main keeps for it. */
+const ResourceUsagePanel: React.FC<ResourceUsagePanelProps> = memo(({ serviceId, scope = 'system' }) => {
+  const [samples, setSamples] = useState<ResourceSample[]>([]);
+
+  const fetchHistory = useCallback(async () => {
+    if (!window.serviceAPI) return;
+
+    try {
+      const response = await window.serviceAPI.getResourceHistory(serviceId, scope);
+      if (response?.ok && response.data) {
+        setSamples(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch resource history:', error);
+    }
+  }, [serviceId, scope]);
+
+  useEffect(() => {
+    setSamples([]);
+    void fetchHistory();
+
+    const interval = setInterval(() => {
+      void fetchHistory();
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [fetchHistory]);
+
+  // IO counters are cumulative; the sparkline shows bytes per second between samples.
+  const ioRates = useMemo(() => samples.map((sample, index) => {
+    const previous = samples[index - 1];
+    if (!previous) return null;
+    const current = (sample.ioReadBytes ?? 0) + (sample.ioWriteBytes ?? 0);
+    const before = (previous.ioReadBytes ?? 0) + (previous.ioWriteBytes ?? 0);
+    const seconds = (sample.timestamp - previous.timestamp) / 1000;
+    return seconds > 0 && current >= before ? (current - before) / seconds : null;
+  }), [samples]);
+
+  const latest = samples[samples.length - 1];
+  if (!latest) {
+    return null;
+  }
+
+  const rows = [
+    {
+      label: 'CPU',
+      value: `${formatPercent(latest.cpuPercent)} · ${formatCpuTime(latest.cpuUsageNSec)} total`,
+      values: samples.map(sample => sample.cpuPercent),
+      colorClass: 'text-blue-500',
+    },
+    {
+      label: 'Memory',
+      value: formatBytes(latest.memoryBytes),
+      values: samples.map(sample => sample.memoryBytes),
+      colorClass: 'text-violet-500',
+    },
+    {
+      label: 'Tasks',
+      value: latest.tasks === null ? '—' : String(latest.tasks),
+      values: samples.map(sample => sample.tasks),
+      colorClass: 'text-emerald-500',
+    },
+    {
+      label: 'IO',
+      value: `${formatBytes(latest.ioReadBytes)} read · ${formatBytes(latest.ioWriteBytes)} written`,
+      values: ioRates,
+      colorClass: 'text-amber-500',
+    },
+  ];
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-800 pt-4 mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+          Resource Usage
+        </h3>
+        <span className="text-xs text-gray-400 dark:text-gray-500">{samples.length} samples</span>
+      </div>
+      <dl className="space-y-3">
+        {rows.map(row => (
+          <div key={row.label} className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <dt className="text-xs text-gray-500 dark:text-gray-400">{row.label}</dt>
+              <dd className="text-sm text-gray-900 dark:text-white truncate">{row.value}</dd>
+            </div>
+            <Sparkline values={row.values} colorClass={row.colorClass} />
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+});
+
+ResourceUsagePanel.displayName = 'ResourceUsagePanel';
+
+export default ResourceUsagePanel;
@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useCallback, useMemo, memo } from 'react';
+import type { SecurityReport, ServiceInfo } from '../../types/service';
+import CriticalityIcon from './CriticalityIcon';
+import { getCriticalityBadgeClasses, getServiceCriticality } from '../utils/serviceCriticality';
+import { formatExposure, getExposureTextClass } from '../utils/securityExposure';
+
+interface SecurityPanelProps {
+  service: ServiceInfo;
+}
+
+/**
+ * The service's criticality alongside its `systemd-analyze security`
+ * exposure. The full analysis, with every failing check, is run on demand.
+ */
+const SecurityPanel: React.FC<SecurityPanelProps> = memo(({ service }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [report, setReport] = useState<SecurityReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const scope = service.domain === 'user' ? 'user' : 'system';
+  const canAnalyze = service.provider === 'systemd' && !service.host && !service.machine && (service.unitType ?? 'service') === 'service';
+  const criticality = useMemo(
+    () => getServiceCriticality(service.name, service.id, service.description),
+    [service.name, service.id, service.description]
+  );
+
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+  }, [service.id, scope]);
+
+  const loadReport = useCallback(async () => {
+    if (!window.serviceAPI) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.getSecurityReport(service.id, scope);
+      if (response.ok && response.data) {
+        setReport(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to analyze service security');
+      }
+    } catch (err) {
+      setError('Failed to analyze service security');
+    } finally {
+      setLoading(false);
+    }
+  }, [service.id, scope]);
+
+  useEffect(() => {
+    if (expanded && canAnalyze) {
+      loadReport();
+    }
+  }, [expanded, canAnalyze, loadReport]);
+
+  const failing = useMemo(
+    () => (report?.checks ?? [])
+      .filter(check => !check.passed)
+      .sort((a, b) => (b.exposure ?? 0) - (a.exposure ?? 0)),
+    [report]
+  );
+
+  const exposure = report?.exposure ?? service.security ?? null;
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-800 pt-4 mt-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+          Security
+        </h3>
+        {canAnalyze && (
+          <button
+            onClick={() => setExpanded(prev => !prev)}
+            className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            {expanded ? 'Hide Checks' : 'Show Checks'}
+          </button>
+        )}
+      </div>
+
+      <dl className="space-y-3">
+        <div>
+          <dt className="text-xs text-gray-500 dark:text-gray-400 mb-1">Criticality</dt>
+          <dd>
+            <span className={`inline-flex items-center gap-1.5 px-2 py-0.5 text-xs border ${getCriticalityBadgeClasses(criticality.level)}`}>
+              {criticality.level !== 'normal' && <CriticalityIcon level={criticality.level} />}
+              {criticality.description}
+            </span>
+            {criticality.warning && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{criticality.warning}</p>
+            )}
+          </dd>
+        </div>
+
+        {canAnalyze && (
+          <div>
+            <dt className="text-xs text-gray-500 dark:text-gray-400 mb-1" title="systemd-analyze security: 0.0 is fully locked down, 10.0 fully exposed">
+              Exposure
+            </dt>
+            <dd className={`text-sm font-semibold tabular-nums ${exposure ? getExposureTextClass(exposure.predicate) : 'text-gray-900 dark:text-white'}`}>
+              {formatExposure(exposure)}
+            </dd>
+          </div>
+        )}
+      </dl>
+
+      {expanded && canAnalyze && (
+        <div className="mt-3">
+          {error && (
+            <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading && !report ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Running systemd-analyze security...</p>
+          ) : report && (
+            <div className={loading ? 'opacity-60' : ''}>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                {report.checks.length - failing.length} of {report.checks.length} checks passed
+              </p>
+              {failing.length > 0 && (
+                <ul className="space-y-2">
+                  {failing.map(check => (
+                    <li key={check.name}>
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className="text-xs font-mono text-gray-900 dark:text-white break-all">{check.name}</span>
+                        {check.exposure !== null && (
+                          <span className="text-xs tabular-nums text-red-600 dark:text-red-400 shrink-0">+{check.exposure.toFixed(1)}</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{check.description}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+SecurityPanel.displayName = 'SecurityPanel';
+
+export default SecurityPanel;
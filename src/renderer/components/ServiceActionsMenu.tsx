@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useRef, memo } from 'react';
+import type { KillSignal, ServiceAction, ServiceActionOptions, ServiceInfo } from '../../types/service';
+import ActionButton from './ActionButton';
+
+interface ServiceActionsMenuProps {
+  service: ServiceInfo;
+  onServiceAction: (serviceId: string, action: string, serviceName: string, options?: ServiceActionOptions) => void;
+}
+
+const KILL_SIGNALS: KillSignal[] = ['SIGTERM', 'SIGKILL', 'SIGHUP', 'SIGINT', 'SIGQUIT', 'SIGUSR1', 'SIGUSR2'];
+
+const CONFIRMATIONS: Partial<Record<ServiceAction, string>> = {
+  mask: 'Masking prevents {name} from being started at all, even manually or as a dependency. Continue?',
+  'disable-now': 'This stops {name} and prevents it from starting at boot. Continue?',
+};
+
+/**
+ * Secondary systemd actions that do not fit in the table row. Closes on an
+ * outside click or Escape.
+ */
+const ServiceActionsMenu: React.FC<ServiceActionsMenuProps> = memo(({ service, onServiceAction }) => {
+  const [open, setOpen] = useState(false);
+  const [signal, setSignal] = useState<KillSignal>('SIGTERM');
+  const [killWhom, setKillWhom] = useState<'main' | 'all'>('all');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [open]);
+
+  const run = (action: ServiceAction, options?: ServiceActionOptions) => {
+    const confirmation = CONFIRMATIONS[action];
+    if (confirmation && !window.confirm(confirmation.replace('{name}', service.name))) {
+      return;
+    }
+    setOpen(false);
+    onServiceAction(service.id, action, service.name, options);
+  };
+
+  const handleKill = () => {
+    const target = killWhom === 'main' ? 'the main process' : 'all processes';
+    if (!window.confirm(`Send ${signal} to ${target} of ${service.name}?`)) {
+      return;
+    }
+    setOpen(false);
+    onServiceAction(service.id, 'kill', service.name, { signal, killWhom });
+  };
+
+  const isActive = service.status === 'active';
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="px-2 py-1 text-xs font-medium border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+      >
+        More ▾
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 z-20 mt-1 w-72 p-3 space-y-3 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+        >
+          <div className="grid grid-cols-2 gap-1">
+            <ActionButton action="reload" enabled={Boolean(service.canReload)} onClick={() => run('reload')} />
+            <ActionButton action="reload-or-restart" enabled={service.canRestart} onClick={() => run('reload-or-restart')} />
+            <ActionButton action="try-restart" enabled={service.canRestart && isActive} onClick={() => run('try-restart')} />
+            <ActionButton action="reset-failed" enabled={service.status === 'failed'} onClick={() => run('reset-failed')} />
+            <ActionButton action="enable-now" enabled={service.canEnable} onClick={() => run('enable-now')} />
+            <ActionButton action="disable-now" enabled={service.canDisable} onClick={() => run('disable-now')} />
+            <ActionButton action="mask" enabled={Boolean(service.canMask)} onClick={() => run('mask')} />
+            <ActionButton action="unmask" enabled={Boolean(service.canUnmask)} onClick={() => run('unmask')} />
+          </div>
+
+          <div className="pt-3 border-t border-gray-200 dark:border-gray-700">
+            <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Send Signal</div>
+            <div className="flex gap-1">
+              <select
+                value={signal}
+                onChange={(e) => setSignal(e.target.value as KillSignal)}
+                aria-label="Signal"
+                className="flex-1 px-2 py-1 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {KILL_SIGNALS.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+              <select
+                value={killWhom}
+                onChange={(e) => setKillWhom(e.target.value as 'main' | 'all')}
+                aria-label="Processes to signal"
+                className="flex-1 px-2 py-1 text-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">All processes</option>
+                <option value="main">Main process</option>
+              </select>
+              <ActionButton action="kill" enabled={isActive} onClick={handleKill} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+ServiceActionsMenu.displayName = 'ServiceActionsMenu';
+
+export default ServiceActionsMenu;
@@ -1,7 +1,46 @@
-import React, { memo } from 'react';
-import type { ServiceInfo, ServiceNote } from '../../types/service';
+import React, { memo, useState } from 'react';
+import type { ListeningSocket, ServiceInfo, ServiceNote, UnitType } from '../../types/service';
 import HealthIndicator from './HealthIndicator';
+import DependencyGraph from './DependencyGraph';
+import ProcessTree from './ProcessTree';
+import ResourceUsagePanel from './ResourceUsagePanel';
+import ResourceLimitsEditor from './ResourceLimitsEditor';
+import SecurityPanel from './SecurityPanel';
+import EnvironmentPanel from './EnvironmentPanel';
+import FailureDiagnosisPanel from './FailureDiagnosisPanel';
 import ServiceNotes from './ServiceNotes';
+import { formatUptime } from '../utils/resourceFormat';
+
+const UNIT_PROPERTY_LABELS: Record<string, string> = {
+  Type: 'Type',
+  Restart: 'Restart Policy',
+  User: 'Run As User',
+  Triggers: 'Triggers',
+  TimersCalendar: 'Calendar Schedule',
+  TimersMonotonic: 'Monotonic Schedule',
+  NextElapseUSecRealtime: 'Next Elapse',
+  LastTriggerUSec: 'Last Triggered',
+  Persistent: 'Persistent',
+  Listen: 'Listen',
+  Accept: 'Accept',
+  NConnections: 'Connections',
+  Paths: 'Watched Paths',
+  What: 'Source',
+  Where: 'Mount Point',
+  Options: 'Options',
+  Wants: 'Wants',
+  Requires: 'Requires',
+};
+
+// Unit types that run in their own cgroup: they accept resource limits and have a process tree.
+const CGROUP_UNIT_TYPES: ReadonlySet<UnitType> = new Set(['service', 'socket', 'mount']);
+
+type DetailsTab = 'overview' | 'limits';
+
+const formatSocketAddress = ({ protocol, address, port }: ListeningSocket): string => {
+  if (protocol === 'unix') return address;
+  return address.includes(':') ? `[${address}]:${port}` : `${address}:${port}`;
+};
 
 interface ServiceDetailsProps {
   service: ServiceInfo | null;
@@ -9,9 +48,12 @@ interface ServiceDetailsProps {
   onSaveNote?: (serviceId: string, note: string, tags: string[]) => void;
   onDeleteNote?: (serviceId: string) => void;
   noteEditingTrigger?: number | null;
+  onEditOverrides?: (service: ServiceInfo) => void;
 }
 
-const ServiceDetails: React.FC<ServiceDetailsProps> = memo(({ service, note, onSaveNote, onDeleteNote, noteEditingTrigger }) => {
+const ServiceDetails: React.FC<ServiceDetailsProps> = memo(({ service, note, onSaveNote, onDeleteNote, noteEditingTrigger, onEditOverrides }) => {
+  const [activeTab, setActiveTab] = useState<DetailsTab>('overview');
+
   const formatStatusLabel = (label: string): string => {
     if (!label) return 'Unknown';
     const cleaned = label.replace(/\s*\([^)]*\)/g, '').trim();
@@ -40,83 +82,214 @@ const ServiceDetails: React.FC<ServiceDetailsProps> = memo(({ service, note, onS
     );
   }
 
+  // Units on a remote host or in a container are read through systemctl; the panels below that read /proc or local state cover this machine only.
+  const isLocal = !service.host && !service.machine;
+  const hasCgroup = isLocal && service.provider === 'systemd' && CGROUP_UNIT_TYPES.has(service.unitType ?? 'service');
+  const tab: DetailsTab = hasCgroup ? activeTab : 'overview';
+  const serviceScope = service.domain === 'user' ? 'user' : 'system';
+
   return (
     <aside className="w-full lg:w-96 bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-800 overflow-hidden">
-      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800 flex items-center justify-between">
         <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Service Details</h2>
+        {hasCgroup && (
+          <div className="flex text-xs" role="tablist">
+            {(['overview', 'limits'] as const).map(value => (
+              <button
+                key={value}
+                role="tab"
+                aria-selected={tab === value}
+                onClick={() => setActiveTab(value)}
+                className={`px-3 py-1 border border-gray-300 dark:border-gray-600 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+                  tab === value
+                    ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white font-semibold'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {value === 'overview' ? 'Overview' : 'Limits'}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
       
       <div className="p-6 overflow-auto max-h-[calc(100vh-300px)]">
-        <dl className="space-y-4">
-          <div>
-            <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Name</dt>
-            <dd className="text-sm text-gray-900 dark:text-white font-medium">{service.name || service.id}</dd>
-          </div>
+        {tab === 'limits' ? (
+          <ResourceLimitsEditor serviceId={service.id} scope={serviceScope} />
+        ) : (
+          <>
+            <dl className="space-y-4">
+              <div>
+                <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Name</dt>
+                <dd className="text-sm text-gray-900 dark:text-white font-medium">{service.name || service.id}</dd>
+              </div>
 
-          <div>
-            <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Identifier</dt>
-            <dd className="text-sm text-gray-900 dark:text-gray-300 font-mono">{service.id}</dd>
-          </div>
+              <div>
+                <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Identifier</dt>
+                <dd className="text-sm text-gray-900 dark:text-gray-300 font-mono">{service.id}</dd>
+              </div>
 
-          <div>
-            <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Status</dt>
-            <dd className="text-sm text-gray-900 dark:text-white">{formatStatusLabel(service.statusLabel || service.status || 'unknown')}</dd>
-          </div>
+              {service.provider === 'systemd' && (
+                <div>
+                  <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Scope</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">{service.domain === 'user' ? 'User' : 'System'}</dd>
+                </div>
+              )}
 
-          <div>
-            <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Startup Type</dt>
-            <dd className="text-sm text-gray-900 dark:text-white">{formatStartupType(service.startupType)}</dd>
-          </div>
+              {service.host && (
+                <div>
+                  <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Host</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white font-mono">{service.host}</dd>
+                </div>
+              )}
 
-          <div>
-            <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Executable</dt>
-            <dd className="text-sm text-gray-900 dark:text-gray-300 font-mono break-all">{service.executable || '—'}</dd>
-          </div>
+              {service.machine && (
+                <div>
+                  <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Machine</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white font-mono">{service.machine}</dd>
+                </div>
+              )}
 
-          <div>
-            <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">PID</dt>
-            <dd className="text-sm text-gray-900 dark:text-white">{service.pid ? String(service.pid) : '—'}</dd>
-          </div>
+              {service.unitType && (
+                <div>
+                  <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Unit Type</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">{formatStartupType(service.unitType)}</dd>
+                </div>
+              )}
 
-          <div>
-            <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Description</dt>
-            <dd className="text-sm text-gray-900 dark:text-gray-300">{service.description || '—'}</dd>
-          </div>
+              <div>
+                <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Status</dt>
+                <dd className="text-sm text-gray-900 dark:text-white">{formatStatusLabel(service.statusLabel || service.status || 'unknown')}</dd>
+              </div>
 
-          {service.unitFile && (
-            <div>
-              <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Unit File</dt>
-              <dd className="text-sm text-gray-900 dark:text-gray-300">
-                <div className="flex flex-col gap-2">
-                  <span className="font-mono break-all">{service.unitFile}</span>
-                  <button
-                    onClick={() => handleOpenPath(service.unitFile as string)}
-                    className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white rounded-lg transition-colors font-medium cursor-pointer"
-                  >
-                    <span className="flex items-center gap-2">
-                      <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M3 7.5A1.5 1.5 0 014.5 6h4.086a1.5 1.5 0 011.06.44l1.414 1.414a1.5 1.5 0 001.06.44H19.5A1.5 1.5 0 0121 9.794v8.706A1.5 1.5 0 0119.5 20h-15A1.5 1.5 0 013 18.5V7.5z" />
-                      </svg>
-                      <span>Show in File Manager</span>
-                    </span>
-                  </button>
+              {service.uptimeSeconds !== undefined && (
+                <div>
+                  <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Uptime</dt>
+                  <dd className="text-sm text-gray-900 dark:text-white">{formatUptime(service.uptimeSeconds)}</dd>
                 </div>
-              </dd>
-            </div>
-          )}
-        </dl>
-
-        <HealthIndicator serviceId={service.id} expectedStatus={service.status} />
-
-        {onSaveNote && onDeleteNote && (
-          <ServiceNotes
-            serviceId={service.id}
-            serviceName={service.name}
-            note={note}
-            onSave={(noteText, tags) => onSaveNote(service.id, noteText, tags)}
-            onDelete={() => onDeleteNote(service.id)}
-            editingTrigger={noteEditingTrigger}
-          />
+              )}
+
+              <div>
+                <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Startup Type</dt>
+                <dd className="text-sm text-gray-900 dark:text-white">{formatStartupType(service.startupType)}</dd>
+              </div>
+
+              <div>
+                <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Executable</dt>
+                <dd className="text-sm text-gray-900 dark:text-gray-300 font-mono break-all">{service.executable || '—'}</dd>
+              </div>
+
+              <div>
+                <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">PID</dt>
+                <dd className="text-sm text-gray-900 dark:text-white">{service.pid ? String(service.pid) : '—'}</dd>
+              </div>
+
+              {service.listening && service.listening.length > 0 && (
+                <div>
+                  <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Listening</dt>
+                  <dd className="text-sm text-gray-900 dark:text-gray-300">
+                    <ul className="space-y-1">
+                      {service.listening.map(socket => (
+                        <li key={`${socket.protocol}-${socket.address}-${socket.port}`} className="flex items-baseline gap-2">
+                          <span className="text-xs uppercase text-gray-500 dark:text-gray-400 w-9 shrink-0">{socket.protocol}</span>
+                          <span className="font-mono break-all">{formatSocketAddress(socket)}</span>
+                          {socket.socketUnit && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">via {socket.socketUnit}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </dd>
+                </div>
+              )}
+
+              <div>
+                <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Description</dt>
+                <dd className="text-sm text-gray-900 dark:text-gray-300">{service.description || '—'}</dd>
+              </div>
+
+              {service.unitProperties && Object.entries(service.unitProperties).map(([key, value]) => (
+                <div key={key}>
+                  <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">{UNIT_PROPERTY_LABELS[key] ?? key}</dt>
+                  <dd className="text-sm text-gray-900 dark:text-gray-300 font-mono break-all">{value}</dd>
+                </div>
+              ))}
+
+              {service.unitFile && (
+                <div>
+                  <dt className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Unit File</dt>
+                  <dd className="text-sm text-gray-900 dark:text-gray-300">
+                    <div className="flex flex-col gap-2">
+                      <span className="font-mono break-all">{service.unitFile}</span>
+                      {isLocal && (
+                        <button
+                          onClick={() => handleOpenPath(service.unitFile as string)}
+                          className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white rounded-lg transition-colors font-medium cursor-pointer"
+                        >
+                          <span className="flex items-center gap-2">
+                            <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M3 7.5A1.5 1.5 0 014.5 6h4.086a1.5 1.5 0 011.06.44l1.414 1.414a1.5 1.5 0 001.06.44H19.5A1.5 1.5 0 0121 9.794v8.706A1.5 1.5 0 0119.5 20h-15A1.5 1.5 0 013 18.5V7.5z" />
+                            </svg>
+                            <span>Show in File Manager</span>
+                          </span>
+                        </button>
+                      )}
+                      {service.provider === 'systemd' && isLocal && onEditOverrides && (
+                        <button
+                          onClick={() => onEditOverrides(service)}
+                          className="px-3 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg transition-colors font-medium cursor-pointer"
+                        >
+                          <span className="flex items-center gap-2">
+                            <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                            </svg>
+                            <span>Edit Overrides</span>
+                          </span>
+                        </button>
+                      )}
+                    </div>
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            {isLocal && service.provider === 'systemd' && service.status === 'failed' && (
+              <FailureDiagnosisPanel service={service} />
+            )}
+
+            <SecurityPanel service={service} />
+
+            {isLocal && service.environment && (
+              <EnvironmentPanel service={service} environment={service.environment} />
+            )}
+
+            {isLocal && service.resources && (
+              <ResourceUsagePanel serviceId={service.id} scope={service.domain === 'user' ? 'user' : 'system'} />
+            )}
+
+            {hasCgroup && (
+              <ProcessTree serviceId={service.id} scope={serviceScope} />
+            )}
+
+            {isLocal && (service.provider === 'systemd' || service.provider === 'sysv') && (
+              <DependencyGraph serviceId={service.id} scope={service.domain === 'user' ? 'user' : 'system'} />
+            )}
+
+            {isLocal && service.domain !== 'user' && (service.unitType ?? 'service') === 'service' && (
+              <HealthIndicator serviceId={service.id} expectedStatus={service.status} />
+            )}
+
+            {onSaveNote && onDeleteNote && (
+              <ServiceNotes
+                serviceId={service.id}
+                serviceName={service.name}
+                note={note}
+                onSave={(noteText, tags) => onSaveNote(service.id, noteText, tags)}
+                onDelete={() => onDeleteNote(service.id)}
+                editingTrigger={noteEditingTrigger}
+              />
+            )}
+          </>
         )}
       </div>
     </aside>
@@ -1,11 +1,14 @@
 import React, { useState, useEffect, memo, useMemo, useCallback } from 'react';
-import type { ServiceInfo } from '../../types/service';
+import type { ServiceActionOptions, ServiceInfo, ServiceScope, UnitType } from '../../types/service';
 import StatusBadge from './StatusBadge';
 import ActionButton from './ActionButton';
+import ServiceActionsMenu from './ServiceActionsMenu';
 import LoadingSpinner from './LoadingSpinner';
 import CriticalityIcon from './CriticalityIcon';
 import { getServiceCriticality } from '../utils/serviceCriticality';
 import type { ServiceCriticalityInfo } from '../utils/serviceCriticality';
+import { formatBytes, formatCpuTime } from '../utils/resourceFormat';
+import { getExposureTextClass } from '../utils/securityExposure';
 
 interface ServiceTableProps {
   loading?: boolean;
@@ -13,10 +16,14 @@ interface ServiceTableProps {
   selectedId: string | null;
   searchQuery: string;
   statusFilter: string;
+  scope?: ServiceScope;
+  typeFilter?: UnitType | 'all';
   onSearchChange: (query: string) => void;
   onStatusFilterChange: (filter: string) => void;
+  onScopeChange?: (scope: ServiceScope) => void;
+  onTypeFilterChange?: (unitType: UnitType | 'all') => void;
   onServiceSelect: (service: ServiceInfo) => void;
-  onServiceAction: (serviceId: string, action: string, serviceName: string) => void;
+  onServiceAction: (serviceId: string, action: string, serviceName: string, options?: ServiceActionOptions) => void;
   onToggleFavorite: (serviceId: string) => void;
   onViewLogs: (serviceId: string, serviceName: string) => void;
   isFavorite: (serviceId: string) => boolean;
@@ -25,6 +32,64 @@ interface ServiceTableProps {
 
 const ITEMS_PER_PAGE = 50;
 
+const UNIT_TYPE_OPTIONS: ReadonlyArray<{ value: UnitType | 'all'; label: string }> = [
+  { value: 'all', label: 'All Units' },
+  { value: 'service', label: 'Services' },
+  { value: 'timer', label: 'Timers' },
+  { value: 'socket', label: 'Sockets' },
+  { value: 'path', label: 'Paths' },
+  { value: 'mount', label: 'Mounts' },
+  { value: 'target', label: 'Targets' },
+];
+
+type MetricSortKey = 'cpu' | 'memory' | 'tasks' | 'io' | 'exposure';
+
+interface MetricSort {
+  key: MetricSortKey;
+  direction: 'asc' | 'desc';
+}
+
+type MetricColumn = { key: MetricSortKey; label: string; title: string };
+
+const RESOURCE_COLUMNS: ReadonlyArray<MetricColumn> = [
+  { key: 'cpu', label: 'CPU Time', title: 'Total CPU time consumed (CPUUsageNSec)' },
+  { key: 'memory', label: 'Memory', title: 'Current memory use of the unit\'s cgroup (MemoryCurrent)' },
+  { key: 'tasks', label: 'Tasks', title: 'Processes and threads in the unit (TasksCurrent)' },
+  { key: 'io', label: 'IO', title: 'Bytes read plus written since the unit started (IOReadBytes + IOWriteBytes)' },
+];
+
+const SECURITY_COLUMN: MetricColumn = {
+  key: 'exposure',
+  label: 'Exposure',
+  title: 'systemd-analyze security exposure, from 0.0 (locked down) to 10.0 (fully exposed)',
+};
+
+const getMetricValue = (service: ServiceInfo, key: MetricSortKey): number | null => {
+  if (key === 'exposure') return service.security?.score ?? null;
+  const resources = service.resources;
+  if (!resources) return null;
+  switch (key) {
+    case 'cpu':
+      return resources.cpuUsageNSec;
+    case 'memory':
+      return resources.memoryBytes;
+    case 'tasks':
+      return resources.tasks;
+    case 'io':
+      return resources.ioReadBytes === null && resources.ioWriteBytes === null
+        ? null
+        : (resources.ioReadBytes ?? 0) + (resources.ioWriteBytes ?? 0);
+  }
+};
+
+const formatMetricValue = (service: ServiceInfo, key: MetricSortKey): string => {
+  const value = getMetricValue(service, key);
+  if (key === 'exposure') return value === null ? '—' : value.toFixed(1);
+  if (key === 'cpu') return formatCpuTime(value);
+  if (key === 'tasks') return value === null ? '—' : String(value);
+  return formatBytes(value);
+};
+
 const formatStartupType = (value: string | undefined): string => {
   if (!value) return 'Unknown';
   return value.charAt(0).toUpperCase() + value.slice(1);
@@ -51,9 +116,13 @@ const ServiceTable: React.FC<ServiceTableProps> = memo(({
   selectedId,
   searchQuery,
   statusFilter,
+  scope = 'system',
+  typeFilter = 'service',
   loading = false,
   onSearchChange,
   onStatusFilterChange,
+  onScopeChange,
+  onTypeFilterChange,
   onServiceSelect,
   onServiceAction,
   onToggleFavorite,
@@ -62,6 +131,39 @@ const ServiceTable: React.FC<ServiceTableProps> = memo(({
   hasNote = () => false,
 }) => {
   const [currentPage, setCurrentPage] = useState(1);
+  const [metricSort, setMetricSort] = useState<MetricSort | null>(null);
+
+  // Resource columns only appear when the provider reports cgroup accounting, the
+  // exposure column once systemd-analyze has scored something (both systemd only).
+  const metricColumns = useMemo(() => {
+    const columns: MetricColumn[] = [];
+    if (services.some(service => service.resources)) columns.push(...RESOURCE_COLUMNS);
+    if (services.some(service => service.security)) columns.push(SECURITY_COLUMN);
+    return columns;
+  }, [services]);
+  const columnCount = 6 + metricColumns.length;
+
+  // Sorting by a metric column keeps App's order for ties; units without the figure go last.
+  const sortedServices = useMemo(() => {
+    if (!metricSort) return services;
+    const { key, direction } = metricSort;
+    return [...services].sort((a, b) => {
+      const left = getMetricValue(a, key);
+      const right = getMetricValue(b, key);
+      if (left === null || right === null) {
+        return left === right ? 0 : left === null ? 1 : -1;
+      }
+      return direction === 'asc' ? left - right : right - left;
+    });
+  }, [services, metricSort]);
+
+  // Largest first, then smallest first, then back to the default order.
+  const toggleMetricSort = useCallback((key: MetricSortKey) => {
+    setMetricSort(prev => {
+      if (!prev || prev.key !== key) return { key, direction: 'desc' };
+      return prev.direction === 'desc' ? { key, direction: 'asc' } : null;
+    });
+  }, []);
 
   const criticalityCache = useMemo<Map<string, ServiceCriticalityCache>>(() => {
     const cache = new Map<string, ServiceCriticalityCache>();
@@ -85,7 +187,7 @@ const ServiceTable: React.FC<ServiceTableProps> = memo(({
   }, [currentPage, totalPages]);
 
   const { startIndex, endIndex, pageServices } = useMemo(() => {
-    if (services.length === 0) {
+    if (sortedServices.length === 0) {
       return {
         startIndex: 0,
         endIndex: 0,
@@ -94,18 +196,31 @@ const ServiceTable: React.FC<ServiceTableProps> = memo(({
     }
 
     const start = (effectiveCurrentPage - 1) * ITEMS_PER_PAGE;
-    const end = Math.min(start + ITEMS_PER_PAGE, services.length);
+    const end = Math.min(start + ITEMS_PER_PAGE, sortedServices.length);
 
     return {
       startIndex: start,
       endIndex: end,
-      pageServices: services.slice(start, end),
+      pageServices: sortedServices.slice(start, end),
     };
-  }, [services, effectiveCurrentPage]);
+  }, [sortedServices, effectiveCurrentPage]);
 
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery, statusFilter]);
+  }, [searchQuery, statusFilter, scope, typeFilter, metricSort]);
+
+  // Selecting a unit from elsewhere (e.g. the timers dashboard) may land off-page;
+  // jump to its page and bring the row into view. Runs after the filter reset above.
+  useEffect(() => {
+    if (!selectedId) return;
+    const index = sortedServices.findIndex(service => service.id === selectedId);
+    if (index === -1) return;
+    setCurrentPage(Math.floor(index / ITEMS_PER_PAGE) + 1);
+    requestAnimationFrame(() => {
+      document.querySelector(`[data-service-id="${CSS.escape(selectedId)}"]`)?.scrollIntoView({ block: 'nearest' });
+    });
+    // Only on selection changes, so live list updates do not move the page.
+  }, [selectedId]);
 
   useEffect(() => {
     setCurrentPage(prev => {
@@ -181,12 +296,48 @@ const ServiceTable: React.FC<ServiceTableProps> = memo(({
             type="text"
             value={searchQuery}
             onChange={(e) => onSearchChange(e.target.value)}
-            placeholder="Search services..."
+            placeholder="Search services or :port..."
             aria-label="Search services"
             className="w-full pl-10 pr-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           />
         </div>
         
+        {onScopeChange && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="scopeFilter" className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">
+              Scope:
+            </label>
+            <select
+              id="scopeFilter"
+              value={scope}
+              onChange={(e) => onScopeChange(e.target.value === 'user' ? 'user' : 'system')}
+              className="px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              title="System units are managed by PID 1, user units by your per-user systemd instance"
+            >
+              <option value="system">System</option>
+              <option value="user">User</option>
+            </select>
+          </div>
+        )}
+
+        {onTypeFilterChange && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="typeFilter" className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">
+              Type:
+            </label>
+            <select
+              id="typeFilter"
+              value={typeFilter}
+              onChange={(e) => onTypeFilterChange(e.target.value as UnitType | 'all')}
+              className="px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {UNIT_TYPE_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <div className="flex items-center gap-2">
           <label htmlFor="statusFilter" className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">
             Status:
@@ -214,20 +365,37 @@ const ServiceTable: React.FC<ServiceTableProps> = memo(({
               <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Startup</th>
               <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Executable Path</th>
               <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Description</th>
+              {metricColumns.map(({ key, label, title }) => (
+                <th
+                  key={key}
+                  className="px-4 py-3 text-right text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider whitespace-nowrap"
+                  aria-sort={metricSort?.key === key ? (metricSort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                >
+                  <button
+                    type="button"
+                    onClick={() => toggleMetricSort(key)}
+                    className="uppercase tracking-wider hover:text-gray-900 dark:hover:text-white"
+                    title={title}
+                  >
+                    {label}
+                    {metricSort?.key === key && (metricSort.direction === 'desc' ? ' ▼' : ' ▲')}
+                  </button>
+                </th>
+              ))}
               <th className="px-4 py-3 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider w-52">Actions</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
             {loading && services.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-4 py-12">
+                <td colSpan={columnCount} className="px-4 py-12">
                   <LoadingSpinner text="Loading services..." />
                 </td>
               </tr>
             ) : pageServices.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
-                  {searchQuery || statusFilter !== 'all' 
+                <td colSpan={columnCount} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">
+                  {searchQuery || statusFilter !== 'all' || typeFilter !== 'service' 
                     ? 'No services found matching the current filters' 
                     : 'No services available'}
                 </td>
@@ -238,6 +406,7 @@ const ServiceTable: React.FC<ServiceTableProps> = memo(({
                 return (
                   <tr
                     key={service.id}
+                    data-service-id={service.id}
                     onClick={() => onServiceSelect(service)}
                     className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors ${
                       selectedId === service.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''
@@ -287,6 +456,19 @@ const ServiceTable: React.FC<ServiceTableProps> = memo(({
                     <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 truncate max-w-md" title={service.description || ''}>
                       {service.description || '—'}
                     </td>
+                    {metricColumns.map(({ key }) => (
+                      <td
+                        key={key}
+                        className={`px-4 py-3 text-sm text-right tabular-nums whitespace-nowrap ${
+                          key === 'exposure' && service.security
+                            ? getExposureTextClass(service.security.predicate)
+                            : 'text-gray-700 dark:text-gray-300'
+                        }`}
+                        title={key === 'exposure' ? service.security?.predicate : undefined}
+                      >
+                        {formatMetricValue(service, key)}
+                      </td>
+                    ))}
                     <td className="px-4 py-3">
                       <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
                         <ActionButton
@@ -314,6 +496,9 @@ const ServiceTable: React.FC<ServiceTableProps> = memo(({
                           enabled={service.canDisable}
                           onClick={() => onServiceAction(service.id, 'disable', service.name)}
                         />
+                        {service.provider === 'systemd' && (
+                          <ServiceActionsMenu service={service} onServiceAction={onServiceAction} />
+                        )}
                         <button
                           type="button"
                           onClick={() => onViewLogs(service.id, service.name)}
@@ -0,0 +1,302 @@
+import React, { useState, useEffect } from 'react';
+import type { NewServiceDefinition, NewServicePreview, NewServiceResult, RestartPolicy } from '../../types/service';
+import { parseEnvironment } from '../utils/environment';
+
+interface ServiceWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: (result: NewServiceResult) => void;
+}
+
+const RESTART_OPTIONS: ReadonlyArray<{ value: RestartPolicy; label: string }> = [
+  { value: 'no', label: 'Never' },
+  { value: 'on-failure', label: 'On failure' },
+  { value: 'on-abnormal', label: 'On abnormal exit' },
+  { value: 'on-abort', label: 'On abort' },
+  { value: 'on-success', label: 'On success' },
+  { value: 'always', label: 'Always' },
+];
+
+const WANTED_BY_OPTIONS = ['multi-user.target', 'graphical.target', 'network-online.target', 'default.target'];
+
+const inputClassName =
+  'w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const labelClassName = 'block text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1';
+
+const INITIAL_FORM = {
+  name: '',
+  description: '',
+  execStart: '',
+  user: '',
+  workingDirectory: '',
+  environment: '',
+  restart: 'on-failure' as RestartPolicy,
+  wantedBy: 'multi-user.target',
+};
+
+const ServiceWizard: React.FC<ServiceWizardProps> = ({ isOpen, onClose, onCreated }) => {
+  const [form, setForm] = useState(INITIAL_FORM);
+  const [enable, setEnable] = useState(true);
+  const [start, setStart] = useState(true);
+  const [preview, setPreview] = useState<NewServicePreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(INITIAL_FORM);
+      setPreview(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const updateField = <K extends keyof typeof INITIAL_FORM>(key: K, value: (typeof INITIAL_FORM)[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+    // Any edit invalidates the last verification.
+    setPreview(null);
+  };
+
+  const buildDefinition = (): NewServiceDefinition => ({
+    name: form.name.trim(),
+    description: form.description.trim(),
+    execStart: form.execStart.trim(),
+    user: form.user.trim() || undefined,
+    workingDirectory: form.workingDirectory.trim() || undefined,
+    environment: parseEnvironment(form.environment),
+    restart: form.restart,
+    wantedBy: form.wantedBy,
+  });
+
+  const handlePreview = async () => {
+    if (!window.serviceAPI) return;
+
+    setPreviewing(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.previewNewService(buildDefinition());
+      if (response.ok && response.data) {
+        setPreview(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to generate unit file');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate unit file');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!window.serviceAPI) return;
+
+    setCreating(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.createService(buildDefinition(), { enable, start });
+      if (response.ok && response.data) {
+        onCreated(response.data);
+        onClose();
+      } else {
+        setError(response.error?.message || 'Failed to create service');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create service');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white dark:bg-gray-900 w-full max-w-3xl max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <h2 className="text-xl font-normal text-gray-900 dark:text-white">
+            Create Service
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm whitespace-pre-wrap">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="wizardName" className={labelClassName}>Name</label>
+              <input
+                id="wizardName"
+                type="text"
+                value={form.name}
+                onChange={(e) => updateField('name', e.target.value)}
+                placeholder="my-app"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="wizardDescription" className={labelClassName}>Description</label>
+              <input
+                id="wizardDescription"
+                type="text"
+                value={form.description}
+                onChange={(e) => updateField('description', e.target.value)}
+                placeholder="My application"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="wizardExecStart" className={labelClassName}>ExecStart</label>
+            <input
+              id="wizardExecStart"
+              type="text"
+              value={form.execStart}
+              onChange={(e) => updateField('execStart', e.target.value)}
+              placeholder="/usr/bin/node /srv/my-app/server.js"
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="wizardUser" className={labelClassName}>User</label>
+              <input
+                id="wizardUser"
+                type="text"
+                value={form.user}
+                onChange={(e) => updateField('user', e.target.value)}
+                placeholder="root"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="wizardWorkingDirectory" className={labelClassName}>Working Directory</label>
+              <input
+                id="wizardWorkingDirectory"
+                type="text"
+                value={form.workingDirectory}
+                onChange={(e) => updateField('workingDirectory', e.target.value)}
+                placeholder="/srv/my-app"
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="wizardEnvironment" className={labelClassName}>Environment</label>
+            <textarea
+              id="wizardEnvironment"
+              value={form.environment}
+              onChange={(e) => updateField('environment', e.target.value)}
+              placeholder={'NODE_ENV=production\nPORT=8080'}
+              rows={3}
+              spellCheck={false}
+              className={`${inputClassName} font-mono text-xs`}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="wizardRestart" className={labelClassName}>Restart</label>
+              <select
+                id="wizardRestart"
+                value={form.restart}
+                onChange={(e) => updateField('restart', e.target.value as RestartPolicy)}
+                className={inputClassName}
+              >
+                {RESTART_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="wizardWantedBy" className={labelClassName}>Wanted By</label>
+              <select
+                id="wizardWantedBy"
+                value={form.wantedBy}
+                onChange={(e) => updateField('wantedBy', e.target.value)}
+                className={inputClassName}
+              >
+                {WANTED_BY_OPTIONS.map((target) => (
+                  <option key={target} value={target}>{target}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex gap-6">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={enable} onChange={(e) => setEnable(e.target.checked)} />
+              Enable at boot
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={start} onChange={(e) => setStart(e.target.checked)} />
+              Start now
+            </label>
+          </div>
+
+          {preview && (
+            <section>
+              <h3 className={labelClassName}>{`/etc/systemd/system/${preview.unitId}`}</h3>
+              <pre className="p-3 text-xs font-mono bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 border border-gray-200 dark:border-gray-700 overflow-x-auto whitespace-pre">
+                {preview.content}
+              </pre>
+              <div
+                className={`mt-2 p-3 text-sm border whitespace-pre-wrap ${
+                  preview.valid === false
+                    ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200'
+                    : preview.valid === null
+                      ? 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200'
+                      : 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200'
+                }`}
+              >
+                {preview.valid === true ? 'systemd-analyze verify passed' : preview.output}
+                {preview.valid === true && preview.output ? `\n${preview.output}` : ''}
+              </div>
+            </section>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handlePreview}
+            disabled={previewing || creating || !form.name.trim() || !form.execStart.trim()}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            {previewing ? 'Verifying...' : 'Preview & Verify'}
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={creating || !preview || preview.valid === false}
+            className="px-4 py-2 bg-black dark:bg-white text-white dark:text-black hover:opacity-80 disabled:opacity-50"
+            title={!preview ? 'Preview the unit file first' : undefined}
+          >
+            {creating ? 'Installing...' : 'Install Service'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ServiceWizard;
@@ -1,4 +1,4 @@
-import React, { memo, useEffect } from 'react';
+import React, { memo, useEffect, useState } from 'react';
 import type { Settings as SettingsType } from '../hooks/useSettings';
 
 interface SettingsProps {
@@ -8,7 +8,16 @@ interface SettingsProps {
   onUpdateSettings: (settings: Partial<SettingsType>) => void;
 }
 
+type HostCheckState = { checking: true } | { checking: false; ok: boolean; message: string };
+
+// Mirrors the main process's check; an ssh_config alias or hostname, optionally with a user.
+const HOST_PATTERN = /^(?:[A-Za-z0-9_][A-Za-z0-9_.-]*@)?[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+
 const Settings: React.FC<SettingsProps> = memo(({ isOpen, onClose, settings, onUpdateSettings }) => {
+  const [newHost, setNewHost] = useState('');
+  const [hostError, setHostError] = useState<string | null>(null);
+  const [hostChecks, setHostChecks] = useState<Record<string, HostCheckState>>({});
+
   useEffect(() => {
     if (!isOpen) return;
 
@@ -33,6 +42,41 @@ const Settings: React.FC<SettingsProps> = memo(({ isOpen, onClose, settings, onU
     onUpdateSettings({ updateInterval: interval });
   };
 
+  const handleAddHost = (e: React.FormEvent) => {
+    e.preventDefault();
+    const host = newHost.trim();
+    if (!HOST_PATTERN.test(host) || host.length > 255) {
+      setHostError('Enter an ssh config alias, a hostname or user@hostname');
+      return;
+    }
+    if (settings.remoteHosts.includes(host)) {
+      setHostError(`${host} is already in the list`);
+      return;
+    }
+    onUpdateSettings({ remoteHosts: [...settings.remoteHosts, host] });
+    setNewHost('');
+    setHostError(null);
+  };
+
+  const handleRemoveHost = (host: string) => {
+    onUpdateSettings({ remoteHosts: settings.remoteHosts.filter(item => item !== host) });
+  };
+
+  const handleCheckHost = async (host: string) => {
+    if (!window.serviceAPI) return;
+
+    setHostChecks(prev => ({ ...prev, [host]: { checking: true } }));
+    try {
+      const response = await window.serviceAPI.checkRemoteHost(host);
+      const result: HostCheckState = response.ok && response.data
+        ? { checking: false, ok: true, message: response.data.systemdVersion }
+        : { checking: false, ok: false, message: response.error?.message || 'Connection failed' };
+      setHostChecks(prev => ({ ...prev, [host]: result }));
+    } catch (err) {
+      setHostChecks(prev => ({ ...prev, [host]: { checking: false, ok: false, message: 'Connection failed' } }));
+    }
+  };
+
   const handleThemeChange = (theme: 'light' | 'dark') => {
     if (theme !== settings.theme) {
       onUpdateSettings({ theme });
@@ -167,6 +211,101 @@ const Settings: React.FC<SettingsProps> = memo(({ isOpen, onClose, settings, onU
             </div>
           </div>
 
+          {/* Service Actions */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white uppercase tracking-wider mb-3">
+              Service Actions
+            </h3>
+            <div className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+              <label className="block">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">Wait for units to settle</span>
+                  <span className="text-sm text-gray-600 dark:text-gray-400">
+                    {settings.actionWaitSeconds === 0 ? 'Off' : `${settings.actionWaitSeconds} s`}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="60"
+                  step="5"
+                  value={settings.actionWaitSeconds}
+                  onChange={(e) => onUpdateSettings({ actionWaitSeconds: Number(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:cursor-pointer"
+                />
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  After a start, stop, restart or reload of a systemd unit, wait up to this long for its job to finish and report the state it ends in.
+                </div>
+              </label>
+            </div>
+          </div>
+
+          {/* Remote Hosts */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white uppercase tracking-wider mb-3">
+              Remote Hosts
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Linux machines reached with your ssh config and agent. Logins must not prompt for a password; actions that need root use passwordless sudo on the host.
+            </p>
+
+            <form onSubmit={handleAddHost} className="flex gap-2 mb-2">
+              <input
+                type="text"
+                value={newHost}
+                onChange={(e) => setNewHost(e.target.value)}
+                placeholder="web-1 or admin@10.0.0.5"
+                aria-label="Remote host"
+                className="flex-1 min-w-0 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="submit"
+                disabled={!newHost.trim()}
+                className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white rounded-lg disabled:opacity-50 cursor-pointer"
+              >
+                Add
+              </button>
+            </form>
+            {hostError && (
+              <p className="text-xs text-red-600 dark:text-red-400 mb-2">{hostError}</p>
+            )}
+
+            {settings.remoteHosts.length > 0 && (
+              <ul className="space-y-2">
+                {settings.remoteHosts.map(host => {
+                  const check = hostChecks[host];
+                  return (
+                    <li key={host} className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-mono text-gray-900 dark:text-white truncate">{host}</span>
+                        <div className="flex gap-2 shrink-0">
+                          <button
+                            onClick={() => handleCheckHost(host)}
+                            disabled={check?.checking}
+                            className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 cursor-pointer"
+                          >
+                            {check?.checking ? 'Testing...' : 'Test'}
+                          </button>
+                          <button
+                            onClick={() => handleRemoveHost(host)}
+                            className="px-3 py-1 text-xs border border-red-300 dark:border-red-800 text-red-700 dark:text-red-300 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 cursor-pointer"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                      {check && !check.checking && (
+                        <p className={`mt-1 text-xs break-words ${check.ok ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                          {check.ok ? `✓ ${check.message}` : check.message}
+                        </p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
           {/* Info */}
           <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
             <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { ServiceScope, TimerInfo } from '../../types/service';
+
+interface TimersDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scope?: ServiceScope;
+  onRunNow: (timer: TimerInfo) => Promise<boolean>;
+  onSelectService: (serviceId: string) => void;
+  onViewLogs: (serviceId: string, serviceName: string) => void;
+}
+
+const formatRelative = (timestamp: number): string => {
+  const diffMs = timestamp - Date.now();
+  const minutes = Math.round(Math.abs(diffMs) / 60000);
+  let amount: string;
+  if (minutes < 1) amount = 'less than a minute';
+  else if (minutes < 60) amount = `${minutes}m`;
+  else if (minutes < 60 * 48) amount = `${Math.round(minutes / 60)}h`;
+  else amount = `${Math.round(minutes / (60 * 24))}d`;
+  return diffMs >= 0 ? `in ${amount}` : `${amount} ago`;
+};
+
+const TimersDashboard: React.FC<TimersDashboardProps> = ({
+  isOpen,
+  onClose,
+  scope = 'system',
+  onRunNow,
+  onSelectService,
+  onViewLogs,
+}) => {
+  const [timers, setTimers] = useState<TimerInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState<string | null>(null);
+  const [neverFiredOnly, setNeverFiredOnly] = useState(false);
+
+  const loadTimers = useCallback(async () => {
+    if (!window.serviceAPI) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.listTimers(scope);
+      if (response.ok && response.data) {
+        setTimers(response.data);
+      } else {
+        setError(response.error?.message || 'Failed to load timers');
+      }
+    } catch (err) {
+      setError('Failed to load timers');
+    } finally {
+      setLoading(false);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTimers();
+    }
+  }, [isOpen, loadTimers]);
+
+  const neverFiredCount = useMemo(() => timers.filter(timer => timer.lastTrigger === null).length, [timers]);
+
+  const visibleTimers = useMemo(
+    () => (neverFiredOnly ? timers.filter(timer => timer.lastTrigger === null) : timers),
+    [timers, neverFiredOnly]
+  );
+
+  const handleRunNow = async (timer: TimerInfo) => {
+    setRunning(timer.id);
+    try {
+      if (await onRunNow(timer)) {
+        await loadTimers();
+      }
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white dark:bg-gray-900 w-full max-w-6xl max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <div>
+            <h2 className="text-xl font-normal text-gray-900 dark:text-white">
+              Timers
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {timers.length} timers • {neverFiredCount} never fired{scope === 'user' ? ' • User units' : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between mb-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={neverFiredOnly}
+                onChange={(e) => setNeverFiredOnly(e.target.checked)}
+              />
+              Only show timers that have never fired
+            </label>
+            <button
+              onClick={loadTimers}
+              disabled={loading}
+              className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Reload'}
+            </button>
+          </div>
+
+          {loading && timers.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              Loading timers...
+            </div>
+          ) : visibleTimers.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              {neverFiredOnly ? 'Every timer has fired at least once.' : 'No timers found.'}
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Timer</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Schedule</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Next Run</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Last Run</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Persistent</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Activates</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {visibleTimers.map((timer) => (
+                  <tr key={timer.id} className={timer.status !== 'active' ? 'opacity-60' : ''}>
+                    <td className="px-3 py-2 align-top">
+                      <div className="font-mono text-gray-900 dark:text-white">{timer.id}</div>
+                      {timer.description && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{timer.description}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 align-top font-mono text-xs text-gray-700 dark:text-gray-300">
+                      {timer.onCalendar.length > 0 ? timer.onCalendar.join(', ') : 'Monotonic'}
+                    </td>
+                    <td className="px-3 py-2 align-top text-gray-700 dark:text-gray-300">
+                      {timer.nextElapse !== null ? (
+                        <span title={new Date(timer.nextElapse).toLocaleString()}>{formatRelative(timer.nextElapse)}</span>
+                      ) : '—'}
+                    </td>
+                    <td className="px-3 py-2 align-top">
+                      {timer.lastTrigger !== null ? (
+                        <span className="text-gray-700 dark:text-gray-300" title={new Date(timer.lastTrigger).toLocaleString()}>
+                          {formatRelative(timer.lastTrigger)}
+                        </span>
+                      ) : (
+                        <span className="px-2 py-0.5 text-xs bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-300 border border-yellow-200 dark:border-yellow-800">
+                          Never
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 align-top text-gray-700 dark:text-gray-300">
+                      {timer.persistent ? 'Yes' : 'No'}
+                    </td>
+                    <td className="px-3 py-2 align-top">
+                      <button
+                        onClick={() => onSelectService(timer.unit)}
+                        className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                        title="Show this unit in the service table"
+                      >
+                        {timer.unit}
+                      </button>
+                    </td>
+                    <td className="px-3 py-2 align-top">
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleRunNow(timer)}
+                          disabled={running === timer.id}
+                          className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+                          title={`Start ${timer.unit} now; the timer's own schedule is unaffected`}
+                        >
+                          {running === timer.id ? 'Starting...' : 'Run Now'}
+                        </button>
+                        <button
+                          onClick={() => onViewLogs(timer.unit, timer.unit)}
+                          className="px-3 py-1 text-xs border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+                        >
+                          Logs
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimersDashboard;
@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react';
+import type {
+  ResourceLimitName,
+  ServiceControlResult,
+  ServiceScope,
+  TransientUnitDefinition,
+} from '../../types/service';
+import { parseEnvironment } from '../utils/environment';
+
+interface TransientUnitDialogProps {
+  isOpen: boolean;
+  scope: ServiceScope;
+  onClose: () => void;
+  onStarted: (result: ServiceControlResult) => void;
+}
+
+type TimerMode = 'none' | 'calendar' | 'active';
+
+const LIMIT_FIELDS: ReadonlyArray<{ name: ResourceLimitName; label: string; placeholder: string }> = [
+  { name: 'MemoryMax', label: 'Memory Max', placeholder: 'e.g. 512M' },
+  { name: 'CPUQuota', label: 'CPU Quota', placeholder: 'e.g. 50%' },
+  { name: 'TasksMax', label: 'Tasks Max', placeholder: 'e.g. 64' },
+];
+
+const inputClassName =
+  'w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const labelClassName = 'block text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1';
+
+const INITIAL_FORM = {
+  name: '',
+  description: '',
+  command: '',
+  user: '',
+  workingDirectory: '',
+  environment: '',
+  timerMode: 'none' as TimerMode,
+  timerValue: '',
+};
+
+/**
+ * "Run as service": starts a command as a transient unit with
+ * `systemd-run`, right away or from a transient timer. Nothing is written to
+ * disk; the unit goes away once it has stopped.
+ */
+const TransientUnitDialog: React.FC<TransientUnitDialogProps> = ({ isOpen, scope, onClose, onStarted }) => {
+  const [form, setForm] = useState(INITIAL_FORM);
+  const [limits, setLimits] = useState<Partial<Record<ResourceLimitName, string>>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(INITIAL_FORM);
+      setLimits({});
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const updateField = <K extends keyof typeof INITIAL_FORM>(key: K, value: (typeof INITIAL_FORM)[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const buildDefinition = (): TransientUnitDefinition => {
+    const timerValue = form.timerValue.trim();
+    return {
+      name: form.name.trim() || undefined,
+      description: form.description.trim() || undefined,
+      command: form.command.trim(),
+      user: scope === 'system' ? form.user.trim() || undefined : undefined,
+      workingDirectory: form.workingDirectory.trim() || undefined,
+      environment: parseEnvironment(form.environment),
+      limits: Object.fromEntries(
+        Object.entries(limits).map(([name, value]) => [name, value?.trim() ?? '']).filter(([, value]) => value)
+      ),
+      timer:
+        form.timerMode === 'calendar' && timerValue
+          ? { onCalendar: timerValue }
+          : form.timerMode === 'active' && timerValue
+            ? { onActive: timerValue }
+            : undefined,
+    };
+  };
+
+  const handleRun = async () => {
+    if (!window.serviceAPI) return;
+
+    setRunning(true);
+    setError(null);
+
+    try {
+      const response = await window.serviceAPI.runTransientUnit(buildDefinition(), scope);
+      if (response.ok && response.data) {
+        onStarted(response.data);
+        onClose();
+      } else {
+        setError(response.error?.message || 'Failed to start the command');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the command');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white dark:bg-gray-900 w-full max-w-3xl max-h-[90vh] flex flex-col border border-gray-200 dark:border-gray-800">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <h2 className="text-xl font-normal text-gray-900 dark:text-white">
+            Run as Service
+            <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">{scope === 'user' ? 'user' : 'system'}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 text-sm whitespace-pre-wrap">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="transientCommand" className={labelClassName}>Command</label>
+            <input
+              id="transientCommand"
+              type="text"
+              value={form.command}
+              onChange={(e) => updateField('command', e.target.value)}
+              placeholder="/usr/local/bin/migrate --to latest"
+              className={`${inputClassName} font-mono`}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Run directly, not through a shell: quotes group words, but pipes, redirects and variables are not expanded.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="transientName" className={labelClassName}>Unit Name</label>
+              <input
+                id="transientName"
+                type="text"
+                value={form.name}
+                onChange={(e) => updateField('name', e.target.value)}
+                placeholder="run-<timestamp>"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="transientDescription" className={labelClassName}>Description</label>
+              <input
+                id="transientDescription"
+                type="text"
+                value={form.description}
+                onChange={(e) => updateField('description', e.target.value)}
+                placeholder="Database migration"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {scope === 'system' && (
+              <div>
+                <label htmlFor="transientUser" className={labelClassName}>User</label>
+                <input
+                  id="transientUser"
+                  type="text"
+                  value={form.user}
+                  onChange={(e) => updateField('user', e.target.value)}
+                  placeholder="root"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            <div>
+              <label htmlFor="transientWorkingDirectory" className={labelClassName}>Working Directory</label>
+              <input
+                id="transientWorkingDirectory"
+                type="text"
+                value={form.workingDirectory}
+                onChange={(e) => updateField('workingDirectory', e.target.value)}
+                placeholder="/srv/my-app"
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="transientEnvironment" className={labelClassName}>Environment</label>
+            <textarea
+              id="transientEnvironment"
+              value={form.environment}
+              onChange={(e) => updateField('environment', e.target.value)}
+              placeholder={'DATABASE_URL=postgres://localhost/app\nRAILS_ENV=production'}
+              rows={3}
+              spellCheck={false}
+              className={`${inputClassName} font-mono text-xs`}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {LIMIT_FIELDS.map(({ name, label, placeholder }) => (
+              <div key={name}>
+                <label htmlFor={`transient${name}`} className={labelClassName}>{label}</label>
+                <input
+                  id={`transient${name}`}
+                  type="text"
+                  value={limits[name] ?? ''}
+                  onChange={(e) => setLimits(prev => ({ ...prev, [name]: e.target.value }))}
+                  placeholder={placeholder}
+                  className={`${inputClassName} font-mono text-sm`}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="transientTimerMode" className={labelClassName}>Start</label>
+              <select
+                id="transientTimerMode"
+                value={form.timerMode}
+                onChange={(e) => updateField('timerMode', e.target.value as TimerMode)}
+                className={inputClassName}
+              >
+                <option value="none">Now</option>
+                <option value="active">After a delay (--on-active)</option>
+                <option value="calendar">On a schedule (--on-calendar)</option>
+              </select>
+            </div>
+            {form.timerMode !== 'none' && (
+              <div>
+                <label htmlFor="transientTimerValue" className={labelClassName}>
+                  {form.timerMode === 'calendar' ? 'Calendar Expression' : 'Delay'}
+                </label>
+                <input
+                  id="transientTimerValue"
+                  type="text"
+                  value={form.timerValue}
+                  onChange={(e) => updateField('timerValue', e.target.value)}
+                  placeholder={form.timerMode === 'calendar' ? '*-*-* 03:00:00' : '15min'}
+                  className={`${inputClassName} font-mono`}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRun}
+            disabled={running || !form.command.trim() || (form.timerMode !== 'none' && !form.timerValue.trim())}
+            className="px-4 py-2 bg-black dark:bg-white text-white dark:text-black hover:opacity-80 disabled:opacity-50"
+          >
+            {running ? 'Starting...' : 'Run'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransientUnitDialog;
@@ -4,6 +4,10 @@ export interface Settings {
   theme: 'light' | 'dark';
   autoUpdate: boolean;
   updateInterval: number;
+  /** SSH destinations offered in the header's host switcher. */
+  remoteHosts: string[];
+  /** How long an action waits for a systemd unit to settle before reporting; 0 reports right away. */
+  actionWaitSeconds: number;
 }
 
 const getPreferredTheme = (): 'light' | 'dark' => {
@@ -17,10 +21,22 @@ const sanitizeTheme = (theme: unknown): 'light' | 'dark' => {
   return theme === 'light' ? 'light' : 'dark';
 };
 
+const sanitizeHosts = (hosts: unknown): string[] => {
+  return Array.isArray(hosts) ? hosts.filter((host): host is string => typeof host === 'string' && host.length > 0) : [];
+};
+
 const DEFAULT_SETTINGS: Settings = {
   theme: getPreferredTheme(),
   autoUpdate: true,
   updateInterval: 10,
+  remoteHosts: [],
+  actionWaitSeconds: 10,
+};
+
+const sanitizeWaitSeconds = (seconds: unknown): number => {
+  return typeof seconds === 'number' && Number.isInteger(seconds) && seconds >= 0 && seconds <= 120
+    ? seconds
+    : DEFAULT_SETTINGS.actionWaitSeconds;
 };
 
 const STORAGE_KEY = 'service-manager-settings';
@@ -32,6 +48,8 @@ const loadSettings = (): Settings => {
       const parsed = JSON.parse(stored);
       const merged = { ...DEFAULT_SETTINGS, ...parsed } as Settings;
       merged.theme = sanitizeTheme((parsed as Settings).theme);
+      merged.remoteHosts = sanitizeHosts((parsed as Settings).remoteHosts);
+      merged.actionWaitSeconds = sanitizeWaitSeconds((parsed as Settings).actionWaitSeconds);
       return merged;
     }
   } catch (error) {
@@ -68,6 +86,8 @@ export const useSettings = () => {
           const newSettings = JSON.parse(e.newValue);
           const merged = { ...DEFAULT_SETTINGS, ...newSettings } as Settings;
           merged.theme = sanitizeTheme((newSettings as Settings).theme);
+          merged.remoteHosts = sanitizeHosts((newSettings as Settings).remoteHosts);
+          merged.actionWaitSeconds = sanitizeWaitSeconds((newSettings as Settings).actionWaitSeconds);
           setSettings(merged);
         } catch (error) {
           console.error('Failed to sync settings', error);
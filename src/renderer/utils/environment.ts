@@ -0,0 +1,14 @@
+/** Parses `KEY=value` lines; blank lines and `#` comments are skipped. */
+export const parseEnvironment = (text: string): Record<string, string> => {
+  const environment: Record<string, string> = {};
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+    const separatorIndex = line.indexOf('=');
+    if (separatorIndex <= 0) {
+      throw new Error(`Environment line ${index + 1} must look like KEY=value`);
+    }
+    environment[line.slice(0, separatorIndex)] = line.slice(separatorIndex + 1);
+  });
+  return environment;
+};
@@ -0,0 +1,43 @@
+const BYTE_UNITS = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+
+export const formatBytes = (bytes: number | null | undefined): string => {
+  if (bytes === null || bytes === undefined) return '—';
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(unit === 0 || value >= 100 ? 0 : 1)} ${BYTE_UNITS[unit]}`;
+};
+
+/** Formats a CPUUsageNSec counter as accumulated CPU time, e.g. `2m 05s`. */
+export const formatCpuTime = (nanoseconds: number | null | undefined): string => {
+  if (nanoseconds === null || nanoseconds === undefined) return '—';
+  const totalSeconds = nanoseconds / 1e9;
+  if (totalSeconds < 1) return `${Math.round(totalSeconds * 1000)}ms`;
+  if (totalSeconds < 60) return `${totalSeconds.toFixed(1)}s`;
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+};
+
+export const formatPercent = (percent: number | null | undefined): string => {
+  if (percent === null || percent === undefined) return '—';
+  return `${percent < 10 ? percent.toFixed(1) : Math.round(percent)}%`;
+};
+
+/** Formats a supervisor's up-for counter, e.g. `3d 4h` or `12m 05s`. */
+export const formatUptime = (totalSeconds: number | null | undefined): string => {
+  if (totalSeconds === null || totalSeconds === undefined) return '—';
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+  return `${seconds}s`;
+};
@@ -0,0 +1,23 @@
+import type { SecurityExposure } from '../../types/service';
+
+export const formatExposure = (exposure: SecurityExposure | null | undefined): string => {
+  if (!exposure) return '—';
+  return `${exposure.score.toFixed(1)} ${exposure.predicate}`;
+};
+
+/** Colours follow `systemd-analyze security`: green up to OK, yellow for EXPOSED, red beyond. */
+export const getExposureTextClass = (predicate: string): string => {
+  switch (predicate) {
+    case 'PERFECT':
+    case 'SAFE':
+    case 'OK':
+      return 'text-emerald-600 dark:text-emerald-400';
+    case 'EXPOSED':
+      return 'text-amber-600 dark:text-amber-400';
+    case 'UNSAFE':
+    case 'DANGEROUS':
+      return 'text-red-600 dark:text-red-400';
+    default:
+      return 'text-gray-700 dark:text-gray-300';
+  }
+};
@@ -6,7 +6,41 @@ export type ServiceStatus =
   | 'deactivating'
   | 'unknown';
 
-export type ServiceAction = 'start' | 'stop' | 'restart' | 'enable' | 'disable';
+export type ServiceAction =
+  | 'start'
+  | 'stop'
+  | 'restart'
+  | 'enable'
+  | 'disable'
+  | 'reload'
+  | 'reload-or-restart'
+  | 'try-restart'
+  | 'mask'
+  | 'unmask'
+  | 'reset-failed'
+  | 'kill'
+  | 'enable-now'
+  | 'disable-now';
+
+export type KillSignal = 'SIGTERM' | 'SIGKILL' | 'SIGHUP' | 'SIGINT' | 'SIGQUIT' | 'SIGUSR1' | 'SIGUSR2';
+
+/** Extra arguments for actions that take them; only `kill` does today. */
+export interface ServiceActionOptions {
+  signal?: KillSignal;
+  /** Signal only the main process, or every process in the unit's cgroup. */
+  killWhom?: 'main' | 'all';
+  /** How long to wait for a systemd unit to settle after the action; 0 returns right away. */
+  waitTimeoutMs?: number;
+}
+
+/** Which systemd manager a unit belongs to: PID 1 or the per-user instance. */
+export type ServiceScope = 'system' | 'user';
+
+/** systemd unit kinds the Linux providers list and control. */
+export type UnitType = 'service' | 'timer' | 'socket' | 'path' | 'mount' | 'target';
+
+/** Service manager behind a ServiceInfo; on Linux, the init system that booted the machine. */
+export type ServiceProviderKind = 'systemd' | 'openrc' | 'runit' | 's6' | 'sysv' | 'win32-service' | 'launchd';
 
 export interface ServiceInfo {
   id: string;
@@ -18,21 +52,410 @@ export interface ServiceInfo {
   executable: string | null;
   unitFile?: string | null;
   pid: number | null;
-  provider: 'systemd' | 'win32-service' | 'launchd';
+  provider: ServiceProviderKind;
   loadState?: string | null;
   domain?: string | null;
+  unitType?: UnitType;
+  /** Type-specific unit properties (e.g. a timer's schedule), filled in by getServiceDetails. */
+  unitProperties?: Record<string, string>;
   raw?: unknown;
   canStart: boolean;
   canStop: boolean;
   canRestart: boolean;
   canEnable: boolean;
   canDisable: boolean;
+  /** systemd only; undefined for providers without the extended action set. */
+  canReload?: boolean;
+  canMask?: boolean;
+  canUnmask?: boolean;
+  /** cgroup accounting; systemd only, and omitted when the unit reports none of it. */
+  resources?: ServiceResourceUsage;
+  /** systemd only; the unit's cgroup path below the cgroup root, omitted when it has none. */
+  controlGroup?: string;
+  /** Automatic restarts (NRestarts) since the unit was last started by hand; systemd services only. */
+  restarts?: number;
+  /** Sockets the unit's processes listen on; omitted when none were found. */
+  listening?: ListeningSocket[];
+  /** `systemd-analyze security` result; services only, omitted until the first analysis finishes. */
+  security?: SecurityExposure;
+  /** SSH destination the unit was read from; omitted for the local machine. */
+  host?: string;
+  /** Local container (as listed by `machinectl`) the unit was read from; omitted for the host itself. */
+  machine?: string;
+  /** Seconds since a supervised service last came up; runit and s6 only, omitted while it is down. */
+  uptimeSeconds?: number;
+  /** Configured and live environment; local systemd services only, filled in by getServiceDetails. */
+  environment?: ServiceEnvironment;
+}
+
+/**
+ * How a variable in the configured environment compares with the main
+ * process's: the same, different, only configured (e.g. the service was not
+ * restarted since), or only live (set by systemd itself, such as
+ * INVOCATION_ID, or inherited from the manager).
+ */
+export type EnvironmentDiffState = 'same' | 'changed' | 'configured-only' | 'live-only';
+
+export interface EnvironmentEntry {
+  name: string;
+  /** Value from `Environment=` or an `EnvironmentFile=`; null when the variable is not configured. */
+  configured: string | null;
+  /** `Environment=`, or the path of the environment file the configured value was read from. */
+  source: string | null;
+  /** Value in the main process's environment; null when it is not set there or the environment could not be read. */
+  live: string | null;
+  state: EnvironmentDiffState;
+  /** Both values were replaced with a placeholder because the variable looks like it holds a secret. */
+  masked: boolean;
+}
+
+export interface EnvironmentFileInfo {
+  path: string;
+  /** Written with a leading `-`: a missing file is not an error. */
+  optional: boolean;
+  /** False when the file is missing or not readable by the app, so its variables are not listed. */
+  readable: boolean;
+}
+
+export interface ServiceEnvironment {
+  unitId: string;
+  entries: EnvironmentEntry[];
+  files: EnvironmentFileInfo[];
+  /** Variables set with `Environment=`, unmasked only when revealed; what the editor starts from. */
+  assignments: Record<string, string>;
+  /** Main process the live environment was read from. */
+  pid: number | null;
+  /** Why there is no live environment to compare with; null when it was read. */
+  liveUnavailable: string | null;
+}
+
+export interface EnvironmentSaveResult {
+  unitId: string;
+  /** The drop-in holding the edited `Environment=` lines. */
+  path: string;
+  elevated: boolean;
+}
+
+/** Overall exposure from `systemd-analyze security`: 0.0 is fully locked down, 10.0 fully exposed. */
+export interface SecurityExposure {
+  score: number;
+  /** systemd's rating for the score, from PERFECT through SAFE, OK, MEDIUM, EXPOSED and UNSAFE to DANGEROUS. */
+  predicate: string;
+}
+
+export interface SecurityCheck {
+  /** Setting the check looks at, e.g. `PrivateNetwork=`. */
+  name: string;
+  description: string;
+  passed: boolean;
+  /** What this check adds to the overall score; null when it passed. */
+  exposure: number | null;
+}
+
+export interface SecurityReport {
+  unitId: string;
+  exposure: SecurityExposure | null;
+  checks: SecurityCheck[];
+}
+
+export type SocketProtocol = 'tcp' | 'udp' | 'unix';
+
+/** A listening TCP, bound UDP or listening unix socket held by a unit's processes. */
+export interface ListeningSocket {
+  protocol: SocketProtocol;
+  /** IPv4 or IPv6 address, or the socket path for unix sockets (`@name` when abstract). */
+  address: string;
+  /** null for unix sockets. */
+  port: number | null;
+  /** Processes holding the socket; several for pre-forked workers. Empty while only systemd holds it. */
+  pids: number[];
+  /** Socket unit that listens on it for socket activation; omitted for sockets the service opened itself. */
+  socketUnit?: string;
+}
+
+/**
+ * A unit's cgroup accounting counters. Each is null when systemd reports it as
+ * not set, e.g. with accounting disabled or for a unit that is not running.
+ */
+export interface ServiceResourceUsage {
+  /** Total CPU time consumed, in nanoseconds. */
+  cpuUsageNSec: number | null;
+  memoryBytes: number | null;
+  tasks: number | null;
+  ioReadBytes: number | null;
+  ioWriteBytes: number | null;
+}
+
+export interface ResourceSample extends ServiceResourceUsage {
+  timestamp: number;
+  /** CPU use since the previous sample as a percentage of one core; null for the first sample. */
+  cpuPercent: number | null;
+}
+
+/**
+ * A systemd timer as shown on the timers dashboard. `nextElapse` and
+ * `lastTrigger` are epoch milliseconds, null when unscheduled or never fired.
+ */
+export interface TimerInfo {
+  id: string;
+  description: string;
+  scope: ServiceScope;
+  status: ServiceStatus;
+  /** The unit the timer activates, usually the same-named `.service`. */
+  unit: string;
+  onCalendar: string[];
+  persistent: boolean;
+  nextElapse: number | null;
+  lastTrigger: number | null;
+}
+
+/**
+ * Boot phases from `systemd-analyze time`, in milliseconds. A phase is null
+ * when the boot had none, e.g. no initrd, or the manager is a user instance.
+ */
+export interface BootTimes {
+  firmwareMs: number | null;
+  loaderMs: number | null;
+  kernelMs: number | null;
+  initrdMs: number | null;
+  userspaceMs: number | null;
+  totalMs: number;
+  /** Target the boot settled on, e.g. `graphical.target`, and when it was reached in userspace. */
+  reachedTarget: string | null;
+  reachedAfterMs: number | null;
+}
+
+/** One line of `systemd-analyze blame`: how long the unit took to start. */
+export interface BlameEntry {
+  unit: string;
+  durationMs: number;
+}
+
+/**
+ * One unit on the critical chain to the default target, in the order
+ * `systemd-analyze critical-chain` prints it: the target first, then each unit
+ * it waited for.
+ */
+export interface CriticalChainEntry {
+  unit: string;
+  depth: number;
+  /** When the unit became active, relative to the start of userspace. */
+  activatedAtMs: number | null;
+  /** How long the unit took to start; null for units that start instantly, like targets. */
+  durationMs: number | null;
+}
+
+export interface BootAnalysis {
+  times: BootTimes;
+  blame: BlameEntry[];
+  criticalChain: CriticalChainEntry[];
+}
+
+/**
+ * systemd's dependency properties. The first five point down the tree
+ * (what this unit pulls in), the reverse ones point up (who pulls this unit
+ * in); After/Before only order units and never start or stop anything.
+ */
+export type DependencyKind =
+  | 'Requires'
+  | 'Requisite'
+  | 'Wants'
+  | 'BindsTo'
+  | 'PartOf'
+  | 'RequiredBy'
+  | 'RequisiteOf'
+  | 'WantedBy'
+  | 'BoundBy'
+  | 'ConsistsOf'
+  | 'After'
+  | 'Before';
+
+export interface UnitDependencies {
+  unitId: string;
+  description: string;
+  scope: ServiceScope;
+  status: ServiceStatus;
+  /** Unit names per property; any unit type may appear, not only those the table lists. */
+  dependencies: Record<DependencyKind, string[]>;
+}
+
+export interface ImpactedUnit {
+  id: string;
+  status: ServiceStatus;
+  /** The forward dependency that ties this unit to the one being acted on, e.g. `BindsTo=nginx.service`. */
+  reason: string;
+}
+
+/**
+ * What a stop or disable would do to other units: `stopped` are active units
+ * systemd will stop along with it (followed transitively), `broken` are units
+ * left running or enabled without a dependency they declare.
+ */
+export interface DependencyImpact {
+  unitId: string;
+  action: ServiceAction;
+  stopped: ImpactedUnit[];
+  broken: ImpactedUnit[];
+  /** Set when the walk stopped early because too many units were involved. */
+  truncated: boolean;
+}
+
+export interface UnitFileEntry {
+  path: string;
+  /** Null when the file exists but could not be read. */
+  content: string | null;
+}
+
+/**
+ * A unit's vendor file and drop-ins as loaded by systemd. `dropIns` excludes
+ * the override.conf the editor manages, which is returned as `override`
+ * (null when it does not exist yet).
+ */
+export interface UnitFileSet {
+  unitId: string;
+  scope: ServiceScope;
+  fragment: UnitFileEntry | null;
+  dropIns: UnitFileEntry[];
+  overridePath: string;
+  override: string | null;
+}
+
+export interface OverrideSaveResult {
+  unitId: string;
+  path: string;
+  /** True when empty content removed the override instead of writing it. */
+  removed: boolean;
+  elevated: boolean;
+}
+
+/** cgroup limits editable through `systemctl set-property`. */
+export type ResourceLimitName = 'MemoryMax' | 'MemoryHigh' | 'CPUQuota' | 'CPUWeight' | 'TasksMax' | 'IOWeight';
+
+/**
+ * Limit values in `set-property` syntax: bytes or `512M` for memory, `50%` for
+ * CPUQuota, `infinity` where allowed. An empty string means unset (systemd's
+ * default), and assigning it resets the limit.
+ */
+export type ResourceLimits = Record<ResourceLimitName, string>;
+
+export interface ResourceLimitsUpdate {
+  limits: Partial<ResourceLimits>;
+  /** Apply with `--runtime`, so the change is lost at the next reboot. */
+  runtime: boolean;
+}
+
+export interface ResourceLimitsResult {
+  unitId: string;
+  runtime: boolean;
+  elevated: boolean;
+  /** Limits as read back after the change. */
+  limits: ResourceLimits;
+}
+
+/** One process in a unit's cgroup, as read from `/proc/<pid>`. */
+export interface UnitProcess {
+  pid: number;
+  ppid: number;
+  /** Short name from `/proc/<pid>/stat`. */
+  name: string;
+  /** Full command line; the bracketed name for kernel threads. */
+  command: string;
+  /** Owner's user name, or the numeric uid when it has no passwd entry. */
+  user: string;
+  rssBytes: number | null;
+  /** Epoch milliseconds. */
+  startedAt: number | null;
+  /** Kernel state letter: R, S, D, Z, T, ... */
+  state: string;
+  /** Child cgroup below the unit's own, e.g. `/worker`; empty when in the unit's cgroup itself. */
+  cgroup: string;
+}
+
+export interface UnitProcessTree {
+  unitId: string;
+  /** The unit's `ControlGroup`; null when it has none, e.g. because it is not running. */
+  controlGroup: string | null;
+  mainPid: number | null;
+  processes: UnitProcess[];
+  /** Set when the cgroup held more processes than were read. */
+  truncated: boolean;
+}
+
+export interface ProcessSignalResult {
+  pid: number;
+  signal: KillSignal;
+  elevated: boolean;
+}
+
+export type RestartPolicy = 'no' | 'on-success' | 'on-failure' | 'on-abnormal' | 'on-abort' | 'always';
+
+/** Form input for the new-service wizard; `name` gets `.service` appended if missing. */
+export interface NewServiceDefinition {
+  name: string;
+  description: string;
+  execStart: string;
+  user?: string;
+  workingDirectory?: string;
+  environment?: Record<string, string>;
+  restart: RestartPolicy;
+  wantedBy: string;
+}
+
+export interface NewServicePreview {
+  unitId: string;
+  content: string;
+  /** Outcome of `systemd-analyze verify`; null when the tool is not installed. */
+  valid: boolean | null;
+  output: string;
+}
+
+export interface NewServiceOptions {
+  enable?: boolean;
+  start?: boolean;
+}
+
+export interface NewServiceResult {
+  unitId: string;
+  path: string;
+  elevated: boolean;
+  enabled: boolean;
+  started: boolean;
+  service: ServiceInfo | null;
+}
+
+/** Starts the transient service from a transient timer instead of right away; either or both may be set. */
+export interface TransientUnitTimer {
+  /** Calendar expression, e.g. `*-*-* 03:00:00`. */
+  onCalendar?: string;
+  /** Time span after the timer is created, e.g. `15min`. */
+  onActive?: string;
+}
+
+/** Input for the "Run as service" dialog: a command started as a transient unit with `systemd-run`. */
+export interface TransientUnitDefinition {
+  /** Unit name; `.service` is appended if missing, and a `run-<timestamp>` name is used when empty. */
+  name?: string;
+  description?: string;
+  /** Command line; the first word is the executable, quotes group words as in a shell. */
+  command: string;
+  /** Account to run as; system scope only. */
+  user?: string;
+  workingDirectory?: string;
+  environment?: Record<string, string>;
+  limits?: Partial<ResourceLimits>;
+  timer?: TransientUnitTimer;
 }
 
 export interface ServiceListFilters {
   search?: string;
   status?: string;
   serviceId?: string;
+  scope?: ServiceScope;
+  unitType?: UnitType | 'all';
+  /** SSH destination (an ssh_config alias or `user@host`) to list from instead of this machine. */
+  host?: string;
+  /** Local container registered with systemd-machined to list from; system scope only. */
+  machine?: string;
 }
 
 export interface ServiceControlResult {
@@ -42,6 +465,79 @@ export interface ServiceControlResult {
   stdout?: string;
   stderr?: string;
   domain?: string;
+  host?: string;
+  machine?: string;
+  /** Where a systemd unit ended up once its job finished; left out for actions that start no job. */
+  outcome?: ServiceActionOutcome;
+}
+
+/** A unit's state after an action, read once its job is done and it has stopped changing. */
+export interface ServiceActionOutcome {
+  activeState: string;
+  subState: string;
+  /** The unit's Result= property: success, exit-code, signal, timeout, core-dump, ... */
+  result: string;
+  /** False when the unit was still changing state, or a job was still queued, at the deadline. */
+  settled: boolean;
+  /** Whether the unit ended up where the action meant it to. */
+  succeeded: boolean;
+  waitedMs: number;
+  /** The unit's last journal lines, when it did not succeed. */
+  logTail?: string[];
+}
+
+/** How a unit's main process ended: an exit status, or the signal that killed it. */
+export interface MainProcessExit {
+  kind: 'exited' | 'killed' | 'dumped';
+  /** Exit status, or signal number for killed and dumped. */
+  status: number;
+  /** systemd's or LSB's name for the exit status (EXEC, NOTINSTALLED, ...), or the signal name. */
+  name: string | null;
+  description: string | null;
+}
+
+/** Why a unit failed, from its properties and the journal of its last invocation. */
+export interface FailureDiagnosis {
+  unitId: string;
+  activeState: string;
+  subState: string;
+  result: string;
+  resultDescription: string | null;
+  mainExit: MainProcessExit | null;
+  nRestarts: number | null;
+  startLimitHit: boolean;
+  startLimitBurst: number | null;
+  /** As systemctl prints it, e.g. `10s`. */
+  startLimitInterval: string | null;
+  invocationId: string | null;
+  /** One-line explanation built from the fields above. */
+  summary: string;
+  journal: string[];
+  /** Whether `journal` holds only the failed invocation, or the unit's latest lines when it has no invocation id. */
+  journalSource: 'invocation' | 'unit';
+}
+
+/** A queued or running systemd job, as listed by `systemctl list-jobs`. */
+export interface SystemdJob {
+  id: number;
+  unit: string;
+  /** start, stop, restart, reload, verify-active, ... */
+  type: string;
+  state: 'waiting' | 'running';
+}
+
+export type ServiceEventType = 'added' | 'changed' | 'removed';
+
+/**
+ * Per-unit delta pushed from main on the `services:event` channel. `service`
+ * carries the fresh state for `added`/`changed` and is omitted for `removed`.
+ */
+export interface ServiceEvent {
+  type: ServiceEventType;
+  serviceId: string;
+  scope?: ServiceScope;
+  service?: ServiceInfo;
+  timestamp: number;
 }
 
 export interface SerializedError {
@@ -80,6 +576,8 @@ export interface BackupServiceInfo {
   status: string;
   startupType: string;
   enabled: boolean;
+  /** Non-default resource limits; absent in backups taken without systemd or before limits were recorded. */
+  limits?: Partial<ResourceLimits>;
 }
 
 export interface ServiceBackup {
@@ -88,6 +586,28 @@ export interface ServiceBackup {
   services: BackupServiceInfo[];
   platform: string;
   totalServices: number;
+  scope?: ServiceScope;
+  /** SSH destination the backup was taken from; omitted for the local machine. */
+  host?: string;
+  /** Local container the backup was taken from. */
+  machine?: string;
+}
+
+/** A machine registered with systemd-machined, from `machinectl list`. */
+export interface MachineInfo {
+  name: string;
+  /** `container` or `vm`; only containers can be managed with `--machine`. */
+  class: string;
+  service: string;
+  os: string | null;
+  version: string | null;
+}
+
+/** Result of checking that a remote host answers over SSH and runs systemd. */
+export interface RemoteHostCheck {
+  host: string;
+  /** First line of `systemctl --version`, e.g. `systemd 252 (252.22-1~deb12u1)`. */
+  systemdVersion: string;
 }
 
 export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy' | 'unknown';
@@ -99,6 +619,32 @@ export interface HealthCheckEvent {
   previousStatus?: HealthStatus;
   consecutiveFailures: number;
   message?: string;
+  /** Set on events from the crash-loop detector, which covers every unit rather than the monitored ones. */
+  instability?: ServiceInstabilityKind;
+  scope?: ServiceScope;
+}
+
+/**
+ * Why a unit was flagged as unstable: it keeps being restarted automatically,
+ * or it keeps going back and forth between active and failed.
+ */
+export type ServiceInstabilityKind = 'crash-loop' | 'flapping';
+
+/** A unit the crash-loop detector currently flags, with what it saw inside its window. */
+export interface UnstableService {
+  serviceId: string;
+  serviceName: string;
+  scope: ServiceScope;
+  kind: ServiceInstabilityKind;
+  /** Automatic restarts seen within the window. */
+  restarts: number;
+  /** Changes between active and failed seen within the window. */
+  transitions: number;
+  /** When the unit was first flagged in its current run of instability. */
+  since: number;
+  lastSeen: number;
+  status: ServiceStatus;
+  message: string;
 }
 
 export interface ServiceHealthStatus {
@@ -155,20 +701,68 @@ export interface UserPreferences {
 
 export interface ServiceAPI {
   listServices(filters?: ServiceListFilters): Promise<IpcResponse<ServiceInfo[]>>;
-  controlService(serviceId: string, action: ServiceAction): Promise<IpcResponse<ServiceControlResult>>;
-  getServiceDetails(serviceId: string): Promise<IpcResponse<ServiceInfo | null>>;
+  controlService(
+    serviceId: string,
+    action: ServiceAction,
+    scope?: ServiceScope,
+    options?: ServiceActionOptions,
+    host?: string,
+    machine?: string
+  ): Promise<IpcResponse<ServiceControlResult>>;
+  getServiceDetails(
+    serviceId: string,
+    scope?: ServiceScope,
+    host?: string,
+    machine?: string
+  ): Promise<IpcResponse<ServiceInfo | null>>;
+  checkRemoteHost(host: string): Promise<IpcResponse<RemoteHostCheck>>;
+  listMachines(): Promise<IpcResponse<MachineInfo[]>>;
+  listTimers(scope?: ServiceScope): Promise<IpcResponse<TimerInfo[]>>;
+  getBootAnalysis(scope?: ServiceScope): Promise<IpcResponse<BootAnalysis>>;
+  getUnitDependencies(serviceId: string, scope?: ServiceScope): Promise<IpcResponse<UnitDependencies>>;
+  getResourceHistory(serviceId: string, scope?: ServiceScope): Promise<IpcResponse<ResourceSample[]>>;
+  getUnitProcesses(serviceId: string, scope?: ServiceScope): Promise<IpcResponse<UnitProcessTree>>;
+  getSecurityReport(serviceId: string, scope?: ServiceScope): Promise<IpcResponse<SecurityReport>>;
+  signalProcess(
+    serviceId: string,
+    pid: number,
+    signal: KillSignal,
+    scope?: ServiceScope
+  ): Promise<IpcResponse<ProcessSignalResult>>;
+  getDependencyImpact(serviceId: string, action: ServiceAction, scope?: ServiceScope): Promise<IpcResponse<DependencyImpact>>;
+  getUnitFiles(serviceId: string, scope?: ServiceScope): Promise<IpcResponse<UnitFileSet>>;
+  saveOverride(serviceId: string, content: string, scope?: ServiceScope): Promise<IpcResponse<OverrideSaveResult>>;
+  getServiceEnvironment(serviceId: string, scope?: ServiceScope, reveal?: boolean): Promise<IpcResponse<ServiceEnvironment>>;
+  saveServiceEnvironment(
+    serviceId: string,
+    variables: Record<string, string>,
+    scope?: ServiceScope
+  ): Promise<IpcResponse<EnvironmentSaveResult>>;
+  getResourceLimits(serviceId: string, scope?: ServiceScope): Promise<IpcResponse<ResourceLimits>>;
+  setResourceLimits(
+    serviceId: string,
+    update: ResourceLimitsUpdate,
+    scope?: ServiceScope
+  ): Promise<IpcResponse<ResourceLimitsResult>>;
+  previewNewService(definition: NewServiceDefinition): Promise<IpcResponse<NewServicePreview>>;
+  createService(definition: NewServiceDefinition, options?: NewServiceOptions): Promise<IpcResponse<NewServiceResult>>;
+  runTransientUnit(definition: TransientUnitDefinition, scope?: ServiceScope): Promise<IpcResponse<ServiceControlResult>>;
+  listJobs(scope?: ServiceScope): Promise<IpcResponse<SystemdJob[]>>;
+  getFailureDiagnosis(serviceId: string, scope?: ServiceScope): Promise<IpcResponse<FailureDiagnosis>>;
+  cancelJob(jobId: number, scope?: ServiceScope): Promise<IpcResponse<boolean>>;
   openPath(targetPath: string): void;
   showError(message: string): Promise<void>;
-  onServiceEvent(handler: (payload: unknown) => void): () => void;
+  onServiceEvent(handler: (event: ServiceEvent) => void): () => void;
   checkForUpdates(): Promise<IpcResponse<UpdateInfo>>;
   manualUpdateCheck(): Promise<IpcResponse<void>>;
   applyPendingUpdate(): Promise<IpcResponse<boolean>>;
   getAppVersion(): Promise<string>;
+  getServiceProvider(): Promise<ServiceProviderKind>;
   onUpdateAvailable(handler: (updateInfo: UpdateInfo) => void): () => void;
   onUpdateProgress(handler: (progress: UpdateProgress) => void): () => void;
   onUpdateDownloaded(handler: (payload: { version: string; releaseNotes?: string }) => void): () => void;
   onUpdateError(handler: (error: { message: string }) => void): () => void;
-  createBackup(): Promise<IpcResponse<ServiceBackup>>;
+  createBackup(scope?: ServiceScope, host?: string, machine?: string): Promise<IpcResponse<ServiceBackup>>;
   listBackups(): Promise<IpcResponse<ServiceBackup[]>>;
   getBackup(id: string): Promise<IpcResponse<ServiceBackup | null>>;
   deleteBackup(id: string): Promise<IpcResponse<boolean>>;
@@ -179,7 +773,14 @@ export interface ServiceAPI {
   getHealthConfig(): Promise<IpcResponse<HealthCheckConfig>>;
   updateHealthConfig(config: Partial<HealthCheckConfig>): Promise<IpcResponse<HealthCheckConfig>>;
   onHealthEvent(handler: (event: HealthCheckEvent) => void): () => void;
-  getServiceLogs(serviceId: string, lines?: number): Promise<IpcResponse<ServiceLogs>>;
+  getUnstableServices(): Promise<IpcResponse<UnstableService[]>>;
+  getServiceLogs(
+    serviceId: string,
+    lines?: number,
+    scope?: ServiceScope,
+    host?: string,
+    machine?: string
+  ): Promise<IpcResponse<ServiceLogs>>;
   exportServices(format: ExportFormat, services: ServiceInfo[]): Promise<IpcResponse<ExportResult>>;
 }
 
@@ -189,7 +189,11 @@ export class CircuitBreaker {
   }
 }
 
-export function getUserFriendlyErrorMessage(error: unknown, context: string): string {
+/**
+ * `failureSummary` is the reason a unit failed, when the caller has looked it
+ * up (see the failure diagnosis); it replaces the generic advice to check logs.
+ */
+export function getUserFriendlyErrorMessage(error: unknown, context: string, failureSummary?: string): string {
   if (!(error instanceof Error)) {
     return `Unable to ${context}. Please try again.`;
   }
@@ -203,6 +207,10 @@ export function getUserFriendlyErrorMessage(error: unknown, context: string): st
   if (message.includes('timeout') || message.includes('timed out')) {
     return `⏱️ Operation timed out while trying to ${context}. The service may be unresponsive.`;
   }
+
+  if (failureSummary) {
+    return `❌ Failed to ${context}: ${failureSummary}`;
+  }
   
   if (message.includes('not found') || message.includes('does not exist') || message.includes('enoent')) {
     return `🔍 Service not found. It may have been removed or ${context} is unavailable.`;
@@ -217,7 +225,7 @@ export function getUserFriendlyErrorMessage(error: unknown, context: string): st
   }
   
   if (message.includes('failed to start')) {
-    return `❌ Failed to start service. Check service configuration and logs for details.`;
+    return `❌ Failed to start service. Select it to see why it failed.`;
   }
   
   if (message.includes('connection') || message.includes('network')) {
@@ -60,10 +60,59 @@ export function sanitizeSearchQuery(query: string): string {
 }
 
 export function isValidServiceAction(action: string): boolean {
-  const allowedActions = ['start', 'stop', 'restart', 'enable', 'disable'];
+  const allowedActions = [
+    'start',
+    'stop',
+    'restart',
+    'enable',
+    'disable',
+    'reload',
+    'reload-or-restart',
+    'try-restart',
+    'mask',
+    'unmask',
+    'reset-failed',
+    'kill',
+    'enable-now',
+    'disable-now',
+  ];
   return allowedActions.includes(action);
 }
 
+export function isValidKillSignal(signal: unknown): boolean {
+  const allowedSignals = ['SIGTERM', 'SIGKILL', 'SIGHUP', 'SIGINT', 'SIGQUIT', 'SIGUSR1', 'SIGUSR2'];
+  return typeof signal === 'string' && allowedSignals.includes(signal);
+}
+
+export function isValidServiceScope(scope: unknown): boolean {
+  return scope === 'system' || scope === 'user';
+}
+
+/**
+ * An SSH destination: an ssh_config alias or hostname, optionally with a
+ * user. Anything ssh could read as an option or a shell could expand is refused.
+ */
+export function isValidRemoteHost(host: unknown): boolean {
+  return (
+    typeof host === 'string' &&
+    host.length <= 255 &&
+    /^(?:[A-Za-z0-9_][A-Za-z0-9_.-]*@)?[A-Za-z0-9_][A-Za-z0-9_.-]*$/.test(host)
+  );
+}
+
+/**
+ * A machine name as systemd-machined accepts it: a hostname label of at
+ * most 64 characters, so it can be passed as `--machine=<name>` unquoted.
+ */
+export function isValidMachineName(machine: unknown): boolean {
+  return typeof machine === 'string' && /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/.test(machine);
+}
+
+export function isValidUnitTypeFilter(unitType: unknown): boolean {
+  const allowedTypes = ['all', 'service', 'timer', 'socket', 'path', 'mount', 'target'];
+  return typeof unitType === 'string' && allowedTypes.includes(unitType);
+}
+
 export function sanitizeErrorMessage(error: unknown): string {
   if (!error) {
     return 'An unknown error occurred';